@@ -1,30 +1,105 @@
-$ModulePath = Join-Path $PSScriptRoot "..\modules\MonitorConfig"
-Import-Module $ModulePath -ErrorAction Stop
+<#
+.SYNOPSIS
+Lists monitors and reads or writes VCP values through the bundled
+MonitorConfig module.
 
-$monitorInfo = Get-Monitor
-if ($LASTEXITCODE -ne 0) {
-    Write-Host "Could not query monitor info!"
-    exit
-}
+.DESCRIPTION
+Called by the extension's PowerShell backend with
+powershell.exe -NoProfile -ExecutionPolicy Bypass -File monitor-control.ps1 ...
+
+Every action writes one compressed JSON document to stdout. Failures write
+the error message to stderr and exit with code 1.
+
+.EXAMPLE
+.\monitor-control.ps1 -Action list
+.\monitor-control.ps1 -Action get -Monitor Primary -VcpCode 96
+.\monitor-control.ps1 -Action set -Monitor \\.\DISPLAY2 -VcpCode 96 -Value 17
+.\monitor-control.ps1 -Action capabilities -Monitor \\.\DISPLAY2
+.\monitor-control.ps1 -Action version
+#>
+param(
+    [Parameter(Mandatory = $true)]
+    [ValidateSet("list", "get", "set", "capabilities", "version")]
+    [string]$Action,
+    # Logical display device name (\\.\DISPLAYn), or Primary
+    [string]$Monitor = "Primary",
+    # VCP codes are passed in decimal: input select (0x60) is 96
+    [ValidateRange(0, 255)]
+    [int]$VcpCode = 96,
+    [int]$Value = -1
+)
 
-$logicalName = $monitorInfo.LogicalDisplay.DeviceName
-$response = Get-MonitorVCPResponse -Monitor $logicalName -VCPCode 96 -ErrorAction SilentlyContinue
-if ($LASTEXITCODE -ne 0) {
-    Write-Host "Could not query VCP response!"
-    exit
+$ErrorActionPreference = "Stop"
+
+trap {
+    [Console]::Error.WriteLine($_.Exception.Message)
+    exit 1
 }
 
-$targetValue = 17
-$currentValue = $response.CurrentValue
-Write-Host "Setting $logicalName VCP code 60 from $currentValue to $targetValue in 3 seconds"
+$ModulePath = Join-Path $PSScriptRoot "..\modules\MonitorConfig"
+Import-Module $ModulePath -ErrorAction Stop
 
-Start-Sleep -Seconds 3
+function Resolve-Monitor([string]$Id) {
+    if ($Id -eq "" -or $Id -eq "Primary") {
+        $found = Get-Monitor -Primary
+    }
+    else {
+        $found = Get-Monitor | Where-Object { $_.LogicalDisplay.DeviceName -eq $Id }
+    }
+    $resolved = @($found) | Select-Object -First 1
+    if ($null -eq $resolved) {
+        throw "Display not found: $Id"
+    }
+    if ($resolved.GetType().Name -ne "VCPMonitor") {
+        throw "$($resolved.Description) does not support VCP codes (it is controlled through WMI)"
+    }
+    return $resolved
+}
 
-# 60 is decimal but MonitorConfig expects bytes, which means 96
-Set-MonitorVCPValue -Monitor $logicalName -VCPCode 96 -Value $targetValue
+function Write-Json($Object) {
+    [Console]::Out.WriteLine(($Object | ConvertTo-Json -Compress -Depth 4))
+}
 
-# If running in the console, wait for input before closing.
-if ($Host.Name -eq "ConsoleHost") {
-    Write-Host "Press any key to continue..."
-    $Host.UI.RawUI.ReadKey("NoEcho,IncludeKeyUp") > $null
+switch ($Action) {
+    "list" {
+        $monitors = @(Get-Monitor | ForEach-Object {
+                [pscustomobject]@{
+                    id   = $_.LogicalDisplay.DeviceName
+                    name = $_.Description
+                    vcp  = $_.GetType().Name -eq "VCPMonitor"
+                }
+            })
+        Write-Json @{ monitors = $monitors }
+    }
+    "get" {
+        $response = Get-MonitorVCPResponse -Monitor (Resolve-Monitor $Monitor) -VCPCode $VcpCode
+        Write-Json @{
+            vcpCode = $VcpCode
+            current = $response.CurrentValue
+            max     = $response.MaxValue
+        }
+    }
+    "set" {
+        if ($Value -lt 0) {
+            throw "Invalid value: pass -Value with the value to set"
+        }
+        Set-MonitorVCPValue -Monitor (Resolve-Monitor $Monitor) -VCPCode $VcpCode -Value $Value
+        Write-Json @{ vcpCode = $VcpCode; value = $Value }
+    }
+    "version" {
+        Write-Json @{
+            powershell = $PSVersionTable.PSVersion.ToString()
+            module     = (Get-Module MonitorConfig).Version.ToString()
+        }
+    }
+    "capabilities" {
+        $details = Get-MonitorDetails -Monitor (Resolve-Monitor $Monitor)
+        $features = @($details.VCPCodes | ForEach-Object {
+                [pscustomobject]@{
+                    code   = [int]$_.VCPCode
+                    values = @($_.ValidValues | ForEach-Object { [int]$_ })
+                }
+            })
+        Write-Json @{ features = $features }
+    }
 }
@@ -8,15 +8,59 @@
 /* eslint-disable @typescript-eslint/ban-types */
 
 type ExtensionPreferences = {
-  /** DisplayPort Input Code - DDC/CI input value for DisplayPort (VCP 0x60) */
+  /** DDC/CI Backend - Tool used to talk to the monitor. Automatic picks m1ddc on macOS, ControlMyMonitor on Windows and ddcutil on Linux. */
+  "ddcBackend": "auto" | "m1ddc" | "controlmymonitor" | "powershell" | "ddcutil" | "i2c" | "simulated",
+  /** DisplayPort Input Code - DDC/CI input value for DisplayPort (VCP 0x60). Decimal (15), hex (0x0F) or name (DP-1). */
   "displayPortValue": string,
-  /** HDMI Input Code - DDC/CI input value for HDMI (VCP 0x60) */
+  /** HDMI Input Code - DDC/CI input value for HDMI (VCP 0x60). Decimal (17), hex (0x11) or name (HDMI-1). */
   "hdmiValue": string,
+  /** Input Cycle - Optional comma-separated list of input codes to cycle through in order (e.g. 15, 0x11, HDMI-2). Overrides the DisplayPort/HDMI pair. */
+  "inputCycle": string,
+  /** Switch Retries - How many times to retry a switch when the monitor reports DDC busy or times out. Retries back off exponentially. */
+  "switchRetries": string,
+  /** Verify Timeout (seconds) - How long to keep reading the input back after switching until the monitor reports it. 0 disables verification. */
+  "verifyTimeout": string,
+  /** Overlapping Switches - What a switch does while another switch of the same monitor is still running. Switches never talk to a monitor at the same time. */
+  "switchConcurrency": "latest" | "reject",
+  /** Adjustment Step - How much the brightness, contrast and volume commands increase or decrease the value per step. */
+  "vcpStep": string,
+  /** Pre-Switch Hook - Optional script path or shell command run before every input switch. It gets MONITOR_SWITCH_MONITOR, MONITOR_SWITCH_FROM and MONITOR_SWITCH_TO (and their *_NAME variants) as environment variables. */
+  "preSwitchHook": string,
+  /** Pre-Switch Hook Timeout (seconds) - How long the pre-switch hook may run before it is stopped and counted as failed. */
+  "preSwitchHookTimeout": string,
+  /** Pre-Switch Hook Failure - Cancel the switch when the pre-switch hook exits with an error or times out. */
+  "abortOnPreHookFailure": boolean,
+  /** Post-Switch Hook - Optional script path or shell command run after every input switch, whatever its outcome. It gets the same variables as the pre-switch hook, plus MONITOR_SWITCH_STATUS (success, soft-fail or failure). */
+  "postSwitchHook": string,
+  /** Post-Switch Hook Timeout (seconds) - How long the post-switch hook may run before it is stopped and counted as failed. */
+  "postSwitchHookTimeout": string,
+  /** USB Devices to Watch - Comma-separated vendor:product IDs (e.g. 046d:c52b) of a USB device that moves between computers with your USB switch, such as the keyboard hub. Used by the USB Device Watcher. */
+  "usbWatchDevices": string,
+  /** When the USB Device Connects - Input to switch to (e.g. DP-1, 0x0F or a learned name), or 'profile: <name>' to apply a desk profile. Empty does nothing. */
+  "usbConnectAction": string,
+  /** When the USB Device Disconnects - Input to switch to (e.g. HDMI-1, 0x11 or a learned name), or 'profile: <name>' to apply a desk profile. Empty does nothing. */
+  "usbDisconnectAction": string,
+  /** USB Debounce (seconds) - How long a device must stay connected or disconnected before the watcher acts, so a USB switch re-enumerating the hub doesn't trigger twice. */
+  "usbDebounce": string,
+  /** USB sysfs Root (Linux) - [Linux only] Directory listing the USB devices, one folder per device with idVendor and idProduct files. */
+  "usbSysfsRoot": string,
+  /** Peer Handoff - Send switches to the monitor agent of another computer (see Peer Agent URL): only when this computer can't reach the monitor over DDC/CI, or always. */
+  "peerMode": "off" | "fallback" | "always",
+  /** Peer Agent URL - Address of the agent on the computer that can switch the monitor, started there with `monitor-switch agent` (e.g. http://desk-pc.local:8765). */
+  "peerUrl": string,
+  /** Agent Token - Shared secret between this extension and the peer's agent. Use the same long random string on both computers. */
+  "agentToken": string,
+  /** Peer Timeout (seconds) - How long to wait for the peer's agent to answer, including its switch. */
+  "peerTimeout": string,
   /** ControlMyMonitor Path (Windows) - [Windows only] Full path to ControlMyMonitor.exe */
   "controlMyMonitorPath": string,
   /** m1ddc Path (macOS) - [macOS only] Full path to m1ddc CLI tool */
   "m1ddcPath": string,
-  /** Monitor Identifier (Windows) - [Windows only] Monitor ID for ControlMyMonitor. Use 'Primary' or specific ID from discovery. */
+  /** ddcutil Path (Linux) - [Linux only] Full path to ddcutil CLI tool */
+  "ddcutilPath": string,
+  /** Model Database - Optional JSON file with more monitor models and their input codes, in the format of the bundled assets/monitor-models.json. Its entries take precedence. */
+  "modelDatabasePath": string,
+  /** Monitor(s) - Monitors to switch: 'Primary', 'all', or a comma-separated list of display numbers, serials, names or IDs from discovery (e.g. '1, 2' or 'bus=5'). */
   "monitorId": string
 }
 
@@ -26,14 +70,82 @@ declare type Preferences = ExtensionPreferences
 declare namespace Preferences {
   /** Preferences accessible in the `toggle-input-source` command */
   export type ToggleInputSource = ExtensionPreferences & {}
+  /** Preferences accessible in the `switch-to-input` command */
+  export type SwitchToInput = ExtensionPreferences & {}
   /** Preferences accessible in the `discover-inputs` command */
   export type DiscoverInputs = ExtensionPreferences & {}
+  /** Preferences accessible in the `brightness` command */
+  export type Brightness = ExtensionPreferences & {}
+  /** Preferences accessible in the `contrast` command */
+  export type Contrast = ExtensionPreferences & {}
+  /** Preferences accessible in the `volume` command */
+  export type Volume = ExtensionPreferences & {}
+  /** Preferences accessible in the `power-mode` command */
+  export type PowerMode = ExtensionPreferences & {}
+  /** Preferences accessible in the `desk-profiles` command */
+  export type DeskProfiles = ExtensionPreferences & {}
+  /** Preferences accessible in the `menu-bar` command */
+  export type MenuBar = ExtensionPreferences & {
+  /** Poll Interval (seconds) - How often the active inputs are read in the background. Raycast wakes the command every 30 seconds, so shorter values act as 30. Polling slows down while a monitor is asleep or unreadable. */
+  "pollInterval": string
+}
+  /** Preferences accessible in the `switch-history` command */
+  export type SwitchHistory = ExtensionPreferences & {}
+  /** Preferences accessible in the `diagnostics` command */
+  export type Diagnostics = ExtensionPreferences & {}
+  /** Preferences accessible in the `export-configuration` command */
+  export type ExportConfiguration = ExtensionPreferences & {}
+  /** Preferences accessible in the `import-configuration` command */
+  export type ImportConfiguration = ExtensionPreferences & {}
+  /** Preferences accessible in the `usb-watcher` command */
+  export type UsbWatcher = ExtensionPreferences & {}
+  /** Preferences accessible in the `toggle-usb-watcher` command */
+  export type ToggleUsbWatcher = ExtensionPreferences & {}
+  /** Preferences accessible in the `scheduled-rules` command */
+  export type ScheduledRules = ExtensionPreferences & {}
+  /** Preferences accessible in the `scheduled-switching` command */
+  export type ScheduledSwitching = ExtensionPreferences & {}
 }
 
 declare namespace Arguments {
   /** Arguments passed to the `toggle-input-source` command */
   export type ToggleInputSource = {}
+  /** Arguments passed to the `switch-to-input` command */
+  export type SwitchToInput = {
+  /** Input (e.g. HDMI-1) */
+  "input": string,
+  /** Monitor */
+  "monitor": string
+}
   /** Arguments passed to the `discover-inputs` command */
   export type DiscoverInputs = {}
+  /** Arguments passed to the `brightness` command */
+  export type Brightness = {}
+  /** Arguments passed to the `contrast` command */
+  export type Contrast = {}
+  /** Arguments passed to the `volume` command */
+  export type Volume = {}
+  /** Arguments passed to the `power-mode` command */
+  export type PowerMode = {}
+  /** Arguments passed to the `desk-profiles` command */
+  export type DeskProfiles = {}
+  /** Arguments passed to the `menu-bar` command */
+  export type MenuBar = {}
+  /** Arguments passed to the `switch-history` command */
+  export type SwitchHistory = {}
+  /** Arguments passed to the `diagnostics` command */
+  export type Diagnostics = {}
+  /** Arguments passed to the `export-configuration` command */
+  export type ExportConfiguration = {}
+  /** Arguments passed to the `import-configuration` command */
+  export type ImportConfiguration = {}
+  /** Arguments passed to the `usb-watcher` command */
+  export type UsbWatcher = {}
+  /** Arguments passed to the `toggle-usb-watcher` command */
+  export type ToggleUsbWatcher = {}
+  /** Arguments passed to the `scheduled-rules` command */
+  export type ScheduledRules = {}
+  /** Arguments passed to the `scheduled-switching` command */
+  export type ScheduledSwitching = {}
 }
 
@@ -0,0 +1,19 @@
+/**
+ * Raycast command: Step or set monitor brightness (VCP 0x10).
+ */
+
+import { Icon } from "@raycast/api";
+import { VcpControl } from "./components/vcp-control";
+import { VCP_FEATURES } from "./lib/vcp";
+
+const FEATURES = [VCP_FEATURES.brightness];
+
+export default function Command() {
+  return (
+    <VcpControl
+      features={FEATURES}
+      navigationTitle="Monitor Brightness"
+      icon={Icon.Sun}
+    />
+  );
+}
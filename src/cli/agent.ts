@@ -0,0 +1,104 @@
+/**
+ * `monitor-switch agent` and `monitor-switch peer`: the two ends of a peer
+ * handoff (see `../lib/agent` and `../lib/peer`).
+ *
+ *   agent               serve this computer's monitors until stopped
+ *   peer get            current inputs of the peer's monitors
+ *   peer set <input>    switch the peer's monitors
+ *
+ * The agent listens on `agentListen` of the config file ("host:port",
+ * default 127.0.0.1:8765, so only this computer can reach it until it is
+ * set to e.g. 0.0.0.0:8765). `peer` talks to `peerUrl` whatever Peer
+ * Handoff is set to, and doesn't need a DDC/CI tool here.
+ */
+
+import { once } from "node:events";
+import { hostname } from "node:os";
+import { createAgentServer, DEFAULT_AGENT_PORT } from "../lib/agent";
+import { loadProfiles } from "../lib/profiles";
+import {
+  peerFromPreferences,
+  peerReadInputs,
+  peerSwitchInput,
+} from "../lib/peer";
+import { CliCommand, openSession, resultText } from "./session";
+
+const DEFAULT_AGENT_HOST = "127.0.0.1";
+
+/**
+ * Split "host:port", ":port" or "port"; IPv6 hosts go in brackets.
+ */
+function parseListenAddress(text?: string): {
+  host: string;
+  port: number;
+} {
+  const match = text?.trim().match(/^(?:\[?([^\]]*?)\]?:)?(\d+)$/u);
+  if (text?.trim() && !match) {
+    throw new Error(`"${text}" is not a host:port address`);
+  }
+  return {
+    host: match?.[1] || DEFAULT_AGENT_HOST,
+    port: match ? Number(match[2]) : DEFAULT_AGENT_PORT,
+  };
+}
+
+function timestamp(): string {
+  return new Date().toISOString();
+}
+
+export const agent: CliCommand = async (context) => {
+  const { validation, backend } = await openSession();
+  const { host, port } = parseListenAddress(context.config.agentListen);
+  const server = createAgentServer({
+    backend,
+    prefs: {
+      ...validation,
+      monitorId: context.monitor?.trim() || validation.monitorId,
+    },
+    profiles: [...context.config.profiles, ...(await loadProfiles())],
+    token: validation.agentToken ?? "",
+    host: hostname(),
+    log: (line) => console.log(`${timestamp()} ${line}`),
+  });
+  server.listen(port, host);
+  await once(server, "listening");
+  console.log(
+    `${timestamp()} agent for ${backend.title} listening on http://${host.includes(":") ? `[${host}]` : host}:${port}`,
+  );
+
+  const stop = () => server.close();
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+  await once(server, "close");
+  return { status: "success", text: `${timestamp()} agent stopped`, data: {} };
+};
+
+export const peer: CliCommand = async (context, [action, ...args]) => {
+  const target = peerFromPreferences({
+    ...context.config.preferences,
+    peerMode: "always",
+  });
+  if (!target) {
+    throw new Error(`Set "peerUrl" in the config file`);
+  }
+
+  if (action === "get") {
+    const report = await peerReadInputs(target, context.monitor);
+    return {
+      status: report.status,
+      text: [
+        `${report.host} (${report.backend})`,
+        ...report.readings.map(
+          (reading) =>
+            `${reading.monitorId}: ${reading.label ?? `unreadable (${reading.error ?? "no value"})`}`,
+        ),
+      ].join("\n"),
+      data: report,
+    };
+  }
+  if (action !== "set" || args.length === 0) {
+    throw new Error("Usage: monitor-switch peer get | peer set <input>");
+  }
+  const result = await peerSwitchInput(target, args.join(" "), context.monitor);
+  return { status: result.status, text: resultText(result), data: result };
+};
@@ -0,0 +1,247 @@
+/**
+ * Subcommands of the `monitor-switch` CLI.
+ *
+ * Each one mirrors a Raycast command and goes through the same library
+ * functions, then returns a `CliResult` (see `./session`).
+ */
+
+import { readInputSource, switchTargets } from "../lib/ddc";
+import { findMapping, inputLabel, resolveInputTargets } from "../lib/mappings";
+import { loadMonitorMappings } from "../lib/model-mappings";
+import { SupportedPlatform } from "../lib/platform";
+import {
+  describeProfileStep,
+  featureFor,
+  parseProfileSteps,
+  settingCode,
+} from "../lib/profile-steps";
+import { applyProfile, applyProfileStep } from "../lib/profiles";
+import { describePlan, toggleTargets } from "../lib/toggle";
+import { formatVcpValue, readVcp, VCP_INPUT_SOURCE } from "../lib/vcp";
+import { switchPolicyFromPreferences } from "../lib/verify";
+import {
+  CliCommand,
+  fromResults,
+  monitorTargets,
+  openSession,
+  resultText,
+} from "./session";
+import { agent, peer } from "./agent";
+import { rules } from "./rules";
+import { config } from "./share";
+import { usb } from "./usb";
+
+const list: CliCommand = async () => {
+  const { backend } = await openSession();
+  const monitors = await backend.listDisplays();
+  return {
+    status: "success",
+    text:
+      monitors.length === 0
+        ? `No monitors found via ${backend.title}`
+        : monitors
+            .map(
+              (monitor) =>
+                `${monitor.index}  ${monitor.name}  serial: ${monitor.serial ?? "-"}  id: ${monitor.id}`,
+            )
+            .join("\n"),
+    data: { backend: backend.id, monitors },
+  };
+};
+
+const get: CliCommand = async (context, [setting = "input"]) => {
+  const vcpCode = settingCode(setting);
+  if (vcpCode === undefined) {
+    throw new Error(`Unknown setting "${setting}"`);
+  }
+  const session = await openSession();
+  const { backend } = session;
+  const monitorIds = await monitorTargets(session, context);
+
+  let readings: {
+    monitorId: string;
+    value?: number;
+    max?: number;
+    label?: string;
+    error?: string;
+  }[];
+  if (vcpCode === VCP_INPUT_SOURCE) {
+    const { mappings, monitors } = await loadMonitorMappings(backend);
+    readings = await Promise.all(
+      monitorIds.map(async (monitorId) => {
+        const { currentValue, error } = await readInputSource(
+          backend,
+          monitorId,
+        );
+        const mapping = findMapping(mappings, backend.id, monitorId, monitors);
+        return {
+          monitorId,
+          value: currentValue,
+          label:
+            currentValue === undefined
+              ? undefined
+              : inputLabel(currentValue, mapping),
+          error,
+        };
+      }),
+    );
+  } else {
+    const feature = featureFor(vcpCode);
+    readings = await Promise.all(
+      monitorIds.map(async (monitorId) => {
+        const { current, max, error } = await readVcp(
+          backend,
+          monitorId,
+          feature,
+        );
+        return {
+          monitorId,
+          value: current,
+          max,
+          label:
+            current === undefined
+              ? undefined
+              : formatVcpValue(feature, current, max),
+          error,
+        };
+      }),
+    );
+  }
+
+  const failed = readings.filter(
+    (reading) => reading.value === undefined,
+  ).length;
+  return {
+    status:
+      failed === 0
+        ? "success"
+        : failed === readings.length
+          ? "failure"
+          : "soft-fail",
+    text: readings
+      .map(
+        (reading) =>
+          `${reading.monitorId}: ${reading.label ?? `error: ${reading.error}`}`,
+      )
+      .join("\n"),
+    data: readings,
+  };
+};
+
+const set: CliCommand = async (context, args) => {
+  if (args.length === 0 || args.length > 2) {
+    throw new Error(
+      "Usage: monitor-switch set <input> | set <setting> <value>",
+    );
+  }
+  const session = await openSession();
+  const { validation, backend } = session;
+  const policy = switchPolicyFromPreferences(validation);
+  const selector = context.monitor?.trim() || validation.monitorId || "Primary";
+
+  if (args.length === 2) {
+    const [step] = parseProfileSteps(`${args[0]} = ${args[1]} @ ${selector}`);
+    return fromResults(
+      [await applyProfileStep(backend, step, policy)],
+      [describeProfileStep(step)],
+    );
+  }
+  const monitorIds = await monitorTargets(session, context);
+  const targets = resolveInputTargets(
+    backend.id,
+    args[0],
+    monitorIds,
+    await loadMonitorMappings(backend),
+  );
+  return fromResults(
+    await switchTargets(
+      backend,
+      [...targets].map(([inputValue, ids]) => ({
+        inputValue,
+        monitorIds: ids,
+      })),
+      policy,
+    ),
+  );
+};
+
+const toggle: CliCommand = async (context) => {
+  const session = await openSession();
+  const { validation, backend } = session;
+  const { setup, plans, results } = await toggleTargets(
+    backend,
+    validation,
+    validation.os as SupportedPlatform,
+    await monitorTargets(session, context),
+  );
+  return fromResults(
+    results,
+    plans.map((plan) => describePlan(plan, setup.mappings)),
+  );
+};
+
+const profile: CliCommand = async (context, [action, ...names]) => {
+  const { profiles } = context.config;
+  if (action === "list") {
+    return {
+      status: "success",
+      text:
+        profiles.length === 0
+          ? "No profiles in the config file"
+          : profiles
+              .map((entry) =>
+                [
+                  entry.name,
+                  ...entry.steps.map(
+                    (step) => `  ${describeProfileStep(step)}`,
+                  ),
+                ].join("\n"),
+              )
+              .join("\n"),
+      data: profiles,
+    };
+  }
+  if (action !== "apply" || names.length === 0) {
+    throw new Error(
+      "Usage: monitor-switch profile list | profile apply <name>",
+    );
+  }
+  const name = names.join(" ");
+  const selected = profiles.find(
+    (entry) => entry.name.toLowerCase() === name.toLowerCase(),
+  );
+  if (!selected) {
+    throw new Error(
+      `No profile named "${name}" (known: ${profiles.map((entry) => entry.name).join(", ") || "none"})`,
+    );
+  }
+  const { validation, backend } = await openSession();
+  const { summary, steps } = await applyProfile(
+    backend,
+    selected,
+    switchPolicyFromPreferences(validation),
+  );
+  return {
+    status: summary.status,
+    text: [
+      resultText(summary),
+      ...steps.map(
+        ({ step, result }) => `  ${describeProfileStep(step)}: ${result.title}`,
+      ),
+    ].join("\n"),
+    data: { summary, steps },
+  };
+};
+
+export const CLI_COMMANDS: Record<string, CliCommand> = {
+  list,
+  get,
+  set,
+  toggle,
+  profile,
+  usb,
+  rules,
+  agent,
+  peer,
+  config,
+};
@@ -0,0 +1,247 @@
+/**
+ * CLI configuration file.
+ *
+ * Holds the extension's preferences under their manifest names, plus desk
+ * profiles and scheduled rules, as JSON or YAML:
+ *
+ *   ddcBackend: ddcutil
+ *   monitorId: all
+ *   inputCycle: DP-1, HDMI-1
+ *   profiles:
+ *     work:
+ *       - input = DP-1 @ all
+ *       - brightness = 70 @ 1
+ *   rules:
+ *     morning:
+ *       schedule: 0 9 * * mon-fri
+ *       action: "profile: work"
+ *       onlyIfInput: HDMI-1
+ *
+ * The file is `--config`, else `$MONITOR_SWITCH_CONFIG`, else the first of
+ * `config.yaml`, `config.yml` and `config.json` in the config directory.
+ * Missing settings take the extension's defaults.
+ */
+
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { homedir, platform } from "node:os";
+import { extname, join } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { parseSwitchAction } from "../lib/actions";
+import {
+  DEFAULT_PREFERENCES,
+  Preferences,
+  RENAMED_PREFERENCES,
+} from "../lib/extension";
+import { parseProfileSteps } from "../lib/profile-steps";
+import { DeskProfile } from "../lib/profiles";
+import { ruleTiming, ScheduleRule } from "../lib/rules";
+
+const CONFIG_FILE_NAMES = ["config.yaml", "config.yml", "config.json"];
+
+export interface CliConfig {
+  /** File the settings came from; undefined when none was found */
+  path?: string;
+  preferences: Preferences;
+  profiles: DeskProfile[];
+  rules: ScheduleRule[];
+  /** JSON file standing in for Raycast LocalStorage */
+  storagePath: string;
+  /** Address `monitor-switch agent` listens on, "host:port" */
+  agentListen?: string;
+}
+
+/**
+ * `monitor-switch` folder of the platform's per-user config location.
+ */
+export function configDirectory(): string {
+  if (platform() === "win32") {
+    return join(
+      process.env.APPDATA ?? join(homedir(), "AppData", "Roaming"),
+      "monitor-switch",
+    );
+  }
+  return join(
+    process.env.XDG_CONFIG_HOME || join(homedir(), ".config"),
+    "monitor-switch",
+  );
+}
+
+/**
+ * Path of the config file to read, if any. An explicit path must exist.
+ */
+export function findConfigFile(explicit?: string): string | undefined {
+  const requested = explicit ?? process.env.MONITOR_SWITCH_CONFIG;
+  if (requested) {
+    if (!existsSync(requested)) {
+      throw new Error(`Config file not found: ${requested}`);
+    }
+    return requested;
+  }
+  return CONFIG_FILE_NAMES.map((name) => join(configDirectory(), name)).find(
+    (path) => existsSync(path),
+  );
+}
+
+function preferenceValue(
+  key: keyof Preferences,
+  value: unknown,
+): string | boolean {
+  const expected = typeof DEFAULT_PREFERENCES[key];
+  if (expected === "boolean" && typeof value === "boolean") {
+    return value;
+  }
+  if (expected === "string" && ["string", "number"].includes(typeof value)) {
+    return String(value);
+  }
+  throw new Error(`"${key}" must be a ${expected}`);
+}
+
+function parseProfiles(value: unknown): DeskProfile[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`"profiles" must map profile names to their steps`);
+  }
+  return Object.entries(value).map(([name, steps]) => {
+    const lines = Array.isArray(steps) ? steps.map(String) : [String(steps)];
+    try {
+      return {
+        id: name,
+        name,
+        steps: parseProfileSteps(lines.join("\n")),
+        updatedAt: "",
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Profile "${name}": ${reason}`, { cause: error });
+    }
+  });
+}
+
+/** Settings of a rule, and whether each is a string or a boolean */
+const RULE_FIELDS: Record<string, "string" | "boolean"> = {
+  schedule: "string",
+  weekdays: "string",
+  action: "string",
+  monitor: "string",
+  onlyIfInput: "string",
+  wake: "boolean",
+  enabled: "boolean",
+};
+
+function ruleFieldValue(key: string, value: unknown): string | boolean {
+  const expected = RULE_FIELDS[key];
+  if (expected === "string") {
+    return String(value);
+  }
+  if (expected === "boolean" && typeof value === "boolean") {
+    return value;
+  }
+  throw new Error(
+    expected ? `"${key}" must be a boolean` : `unknown setting "${key}"`,
+  );
+}
+
+function parseRule(name: string, value: unknown): ScheduleRule {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error("must be a mapping of rule settings");
+  }
+  const fields: Record<string, string | boolean> = {};
+  for (const [key, field] of Object.entries(value)) {
+    fields[key] = ruleFieldValue(key, field);
+  }
+  const action = parseSwitchAction(fields.action as string | undefined);
+  if (!action) {
+    throw new Error(`"action" is required`);
+  }
+  const rule: ScheduleRule = {
+    id: name,
+    name,
+    enabled: fields.enabled !== false,
+    schedule: String(fields.schedule ?? ""),
+    weekdays: fields.weekdays as string | undefined,
+    action,
+    monitor: fields.monitor as string | undefined,
+    onlyIfInput: fields.onlyIfInput as string | undefined,
+    wake: fields.wake !== false,
+    updatedAt: "",
+  };
+  ruleTiming(rule);
+  return rule;
+}
+
+function parseRules(value: unknown): ScheduleRule[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new Error(`"rules" must map rule names to their settings`);
+  }
+  return Object.entries(value).map(([name, rule]) => {
+    try {
+      return parseRule(name, rule);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Rule "${name}": ${reason}`, { cause: error });
+    }
+  });
+}
+
+/**
+ * Turn the parsed document into a config. Throws on unknown settings and
+ * values of the wrong type, so typos don't silently fall back to defaults.
+ */
+export function parseConfigDocument(
+  document: unknown,
+): Omit<CliConfig, "path"> {
+  if (typeof document !== "object" || document === null) {
+    throw new Error("The config must be a mapping of settings");
+  }
+  const preferences: Record<string, string | boolean> = {
+    ...DEFAULT_PREFERENCES,
+  };
+  let profiles: DeskProfile[] = [];
+  let rules: ScheduleRule[] = [];
+  let storagePath = join(configDirectory(), "storage.json");
+  let agentListen: string | undefined;
+  for (const [name, value] of Object.entries(document)) {
+    const key = RENAMED_PREFERENCES[name] ?? name;
+    if (key === "profiles") {
+      profiles = parseProfiles(value);
+    } else if (key === "rules") {
+      rules = parseRules(value);
+    } else if (key === "storage") {
+      storagePath = String(value);
+    } else if (key === "agentListen") {
+      agentListen = String(value);
+    } else if (Object.hasOwn(DEFAULT_PREFERENCES, key)) {
+      preferences[key] = preferenceValue(key as keyof Preferences, value);
+    } else {
+      throw new Error(`Unknown setting "${key}"`);
+    }
+  }
+  return {
+    preferences: preferences as unknown as Preferences,
+    profiles,
+    rules,
+    storagePath,
+    agentListen,
+  };
+}
+
+/**
+ * Find, read and parse the config; defaults when there is no config file.
+ */
+export async function loadCliConfig(explicit?: string): Promise<CliConfig> {
+  const path = findConfigFile(explicit);
+  if (!path) {
+    return parseConfigDocument({});
+  }
+  const text = await readFile(path, "utf-8");
+  try {
+    const document =
+      extname(path).toLowerCase() === ".json"
+        ? (JSON.parse(text) as unknown)
+        : (parseYaml(text) as unknown);
+    return { path, ...parseConfigDocument(document ?? {}) };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${path}: ${reason}`, { cause: error });
+  }
+}
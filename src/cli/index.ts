@@ -0,0 +1,122 @@
+/**
+ * `monitor-switch`: the extension's monitor control as a standalone CLI,
+ * for keyboard daemons, cron jobs and window managers.
+ *
+ *   monitor-switch list
+ *   monitor-switch get [setting]
+ *   monitor-switch set <input> | set <setting> <value>
+ *   monitor-switch toggle
+ *   monitor-switch profile list | profile apply <name>
+ *   monitor-switch usb list | usb watch
+ *   monitor-switch rules list | preview | dry-run | run | log
+ *   monitor-switch agent | peer get | peer set <input>
+ *   monitor-switch config export | check | import
+ *
+ * Settings come from a config file (see `./config`) instead of Raycast
+ * preferences. Exit codes: 0 when the command succeeded (including soft
+ * failures such as a monitor that stopped answering after switching away),
+ * 1 when it failed, 2 on invalid usage.
+ */
+
+import { parseArgs } from "node:util";
+import { errorMessageOf } from "../lib/backends/types";
+import { CLI_COMMANDS } from "./commands";
+import { loadCliConfig } from "./config";
+import { configureShim } from "./raycast-shim";
+
+const USAGE = `Usage: monitor-switch <command> [options]
+
+Commands:
+  list                         List the monitors the backend can see
+  get [setting]                Read a setting (default: input)
+  set <input>                  Switch to an input (learned name, HDMI-1, 0x11, 17)
+  set <setting> <value>        Set brightness, contrast, volume, mute, power or a VCP code
+  toggle                       Switch to the next input of the cycle
+  profile list                 List the profiles of the config file
+  profile apply <name>         Apply a profile
+  usb list                     List the connected USB devices
+  usb watch                    Switch when the watched USB device connects or disconnects (runs until stopped)
+  rules list                   List the scheduled rules of the config file and their next run
+  rules preview [days]         Show the upcoming scheduled switches (default: 7 days)
+  rules dry-run [name]         Show what the rules would do if they fired now
+  rules run                    Run the rules due since the last run (start it every minute)
+  rules log                    Show the decision log of the rules
+  agent                        Serve this computer's monitors to peers over HTTP (runs until stopped)
+  peer get                     Read the inputs of the peer's monitors
+  peer set <input>             Switch the peer's monitors (input or "profile: <name>")
+  config export [file]         Export settings, learned inputs and profiles as a shareable JSON document
+  config check <file>          Check a shared document (or a flat config file) and show it as it would be imported
+  config import <file>         Import a shared document ("-" reads standard input)
+
+Options:
+  -c, --config <file>          Config file (JSON or YAML)
+  -m, --monitor <selector>     Monitors to target: Primary, all, or a list of numbers, serials, names or IDs
+      --json                   Print JSON
+  -h, --help                   Show this help`;
+
+async function main(argv: string[]): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        config: { type: "string", short: "c" },
+        monitor: { type: "string", short: "m" },
+        json: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    console.error(`${errorMessageOf(error)}\n\n${USAGE}`);
+    return 2;
+  }
+  const { values, positionals } = parsed;
+  const [name, ...args] = positionals;
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  const command = name === undefined ? undefined : CLI_COMMANDS[name];
+  if (!command) {
+    console.error(
+      name === undefined ? USAGE : `Unknown command "${name}"\n\n${USAGE}`,
+    );
+    return 2;
+  }
+
+  try {
+    const config = await loadCliConfig(values.config);
+    configureShim({
+      preferences: config.preferences,
+      storagePath: config.storagePath,
+    });
+    const result = await command({ config, monitor: values.monitor }, args);
+    if (values.json) {
+      console.log(
+        JSON.stringify({ status: result.status, result: result.data }, null, 2),
+      );
+    } else {
+      console.log(result.text);
+    }
+    return result.status === "failure" ? 1 : 0;
+  } catch (error) {
+    if (values.json) {
+      console.log(
+        JSON.stringify(
+          { status: "failure", error: errorMessageOf(error) },
+          null,
+          2,
+        ),
+      );
+    } else {
+      console.error(errorMessageOf(error));
+    }
+    return 1;
+  }
+}
+
+// The bundle is CommonJS, where top-level await isn't available
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
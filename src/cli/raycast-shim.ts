@@ -0,0 +1,103 @@
+/**
+ * Stand-in for the parts of `@raycast/api` that `../lib` uses, so the CLI
+ * runs the extension's code paths outside Raycast. The CLI bundle aliases
+ * `@raycast/api` to this module (see the `build:cli` script):
+ *
+ * - `getPreferenceValues` returns the settings read from the config file
+ * - `LocalStorage` is a JSON file (learned inputs, history, ...)
+ * - `environment.assetsPath` is the `assets` folder next to the bundle
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+type StoredValue = string | number | boolean;
+
+let preferenceValues: object = {};
+let storagePath = "";
+
+/**
+ * Set the preferences and storage file; called once by the CLI at start-up.
+ * Tests, which don't run from the bundle, also point at the assets.
+ */
+export function configureShim(options: {
+  preferences: object;
+  storagePath: string;
+  assetsPath?: string;
+}): void {
+  preferenceValues = options.preferences;
+  storagePath = options.storagePath;
+  if (options.assetsPath) {
+    environment.assetsPath = options.assetsPath;
+  }
+}
+
+export function getPreferenceValues<T>(): T {
+  return preferenceValues as T;
+}
+
+export const environment = {
+  // The bundle is bin/monitor-switch.js
+  assetsPath: join(__dirname, "..", "assets"),
+};
+
+async function readStore(): Promise<Record<string, StoredValue>> {
+  try {
+    return JSON.parse(await readFile(storagePath, "utf-8")) as Record<
+      string,
+      StoredValue
+    >;
+  } catch {
+    return {};
+  }
+}
+
+// Operations are chained so a read-modify-write never interleaves another
+let pending: Promise<unknown> = Promise.resolve();
+
+function queued<T>(operation: () => Promise<T>): Promise<T> {
+  const next = pending.then(operation);
+  pending = next.catch(() => null);
+  return next;
+}
+
+async function updateStore(
+  change: (values: Record<string, StoredValue>) => void,
+): Promise<void> {
+  const values = await readStore();
+  change(values);
+  await mkdir(dirname(storagePath), { recursive: true });
+  await writeFile(storagePath, JSON.stringify(values, null, 2), "utf-8");
+}
+
+export const LocalStorage = {
+  getItem<T extends StoredValue>(key: string): Promise<T | undefined> {
+    return queued(async () => (await readStore())[key] as T | undefined);
+  },
+  allItems(): Promise<Record<string, StoredValue>> {
+    return queued(readStore);
+  },
+  setItem(key: string, value: StoredValue): Promise<void> {
+    return queued(() =>
+      updateStore((values) => {
+        values[key] = value;
+      }),
+    );
+  },
+  removeItem(key: string): Promise<void> {
+    return queued(() =>
+      updateStore((values) => {
+        delete values[key];
+      }),
+    );
+  },
+  clear(): Promise<void> {
+    return queued(() =>
+      updateStore((values) => {
+        for (const key of Object.keys(values)) {
+          delete values[key];
+        }
+      }),
+    );
+  },
+};
@@ -0,0 +1,152 @@
+/**
+ * `monitor-switch rules`: the scheduled rules of the config file.
+ *
+ *   rules list               the rules and their next run
+ *   rules preview [days]     upcoming switches (default: the next 7 days)
+ *   rules dry-run [name]     what the enabled (or named) rules would do now
+ *   rules run                run the rules due since the last `rules run`
+ *   rules log                the decision log
+ *
+ * `rules run` is meant to be started every minute, by cron or a systemd
+ * timer; like the Raycast background command, it remembers when it last ran
+ * (in the storage file) so each firing is handled once.
+ */
+
+import { formatSwitchAction } from "../lib/actions";
+import { loadProfiles } from "../lib/profiles";
+import { DECISION_TITLES, loadRuleLog, NewRuleLogEntry } from "../lib/rule-log";
+import { dryRunRule, RuleContext, runDueRules } from "../lib/rule-runner";
+import { nextRuleFiring, ScheduleRule, upcomingFirings } from "../lib/rules";
+import { CliCommand, CliContext, openSession, overallStatus } from "./session";
+
+const USAGE =
+  "Usage: monitor-switch rules list | preview [days] | dry-run [name] | run | log";
+
+const DEFAULT_PREVIEW_DAYS = 7;
+
+function describeRuleLine(rule: ScheduleRule): string {
+  return [
+    `${rule.schedule}${rule.weekdays ? ` on ${rule.weekdays}` : ""}`,
+    formatSwitchAction(rule.action),
+    rule.onlyIfInput ? `only if on ${rule.onlyIfInput}` : "",
+    rule.wake ? "wake first" : "",
+    rule.monitor ? `@ ${rule.monitor}` : "",
+  ]
+    .filter(Boolean)
+    .join(", ");
+}
+
+function decisionLine(decision: NewRuleLogEntry): string {
+  return [
+    `${decision.scheduledFor} ${decision.ruleName}: ${DECISION_TITLES[decision.decision]} - ${decision.title}`,
+    decision.message ? `  ${decision.message}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+async function ruleContext(context: CliContext): Promise<RuleContext> {
+  const { validation, backend } = await openSession();
+  return {
+    backend,
+    prefs: {
+      ...validation,
+      monitorId: context.monitor?.trim() || validation.monitorId,
+    },
+    // Profiles of the config file, then any saved through the storage file
+    profiles: [...context.config.profiles, ...(await loadProfiles())],
+  };
+}
+
+export const rules: CliCommand = async (context, [action, ...args]) => {
+  const configured = context.config.rules;
+  if (action === "log") {
+    const log = await loadRuleLog();
+    return {
+      status: "success",
+      text:
+        log.length === 0
+          ? "No decisions logged yet"
+          : log.map((entry) => decisionLine(entry)).join("\n"),
+      data: log,
+    };
+  }
+  if (configured.length === 0) {
+    throw new Error(`No rules in the config file (see "rules")`);
+  }
+
+  if (action === "list") {
+    const now = new Date();
+    return {
+      status: "success",
+      text: configured
+        .map((rule) => {
+          const next = rule.enabled ? nextRuleFiring(rule, now) : undefined;
+          const status = rule.enabled ? "never runs" : "disabled";
+          return `${rule.name}  ${describeRuleLine(rule)}\n  next: ${next?.toLocaleString() ?? status}`;
+        })
+        .join("\n"),
+      data: configured.map((rule) => ({
+        ...rule,
+        next: nextRuleFiring(rule, now)?.toISOString(),
+      })),
+    };
+  }
+  if (action === "preview") {
+    const days = Number(args[0] ?? DEFAULT_PREVIEW_DAYS);
+    if (!(days > 0)) {
+      throw new Error(USAGE);
+    }
+    const now = new Date();
+    const firings = upcomingFirings(
+      configured,
+      now,
+      new Date(now.getTime() + days * 24 * 60 * 60 * 1000),
+    );
+    return {
+      status: "success",
+      text:
+        firings.length === 0
+          ? `Nothing scheduled in the next ${days} days`
+          : firings
+              .map(
+                ({ rule, at }) =>
+                  `${at.toLocaleString()}  ${rule.name}: ${describeRuleLine(rule)}`,
+              )
+              .join("\n"),
+      data: firings.map(({ rule, at }) => ({
+        at: at.toISOString(),
+        rule: rule.name,
+        action: formatSwitchAction(rule.action),
+      })),
+    };
+  }
+
+  let decisions: NewRuleLogEntry[];
+  if (action === "run") {
+    decisions = await runDueRules(configured, await ruleContext(context));
+  } else if (action === "dry-run") {
+    const name = args.join(" ").toLowerCase();
+    const selected = configured.filter((rule) =>
+      name === "" ? rule.enabled : rule.name.toLowerCase() === name,
+    );
+    if (selected.length === 0) {
+      throw new Error(`No rule named "${args.join(" ")}"`);
+    }
+    const ruleRunContext = await ruleContext(context);
+    decisions = [];
+    for (const rule of selected) {
+      decisions.push(await dryRunRule(rule, ruleRunContext));
+    }
+  } else {
+    throw new Error(USAGE);
+  }
+  return {
+    status: overallStatus(decisions),
+    text:
+      decisions.length === 0
+        ? "No rules due"
+        : decisions.map((decision) => decisionLine(decision)).join("\n"),
+    data: decisions,
+  };
+};
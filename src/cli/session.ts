@@ -0,0 +1,86 @@
+/**
+ * What every CLI subcommand shares: the validated settings and backend, and
+ * the result they hand back to `./index` to print as text or, with
+ * `--json`, as JSON.
+ */
+
+import {
+  PrerequisiteValidation,
+  resolveBackend,
+  validatePrerequisites,
+} from "../common";
+import { DdcBackend } from "../lib/backends";
+import { resolveMonitorTargets } from "../lib/monitors";
+import { ToastResult } from "../lib/toast";
+import { CliConfig } from "./config";
+
+export interface CliContext {
+  config: CliConfig;
+  /** `--monitor` selector; the Monitor(s) setting when absent */
+  monitor?: string;
+}
+
+export interface CliResult {
+  status: ToastResult["status"];
+  /** Printed without `--json` */
+  text: string;
+  /** Printed with `--json` */
+  data: unknown;
+}
+
+export type CliCommand = (
+  context: CliContext,
+  args: string[],
+) => Promise<CliResult>;
+
+export interface Session {
+  validation: PrerequisiteValidation;
+  backend: DdcBackend;
+}
+
+/**
+ * Validate the settings and create the backend, as the Raycast commands do.
+ */
+export async function openSession(): Promise<Session> {
+  const validation = (await validatePrerequisites()) as PrerequisiteValidation;
+  if (validation.status === "failure") {
+    throw new Error(
+      [validation.title, validation.message].filter(Boolean).join(": "),
+    );
+  }
+  return { validation, backend: resolveBackend(validation) };
+}
+
+export function monitorTargets(
+  { validation, backend }: Session,
+  context: CliContext,
+): Promise<string[]> {
+  return resolveMonitorTargets(
+    backend,
+    context.monitor?.trim() || validation.monitorId || "Primary",
+  );
+}
+
+/** Worst status of several results */
+export function overallStatus(results: ToastResult[]): ToastResult["status"] {
+  const statuses = results.map((result) => result.status);
+  if (statuses.includes("failure")) {
+    return "failure";
+  }
+  return statuses.includes("soft-fail") ? "soft-fail" : "success";
+}
+
+export function resultText(result: ToastResult): string {
+  return [result.title, result.message].filter(Boolean).join("\n  ");
+}
+
+export function fromResults(
+  results: ToastResult[],
+  lead: string[] = [],
+): CliResult {
+  return {
+    status: overallStatus(results),
+    text: [...lead, ...results.map((result) => resultText(result))].join("\n"),
+    data: results,
+  };
+}
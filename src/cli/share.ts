@@ -0,0 +1,107 @@
+/**
+ * `monitor-switch config`: the shareable configuration (see
+ * `../lib/shared-config`).
+ *
+ *   config export [file]     this setup as a versioned JSON document
+ *   config check <file>      problems of a document, or the document as it
+ *                            would be imported (flat preferences migrated)
+ *   config import <file>     import a document into the storage file
+ *
+ * `-` reads standard input. YAML files are read too, so a CLI config file
+ * can be checked or imported as it is.
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { extname } from "node:path";
+import { parse as parseYaml } from "yaml";
+import { formatConfigIssues } from "../lib/config-schema";
+import { loadProfiles } from "../lib/profiles";
+import {
+  exportSharedConfig,
+  importSharedConfig,
+  loadEffectivePreferences,
+  parseSharedConfig,
+  readSharedConfig,
+  SharedConfigReading,
+} from "../lib/shared-config";
+import { CliCommand, CliResult } from "./session";
+
+const USAGE =
+  "Usage: monitor-switch config export [file] | check <file> | import <file>";
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+async function readDocument(path: string): Promise<SharedConfigReading> {
+  const text = path === "-" ? await readStdin() : await readFile(path, "utf-8");
+  if ([".yaml", ".yml"].includes(extname(path).toLowerCase())) {
+    return readSharedConfig(parseYaml(text) as unknown);
+  }
+  return parseSharedConfig(text);
+}
+
+function problems(path: string, reading: SharedConfigReading): CliResult {
+  return {
+    status: "failure",
+    text: `${path}: ${reading.issues.length} problem${reading.issues.length === 1 ? "" : "s"}\n${formatConfigIssues(reading.issues)}`,
+    data: { issues: reading.issues },
+  };
+}
+
+export const config: CliCommand = async (context, [action, path]) => {
+  if (action === "export") {
+    const { text, issues } = await exportSharedConfig(
+      await loadEffectivePreferences(),
+      [...context.config.profiles, ...(await loadProfiles())],
+    );
+    if (path) {
+      await writeFile(path, `${text}\n`, "utf-8");
+    }
+    return {
+      status: issues.length === 0 ? "success" : "soft-fail",
+      text: [
+        path ? `Wrote ${path}` : text,
+        ...issues.map((issue) => `warning: ${issue.path}: ${issue.message}`),
+      ].join("\n"),
+      data: { document: JSON.parse(text) as unknown, issues },
+    };
+  }
+  if ((action !== "check" && action !== "import") || !path) {
+    throw new Error(USAGE);
+  }
+
+  const reading = await readDocument(path);
+  if (!reading.config) {
+    return problems(path, reading);
+  }
+  const dropped =
+    reading.dropped.length > 0
+      ? [
+          `Left out (not part of a shared configuration): ${reading.dropped.join(", ")}`,
+        ]
+      : [];
+  if (action === "check") {
+    return {
+      status: "success",
+      text: [JSON.stringify(reading.config, null, 2), ...dropped].join("\n"),
+      data: reading,
+    };
+  }
+  const summary = await importSharedConfig(reading.config);
+  return {
+    status: "success",
+    text: [
+      `Imported ${path}`,
+      `  settings: ${summary.settings.join(", ") || "none"}`,
+      `  input mappings: ${summary.mappings.added} new, ${summary.mappings.replaced} replaced`,
+      `  profiles: ${summary.profiles.added} new, ${summary.profiles.replaced} replaced`,
+      ...dropped,
+    ].join("\n"),
+    data: summary,
+  };
+};
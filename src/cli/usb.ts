@@ -0,0 +1,102 @@
+/**
+ * `monitor-switch usb`: list USB devices, or run the USB watcher in the
+ * foreground (see `../lib/usb-watcher`).
+ *
+ * Raycast can only wake its watcher every 10 seconds, and doesn't run on
+ * Linux at all; `usb watch` polls every second until stopped, for a systemd
+ * user service or a login item.
+ */
+
+import { setTimeout } from "node:timers/promises";
+import { describeSwitchAction, runSwitchAction } from "../lib/actions";
+import { errorMessageOf } from "../lib/backends/types";
+import { SupportedPlatform } from "../lib/platform";
+import { formatUsbDeviceId, listUsbDevices } from "../lib/usb";
+import {
+  actionFor,
+  pollUsbWatcher,
+  usbWatcherFromPreferences,
+  UsbWatcherState,
+  WatcherStep,
+} from "../lib/usb-watcher";
+import { CliCommand, openSession, resultText } from "./session";
+
+const WATCH_POLL_INTERVAL_MS = 1000;
+
+function timestamp(): string {
+  return new Date().toISOString();
+}
+
+export const usb: CliCommand = async (context, [action]) => {
+  const { validation, backend } = await openSession();
+  const os = validation.os as SupportedPlatform;
+  const config = usbWatcherFromPreferences(validation);
+
+  if (action === "list") {
+    const devices = await listUsbDevices(os, config.sysfsRoot);
+    return {
+      status: "success",
+      text:
+        devices.length === 0
+          ? "No USB devices found"
+          : devices
+              .map(
+                (device) =>
+                  `${formatUsbDeviceId(device)}  ${device.name ?? "-"}${device.serial ? `  serial: ${device.serial}` : ""}`,
+              )
+              .join("\n"),
+      data: devices.map((device) => ({
+        id: formatUsbDeviceId(device),
+        ...device,
+      })),
+    };
+  }
+  if (action !== "watch") {
+    throw new Error("Usage: monitor-switch usb list | usb watch");
+  }
+  if (config.devices.length === 0) {
+    throw new Error(`Set "usbWatchDevices" in the config file`);
+  }
+
+  const watched = config.devices.map(formatUsbDeviceId).join(", ");
+  console.log(`${timestamp()} watching ${watched}`);
+  let state: UsbWatcherState = { enabled: true };
+  for (;;) {
+    let step: WatcherStep;
+    try {
+      step = await pollUsbWatcher(config, os, state);
+    } catch (error) {
+      console.error(`${timestamp()} ${errorMessageOf(error)}`);
+      step = { state };
+    }
+    state = step.state;
+    const event = step.event;
+    const watcherAction = event && actionFor(config, event);
+    if (event) {
+      console.log(
+        `${timestamp()} ${watched} ${event === "connect" ? "connected" : "disconnected"}`,
+      );
+    }
+    if (watcherAction) {
+      try {
+        const result = await runSwitchAction(
+          watcherAction,
+          backend,
+          {
+            ...validation,
+            monitorId: context.monitor?.trim() || validation.monitorId,
+          },
+          context.config.profiles,
+        );
+        console.log(
+          `${timestamp()} ${describeSwitchAction(watcherAction)}: ${resultText(result)}`,
+        );
+      } catch (error) {
+        console.error(
+          `${timestamp()} ${describeSwitchAction(watcherAction)}: ${errorMessageOf(error)}`,
+        );
+      }
+    }
+    await setTimeout(Math.min(step.waitMs ?? Infinity, WATCH_POLL_INTERVAL_MS));
+  }
+};
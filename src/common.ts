@@ -1,18 +1,34 @@
+import { createBackend, DdcBackend } from "./lib/backends";
 import { PreferenceValidation, validatePreferences } from "./lib/extension";
-import { PlatformValidation, validateHostPlatform } from "./lib/platform";
+import { loadEffectivePreferences } from "./lib/shared-config";
+import {
+  PlatformValidation,
+  SupportedPlatform,
+  validateHostPlatform,
+} from "./lib/platform";
 
 export type PrerequisiteValidation = PlatformValidation & PreferenceValidation;
 
-export function validatePrerequisites():
-  | PrerequisiteValidation
-  | PlatformValidation {
+export async function validatePrerequisites(): Promise<
+  PrerequisiteValidation | PlatformValidation
+> {
   // Validate prerequisites first
-  const platformValidation = validateHostPlatform();
+  const platformValidation = await validateHostPlatform();
   if (platformValidation.status !== "failure") {
     return {
       ...platformValidation,
-      ...validatePreferences(platformValidation),
+      ...validatePreferences(
+        platformValidation,
+        await loadEffectivePreferences(),
+      ),
     };
   }
   return platformValidation;
 }
+
+/**
+ * Instantiate the DDC/CI backend selected by the validated preferences.
+ */
+export function resolveBackend(validation: PrerequisiteValidation): DdcBackend {
+  return createBackend(validation.os as SupportedPlatform, validation);
+}
@@ -0,0 +1,136 @@
+/**
+ * Review of a configuration read for import (see `../lib/shared-config`):
+ * every problem with its path, or what importing it will change.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  Icon,
+  popToRoot,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { configPreferences } from "../lib/config-migration";
+import { formatConfigIssues, SharedConfig } from "../lib/config-schema";
+import { Preferences } from "../lib/extension";
+import { formatInput } from "../lib/mccs";
+import { importSharedConfig, SharedConfigReading } from "../lib/shared-config";
+
+/** Titles of the preferences an import can stand in for */
+const PREFERENCE_TITLES: Partial<Record<keyof Preferences, string>> = {
+  ddcBackend: "DDC/CI Backend",
+  m1ddcPath: "m1ddc Path",
+  controlMyMonitorPath: "ControlMyMonitor Path",
+  ddcutilPath: "ddcutil Path",
+  monitorId: "Monitor(s)",
+  displayPortValue: "DisplayPort Input Code",
+  hdmiValue: "HDMI Input Code",
+  inputCycle: "Input Cycle",
+};
+
+function reviewMarkdown(config: SharedConfig, dropped: string[]): string {
+  const settings = Object.entries(configPreferences(config)).map(
+    ([key, value]) =>
+      `- **${PREFERENCE_TITLES[key as keyof Preferences] ?? key}**: \`${value}\``,
+  );
+  const mappings = (config.inputMappings ?? []).map(
+    (mapping) =>
+      `- **${mapping.monitorName ?? mapping.monitorId}** (${mapping.backend}): ${mapping.inputs
+        .map((input) => `${input.name} = ${formatInput(input.value)}`)
+        .join(", ")}`,
+  );
+  const profiles = (config.profiles ?? []).map(
+    (profile) => `- **${profile.name}**: ${profile.steps.join("; ")}`,
+  );
+  return [
+    "# Import Configuration",
+    "",
+    settings.length > 0
+      ? "## Settings\n\nUsed wherever your preference is still at its default.\n\n" +
+        settings.join("\n")
+      : "",
+    mappings.length > 0
+      ? `## Input Mappings\n\nReplacing those of the same monitor.\n\n${mappings.join("\n")}`
+      : "",
+    profiles.length > 0
+      ? `## Desk Profiles\n\nReplacing those of the same name.\n\n${profiles.join("\n")}`
+      : "",
+    dropped.length > 0
+      ? `## Left Out\n\nNot part of a shared configuration: ${dropped.map((name) => `\`${name}\``).join(", ")}`
+      : "",
+    settings.length + mappings.length + profiles.length === 0
+      ? "The configuration is valid but empty: there is nothing to import."
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function ConfigReview({
+  reading,
+  source,
+}: {
+  reading: SharedConfigReading;
+  /** Where the configuration came from, for the title */
+  source: string;
+}) {
+  const { config, issues } = reading;
+  if (!config) {
+    return (
+      <Detail
+        navigationTitle={`Can't Import ${source}`}
+        markdown={[
+          `# Can't Import`,
+          "",
+          `${issues.length} problem${issues.length === 1 ? "" : "s"} in ${source}:`,
+          "",
+          ...issues.map((issue) => `- \`${issue.path}\`: ${issue.message}`),
+        ].join("\n")}
+        actions={
+          <ActionPanel>
+            <Action.CopyToClipboard
+              title="Copy Problems"
+              content={formatConfigIssues(issues)}
+            />
+          </ActionPanel>
+        }
+      />
+    );
+  }
+
+  const runImport = async () => {
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Importing configuration",
+    });
+    try {
+      const summary = await importSharedConfig(config);
+      toast.style = Toast.Style.Success;
+      toast.title = "Imported configuration";
+      toast.message = [
+        `${summary.settings.length} settings`,
+        `${summary.mappings.added} new and ${summary.mappings.replaced} replaced mappings`,
+        `${summary.profiles.added} new and ${summary.profiles.replaced} replaced profiles`,
+      ].join(", ");
+      await popToRoot();
+    } catch (error) {
+      toast.style = Toast.Style.Failure;
+      toast.title = "Import failed";
+      toast.message = error instanceof Error ? error.message : String(error);
+    }
+  };
+
+  return (
+    <Detail
+      navigationTitle={`Import ${source}`}
+      markdown={reviewMarkdown(config, reading.dropped)}
+      actions={
+        <ActionPanel>
+          <Action title="Import" icon={Icon.Download} onAction={runImport} />
+        </ActionPanel>
+      }
+    />
+  );
+}
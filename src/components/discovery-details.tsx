@@ -0,0 +1,184 @@
+/**
+ * Discovery details view.
+ *
+ * Reads current input value and displays available DDC/CI information:
+ * platform, configuration, detected monitors and troubleshooting steps.
+ */
+
+import { Detail } from "@raycast/api";
+import { useEffect, useState } from "react";
+import { discoverInputs } from "../lib/discovery";
+import {
+  PrerequisiteValidation,
+  resolveBackend,
+  validatePrerequisites,
+} from "../common";
+import { selectBackend } from "../lib/backends";
+import { troubleshootingSteps } from "../lib/errors";
+import { resolveMonitorTargets } from "../lib/monitors";
+import { SupportedPlatform } from "../lib/platform";
+
+export function DiscoveryDetails() {
+  const [markdown, setMarkdown] = useState<string>();
+
+  useEffect(() => {
+    buildDiscoveryMarkdown().then(setMarkdown, (error: unknown) =>
+      setMarkdown(`### Discovery crashed!\n\n${String(error)}`),
+    );
+  }, []);
+
+  return (
+    <Detail
+      isLoading={markdown === undefined}
+      markdown={markdown ?? "# DDC/CI Input Discovery\n\nQuerying monitors…"}
+      navigationTitle="DDC/CI Input Discovery"
+    />
+  );
+}
+
+/**
+ * Run discovery and render the whole page as markdown.
+ */
+async function buildDiscoveryMarkdown(): Promise<string> {
+  const platformValidation = await validatePrerequisites();
+
+  // Build platform info section
+  if (platformValidation.os === "unsupported") {
+    const markdown = "### Nothing could be retrieved!";
+    console.log(markdown);
+    return markdown;
+  }
+  const platformInfo = [
+    "",
+    "## Platform Information",
+    "",
+    `- **OS**: ${platformValidation.os}`,
+    platformValidation.os === "darwin"
+      ? `- **Apple Silicon**: ${platformValidation.isAppleSilicon ? "Yes" : "No"}`
+      : "",
+    platformValidation.os === "darwin"
+      ? `- **Chip Generation**: ${platformValidation.appleChipGen}`
+      : "",
+    platformValidation.os === "darwin"
+      ? `- **Built-in HDMI Supported**: ${platformValidation.m1ddcSupportsBuiltinHdmi ? "Yes (M2+)" : "No (M1 or Intel)"}`
+      : "",
+    "",
+  ].join("\n");
+
+  // Build current config section
+  if (!Object.hasOwn(platformValidation, "displayPortValue")) {
+    const markdown = `
+      ${platformInfo}
+      `;
+    console.log(markdown);
+    return markdown;
+  }
+  const completeValidation = platformValidation as PrerequisiteValidation;
+  const backend = resolveBackend(completeValidation);
+  const backendTool = selectBackend(
+    completeValidation.os as SupportedPlatform,
+    completeValidation,
+  ).tool;
+  const settingsInfo = [
+    "## Current Configuration",
+    "",
+    `- **DisplayPort Value**: ${completeValidation.displayPortValue}`,
+    `- **HDMI Value**: ${completeValidation.hdmiValue}`,
+    `- **Backend**: ${backend.title}`,
+    backendTool
+      ? `- **${backendTool.name} Path**: ${backendTool.path(completeValidation) || "(not set)"}`
+      : "",
+    `- **Monitor(s)**: ${completeValidation.monitorId || "Primary"}`,
+    "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  // Attempt discovery on every targeted monitor
+  let monitorIds: string[];
+  try {
+    monitorIds = await resolveMonitorTargets(
+      backend,
+      completeValidation.monitorId || "Primary",
+    );
+  } catch {
+    monitorIds = ["Primary"];
+  }
+  const discovery = await discoverInputs(backend, monitorIds);
+  const monitorsSection =
+    discovery.monitors.length === 0
+      ? ""
+      : [
+          "## Detected Monitors",
+          "",
+          "| # | Name | Serial | ID |",
+          "|---|------|--------|----|",
+          ...discovery.monitors.map(
+            (monitor) =>
+              `| ${monitor.index} | ${monitor.name} | ${monitor.serial ?? "-"} | \`${monitor.id}\` |`,
+          ),
+          "",
+          "Set **Monitor(s)** in preferences to a number, serial, name or ID above, a comma-separated list of them, or `all`.",
+          "",
+        ].join("\n");
+
+  let discoverySection: string;
+  if (discovery.success) {
+    discoverySection = [
+      "## Discovery Results",
+      "",
+      "```",
+      discovery.availableInfo || "(No additional information)",
+      "```",
+    ].join("\n");
+  } else {
+    const { failure } = discovery;
+    discoverySection = [
+      "## Discovery Failed",
+      "",
+      failure && failure.kind !== "unknown"
+        ? `**${failure.title}**: ${failure.hint}`
+        : `**Error**: ${discovery.error}`,
+      "",
+      failure ? `\`${failure.detail}\`` : "",
+      "",
+      "### Troubleshooting",
+      "",
+      troubleshootingSteps(backend.errorCatalog)
+        .map(
+          (step, index) =>
+            `${index + 1}. ${step.title === failure?.title ? `**${step.title}** (detected)` : `**${step.title}**`}: ${step.hint}`,
+        )
+        .join("\n"),
+    ].join("\n");
+  }
+
+  // Manual discovery instructions
+  const manualInstructions = [
+    "## Manual Discovery",
+    "",
+    "To find the correct input values for your monitor:",
+    "",
+    "1. **Switch to each input manually** using your monitor's OSD",
+    "2. **Read the current value** from the active machine:",
+    "",
+    backend.manualReadCommand.replaceAll(/^/gmu, "   "),
+    "",
+    "3. **Record the value** for each input (DP, HDMI1, HDMI2, etc.)",
+    "4. **Update extension preferences** with your discovered values",
+    "",
+    "Or let **Learn Inputs** do this for you: it test-switches each candidate, confirms it by reading it back and remembers the names you give them.",
+  ].join("\n");
+
+  return [
+    "",
+    "# DDC/CI Input Discovery",
+    `${platformInfo}`,
+    `${settingsInfo}`,
+    `${monitorsSection}`,
+    `${discoverySection}`,
+    "",
+    "",
+    `${manualInstructions}`,
+  ].join("\n");
+}
@@ -0,0 +1,262 @@
+/**
+ * Input learning wizard for one monitor.
+ *
+ * 1. Reads VCP 0x60 and asks the user to name the input they're looking at.
+ * 2. Offers a "test switch" to every candidate input, confirmed by reading
+ *    the value back, then switches back so the wizard stays visible.
+ * 3. Saves each named input to LocalStorage for the switch command.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Icon,
+  List,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { DdcBackend, Monitor } from "../lib/backends";
+import { readInputSource } from "../lib/ddc";
+import {
+  candidateInputs,
+  TEST_HOLD_MS,
+  testSwitch,
+  TestSwitchResult,
+} from "../lib/learn";
+import {
+  findMapping,
+  forgetLearnedInput,
+  InputMapping,
+  loadMappings,
+  saveLearnedInput,
+} from "../lib/mappings";
+import { formatInput, inputName } from "../lib/mccs";
+import { SwitchPolicy } from "../lib/verify";
+import { NameInputForm } from "./name-input-form";
+
+interface LearnInputsProps {
+  backend: DdcBackend;
+  monitor: Monitor;
+  policy: SwitchPolicy;
+  /** Called after the mapping changed, so the caller can refresh */
+  onChange: () => void;
+}
+
+interface WizardState {
+  currentValue?: number;
+  readError?: string;
+  candidates: number[];
+  fromCapabilities: boolean;
+  mapping?: InputMapping;
+}
+
+export function LearnInputs({
+  backend,
+  monitor,
+  policy,
+  onChange,
+}: LearnInputsProps) {
+  const { push } = useNavigation();
+  const [state, setState] = useState<WizardState>();
+  const [testing, setTesting] = useState<number>();
+  const [results, setResults] = useState<Map<number, TestSwitchResult>>(
+    new Map(),
+  );
+
+  const reloadMapping = useCallback(async () => {
+    const mapping = findMapping(await loadMappings(), backend.id, monitor.id, [
+      monitor,
+    ]);
+    setState((previous) => previous && { ...previous, mapping });
+    onChange();
+  }, [backend, monitor, onChange]);
+
+  useEffect(() => {
+    (async () => {
+      const [reading, candidates, mappings] = await Promise.all([
+        readInputSource(backend, monitor.id),
+        candidateInputs(backend, monitor.id),
+        loadMappings(),
+      ]);
+      setState({
+        currentValue: reading.currentValue,
+        readError: reading.error,
+        candidates: candidates.values,
+        fromCapabilities: candidates.fromCapabilities,
+        mapping: findMapping(mappings, backend.id, monitor.id, [monitor]),
+      });
+    })();
+  }, [backend, monitor]);
+
+  const learnedName = (value: number) =>
+    state?.mapping?.inputs.find((entry) => entry.value === value)?.name;
+
+  const nameAction = (value: number) => (
+    <Action
+      title="Name This Input"
+      icon={Icon.Pencil}
+      onAction={() =>
+        push(
+          <NameInputForm
+            value={value}
+            defaultName={learnedName(value) ?? inputName(value) ?? ""}
+            onSubmit={async (name) => {
+              await saveLearnedInput(backend.id, monitor, { value, name });
+              await reloadMapping();
+            }}
+          />,
+        )
+      }
+    />
+  );
+
+  const runTest = async (candidate: number) => {
+    if (state?.currentValue === undefined || testing !== undefined) {
+      return;
+    }
+    setTesting(candidate);
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: `Testing ${formatInput(candidate)}`,
+      message: `Switching back in ${Math.round(TEST_HOLD_MS / 1000)}s — watch the screen`,
+    });
+    const result = await testSwitch(
+      backend,
+      monitor.id,
+      candidate,
+      state.currentValue,
+      policy,
+    );
+    setResults((previous) => new Map(previous).set(candidate, result));
+    setTesting(undefined);
+
+    toast.style = result.confirmed ? Toast.Style.Success : Toast.Style.Failure;
+    toast.title = result.confirmed
+      ? `${formatInput(candidate)} confirmed`
+      : `${formatInput(candidate)} not confirmed`;
+    toast.message = result.message;
+    if (result.confirmed) {
+      push(
+        <NameInputForm
+          value={candidate}
+          defaultName={learnedName(candidate) ?? inputName(candidate) ?? ""}
+          onSubmit={async (name) => {
+            await saveLearnedInput(backend.id, monitor, {
+              value: candidate,
+              name,
+            });
+            await reloadMapping();
+          }}
+        />,
+      );
+    }
+  };
+
+  if (state && state.currentValue === undefined) {
+    return (
+      <List navigationTitle={`Learn Inputs: ${monitor.name}`}>
+        <List.EmptyView
+          icon={Icon.Warning}
+          title="Could not read the current input"
+          description={state.readError}
+        />
+      </List>
+    );
+  }
+
+  const current = state?.currentValue;
+  return (
+    <List
+      isLoading={state === undefined || testing !== undefined}
+      navigationTitle={`Learn Inputs: ${monitor.name}`}
+    >
+      {current !== undefined && (
+        <List.Section title="Current Input">
+          <List.Item
+            icon={Icon.Monitor}
+            title={learnedName(current) ?? "Unnamed — what are you looking at?"}
+            subtitle={formatInput(current)}
+            accessories={[
+              learnedName(current)
+                ? { tag: { value: "Learned", color: Color.Green } }
+                : { tag: { value: "Name it", color: Color.Orange } },
+            ]}
+            actions={<ActionPanel>{nameAction(current)}</ActionPanel>}
+          />
+        </List.Section>
+      )}
+      <List.Section
+        title="Candidate Inputs"
+        subtitle={
+          state?.fromCapabilities
+            ? "from the monitor's capabilities"
+            : "common values; capabilities unavailable"
+        }
+      >
+        {(state?.candidates ?? [])
+          .filter((value) => value !== current)
+          .map((value) => {
+            const result = results.get(value);
+            return (
+              <List.Item
+                key={value}
+                icon={testStatusIcon(result, testing === value)}
+                title={learnedName(value) ?? formatInput(value)}
+                subtitle={learnedName(value) ? formatInput(value) : undefined}
+                accessories={[{ text: testStatusText(result) }]}
+                actions={
+                  <ActionPanel>
+                    <Action
+                      title="Test Switch"
+                      icon={Icon.Switch}
+                      onAction={() => runTest(value)}
+                    />
+                    {nameAction(value)}
+                    {learnedName(value) && (
+                      <Action
+                        title="Forget Input"
+                        icon={Icon.Trash}
+                        style={Action.Style.Destructive}
+                        onAction={async () => {
+                          await forgetLearnedInput(backend.id, monitor, value);
+                          await reloadMapping();
+                        }}
+                      />
+                    )}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+      </List.Section>
+    </List>
+  );
+}
+
+function testStatusIcon(
+  result: TestSwitchResult | undefined,
+  running: boolean,
+) {
+  if (running) {
+    return Icon.CircleProgress;
+  }
+  if (!result) {
+    return Icon.Circle;
+  }
+  return result.confirmed
+    ? { source: Icon.Checkmark, tintColor: Color.Green }
+    : { source: Icon.XMarkCircle, tintColor: Color.Red };
+}
+
+function testStatusText(result: TestSwitchResult | undefined): string {
+  if (!result) {
+    return "Untested";
+  }
+  if (result.confirmed) {
+    return "Confirmed";
+  }
+  return result.outcome === "no-response" ? "No read-back" : "Not accepted";
+}
@@ -0,0 +1,66 @@
+/**
+ * Form naming one learned input, e.g. 0x11 → "Gaming PC".
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Form,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { formatInput } from "../lib/mccs";
+
+interface NameInputFormProps {
+  value: number;
+  defaultName: string;
+  onSubmit: (name: string) => Promise<void>;
+}
+
+export function NameInputForm({
+  value,
+  defaultName,
+  onSubmit,
+}: NameInputFormProps) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string>();
+
+  return (
+    <Form
+      navigationTitle={`Name ${formatInput(value)}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Input Name"
+            onSubmit={async (values: { name: string }) => {
+              const name = values.name.trim();
+              if (!name) {
+                setNameError("Give the input a name");
+                return;
+              }
+              await onSubmit(name);
+              await showToast({
+                style: Toast.Style.Success,
+                title: `Saved ${formatInput(value)} as "${name}"`,
+              });
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        text={`What shows up on input ${formatInput(value)}? E.g. "MacBook" or "Gaming PC".`}
+      />
+      <Form.TextField
+        id="name"
+        title="Name"
+        defaultValue={defaultName}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * Form creating or editing a desk profile.
+ *
+ * Steps are edited as text, one `<setting> = <value> @ <monitors>` line each
+ * (see `../lib/profiles`).
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Form,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { formatProfileStep, parseProfileSteps } from "../lib/profile-steps";
+import { DeskProfile, saveProfile } from "../lib/profiles";
+
+interface ProfileFormProps {
+  /** Profile to edit; omitted when creating one */
+  profile?: DeskProfile;
+  onSave: () => void;
+}
+
+const STEPS_PLACEHOLDER = [
+  "input = DP-1 @ all",
+  "brightness = 70 @ 1",
+  "volume = 20 @ DELL U2720Q",
+].join("\n");
+
+export function ProfileForm({ profile, onSave }: ProfileFormProps) {
+  const { pop } = useNavigation();
+  const [nameError, setNameError] = useState<string>();
+  const [stepsError, setStepsError] = useState<string>();
+
+  return (
+    <Form
+      navigationTitle={profile ? `Edit "${profile.name}"` : "Create Profile"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Profile"
+            onSubmit={async (values: { name: string; steps: string }) => {
+              const name = values.name.trim();
+              if (!name) {
+                setNameError("Give the profile a name");
+                return;
+              }
+              let steps;
+              try {
+                steps = parseProfileSteps(values.steps);
+              } catch (error) {
+                setStepsError(
+                  error instanceof Error ? error.message : String(error),
+                );
+                return;
+              }
+              if (steps.length === 0) {
+                setStepsError("Add at least one step");
+                return;
+              }
+              await saveProfile({ id: profile?.id, name, steps });
+              await showToast({
+                style: Toast.Style.Success,
+                title: `Saved "${name}"`,
+              });
+              onSave();
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Work laptop"
+        defaultValue={profile?.name}
+        error={nameError}
+        onChange={() => setNameError(undefined)}
+      />
+      <Form.TextArea
+        id="steps"
+        title="Steps"
+        placeholder={STEPS_PLACEHOLDER}
+        defaultValue={profile?.steps
+          .map((step) => formatProfileStep(step))
+          .join("\n")}
+        error={stepsError}
+        onChange={() => setStepsError(undefined)}
+      />
+      <Form.Description
+        text={[
+          "One step per line: <setting> = <value> @ <monitors>",
+          "Settings: input, brightness, contrast, volume, mute, power, or a VCP code like 0x62",
+          "Monitors: Primary (default), all, or display numbers, serials or names",
+          "Input switches run last, after the other settings.",
+        ].join("\n")}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,38 @@
+/**
+ * Per-step results of applying a desk profile.
+ */
+
+import { Color, Icon, List } from "@raycast/api";
+import { describeProfileStep } from "../lib/profile-steps";
+import { ProfileApplication } from "../lib/profiles";
+import { ToastResult } from "../lib/toast";
+
+const STATUS_ICONS: Record<ToastResult["status"], List.Item.Props["icon"]> = {
+  success: { source: Icon.CheckCircle, tintColor: Color.Green },
+  "soft-fail": { source: Icon.Warning, tintColor: Color.Orange },
+  failure: { source: Icon.XMarkCircle, tintColor: Color.Red },
+};
+
+export function ProfileResults({
+  name,
+  application,
+}: {
+  name: string;
+  application: ProfileApplication;
+}) {
+  return (
+    <List navigationTitle={`Applied "${name}"`}>
+      <List.Section title={application.summary.title}>
+        {application.steps.map(({ step, result }, position) => (
+          <List.Item
+            key={position}
+            icon={STATUS_ICONS[result.status]}
+            title={describeProfileStep(step)}
+            subtitle={result.title}
+            accessories={result.message ? [{ text: result.message }] : []}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
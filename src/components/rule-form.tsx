@@ -0,0 +1,170 @@
+/**
+ * Form creating or editing a scheduled rule (see `../lib/rules`).
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Form,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useState } from "react";
+import { formatSwitchAction, parseSwitchAction } from "../lib/actions";
+import { ruleTiming, saveRule, ScheduleRule } from "../lib/rules";
+
+interface RuleFormProps {
+  /** Rule to edit; omitted when creating one */
+  rule?: ScheduleRule;
+  onSave: () => void;
+}
+
+interface RuleFormValues {
+  name: string;
+  schedule: string;
+  weekdays: string;
+  action: string;
+  monitor: string;
+  onlyIfInput: string;
+  wake: boolean;
+  enabled: boolean;
+}
+
+type RuleFormErrors = Partial<Record<keyof RuleFormValues, string>>;
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function validate(values: RuleFormValues): RuleFormErrors {
+  const errors: RuleFormErrors = {};
+  if (!values.name.trim()) {
+    errors.name = "Give the rule a name";
+  }
+  if (!parseSwitchAction(values.action)) {
+    errors.action = "Enter an input or profile: <name>";
+  }
+  try {
+    ruleTiming({ schedule: values.schedule, weekdays: "" });
+  } catch (error) {
+    errors.schedule = errorText(error);
+  }
+  try {
+    ruleTiming({ schedule: "* * * * *", weekdays: values.weekdays });
+  } catch (error) {
+    errors.weekdays = errorText(error);
+  }
+  return errors;
+}
+
+export function RuleForm({ rule, onSave }: RuleFormProps) {
+  const { pop } = useNavigation();
+  const [errors, setErrors] = useState<RuleFormErrors>({});
+  const clearError = (field: keyof RuleFormValues) => () =>
+    setErrors((current) => ({ ...current, [field]: undefined }));
+
+  return (
+    <Form
+      navigationTitle={rule ? `Edit "${rule.name}"` : "Create Rule"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Rule"
+            onSubmit={async (values: RuleFormValues) => {
+              const found = validate(values);
+              const action = parseSwitchAction(values.action);
+              if (Object.keys(found).length > 0 || !action) {
+                setErrors(found);
+                return;
+              }
+              const name = values.name.trim();
+              await saveRule({
+                id: rule?.id,
+                name,
+                enabled: values.enabled,
+                schedule: values.schedule.trim(),
+                weekdays: values.weekdays.trim() || undefined,
+                action,
+                monitor: values.monitor.trim() || undefined,
+                onlyIfInput: values.onlyIfInput.trim() || undefined,
+                wake: values.wake,
+              });
+              await showToast({
+                style: Toast.Style.Success,
+                title: `Saved "${name}"`,
+              });
+              onSave();
+              pop();
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="Work laptop in the morning"
+        defaultValue={rule?.name}
+        error={errors.name}
+        onChange={clearError("name")}
+      />
+      <Form.TextField
+        id="schedule"
+        title="Schedule"
+        placeholder="0 9 * * *"
+        info="Cron expression: minute hour day-of-month month weekday"
+        defaultValue={rule?.schedule}
+        error={errors.schedule}
+        onChange={clearError("schedule")}
+      />
+      <Form.TextField
+        id="weekdays"
+        title="Weekdays"
+        placeholder="mon-fri (empty: every day)"
+        defaultValue={rule?.weekdays}
+        error={errors.weekdays}
+        onChange={clearError("weekdays")}
+      />
+      <Form.TextField
+        id="action"
+        title="Action"
+        placeholder="DP-1, or profile: Work"
+        defaultValue={rule ? formatSwitchAction(rule.action) : undefined}
+        error={errors.action}
+        onChange={clearError("action")}
+      />
+      <Form.Separator />
+      <Form.TextField
+        id="monitor"
+        title="Monitors"
+        placeholder="Monitor(s) preference"
+        info="Monitors to wake, check and switch: Primary, all, or display numbers, serials or names"
+        defaultValue={rule?.monitor}
+      />
+      <Form.TextField
+        id="onlyIfInput"
+        title="Only If Input Is"
+        placeholder="HDMI-1 (empty: always)"
+        info="Only act while every monitor shows this input"
+        defaultValue={rule?.onlyIfInput}
+      />
+      <Form.Checkbox
+        id="wake"
+        label="Wake the monitors first (VCP 0xD6)"
+        defaultValue={rule?.wake ?? true}
+      />
+      <Form.Checkbox
+        id="enabled"
+        label="Enabled"
+        defaultValue={rule?.enabled ?? true}
+      />
+      <Form.Description
+        text={[
+          "Schedule examples: 0 9 * * * (9:00), 30 17 * * mon-fri (17:30 on weekdays), 0 8-18/2 * * * (every 2 hours from 8 to 18)",
+          'Rules run from the "Scheduled Switching" background command, which checks every minute.',
+        ].join("\n")}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,94 @@
+/**
+ * Decision log of the scheduled rules (see `../lib/rule-log`), newest
+ * first.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  confirmAlert,
+  Icon,
+  List,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import {
+  clearRuleLog,
+  DECISION_TITLES,
+  loadRuleLog,
+  RuleLogEntry,
+} from "../lib/rule-log";
+import { ToastResult } from "../lib/toast";
+
+const STATUS_ICONS: Record<ToastResult["status"], List.Item.Props["icon"]> = {
+  success: { source: Icon.CheckCircle, tintColor: Color.Green },
+  "soft-fail": { source: Icon.Warning, tintColor: Color.Orange },
+  failure: { source: Icon.XMarkCircle, tintColor: Color.Red },
+};
+
+export function RuleLog() {
+  const [entries, setEntries] = useState<RuleLogEntry[]>();
+
+  const refresh = useCallback(() => {
+    loadRuleLog().then(setEntries);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return (
+    <List isLoading={entries === undefined} navigationTitle="Decision Log">
+      <List.EmptyView
+        icon={Icon.List}
+        title="No decisions yet"
+        description="Each time a rule fires, what happened is logged here"
+      />
+      {entries?.map((entry) => (
+        <List.Item
+          key={entry.id}
+          icon={STATUS_ICONS[entry.status]}
+          title={entry.ruleName}
+          subtitle={entry.title}
+          keywords={[entry.decision, entry.message]}
+          accessories={[
+            { tag: DECISION_TITLES[entry.decision], tooltip: entry.message },
+            {
+              date: new Date(entry.scheduledFor),
+              tooltip: `Scheduled for ${new Date(entry.scheduledFor).toLocaleString()}, decided ${new Date(entry.timestamp).toLocaleString()}`,
+            },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action.CopyToClipboard
+                title="Copy Decision"
+                content={[entry.title, entry.message]
+                  .filter(Boolean)
+                  .join("\n")}
+              />
+              <Action
+                title="Clear Log"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                onAction={async () => {
+                  const confirmed = await confirmAlert({
+                    title: "Clear the decision log?",
+                    primaryAction: {
+                      title: "Clear",
+                      style: Alert.ActionStyle.Destructive,
+                    },
+                  });
+                  if (confirmed) {
+                    await clearRuleLog();
+                    refresh();
+                  }
+                }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
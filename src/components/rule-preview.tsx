@@ -0,0 +1,114 @@
+/**
+ * Dry-run preview of the scheduled rules: what the enabled rules will do
+ * over the next week, by day, without switching anything.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Color,
+  Icon,
+  List,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { describeSwitchAction } from "../lib/actions";
+import { dryRunRule, RuleContext } from "../lib/rule-runner";
+import { RuleFiring, ScheduleRule, upcomingFirings } from "../lib/rules";
+
+const PREVIEW_DAYS = 7;
+
+/** Cap on listed firings, for rules firing every few minutes */
+const MAX_PREVIEW_FIRINGS = 200;
+
+/** What a rule does when it fires, e.g. "Wake, then switch to DP-1 if on HDMI-1" */
+export function describeRule(rule: ScheduleRule): string {
+  return [
+    rule.wake ? "Wake, then " : "",
+    describeSwitchAction(rule.action),
+    rule.onlyIfInput ? ` if on ${rule.onlyIfInput}` : "",
+  ].join("");
+}
+
+function groupByDay(firings: RuleFiring[]): Map<string, RuleFiring[]> {
+  const days = new Map<string, RuleFiring[]>();
+  for (const firing of firings) {
+    const day = firing.at.toLocaleDateString(undefined, {
+      weekday: "long",
+      month: "short",
+      day: "numeric",
+    });
+    days.set(day, [...(days.get(day) ?? []), firing]);
+  }
+  return days;
+}
+
+export function RulePreview({
+  rules,
+  context,
+}: {
+  rules: ScheduleRule[];
+  /** Needed for dry runs; undefined while the monitors aren't ready */
+  context?: RuleContext;
+}) {
+  const now = new Date();
+  const firings = upcomingFirings(
+    rules,
+    now,
+    new Date(now.getTime() + PREVIEW_DAYS * 24 * 60 * 60 * 1000),
+  ).slice(0, MAX_PREVIEW_FIRINGS);
+
+  const dryRun = async (rule: ScheduleRule) => {
+    if (!context) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Monitors not ready yet",
+      });
+      return;
+    }
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: `Checking "${rule.name}"`,
+    });
+    const decision = await dryRunRule(rule, context);
+    toast.style =
+      decision.status === "failure" ? Toast.Style.Failure : Toast.Style.Success;
+    toast.title = decision.title;
+    toast.message = decision.message;
+  };
+
+  return (
+    <List navigationTitle="Upcoming Switches">
+      <List.EmptyView
+        icon={Icon.Calendar}
+        title="Nothing scheduled this week"
+        description="Enabled rules with a valid schedule show up here"
+      />
+      {[...groupByDay(firings)].map(([day, dayFirings]) => (
+        <List.Section key={day} title={day}>
+          {dayFirings.map(({ rule, at }) => (
+            <List.Item
+              key={`${rule.id}-${at.getTime()}`}
+              icon={{ source: Icon.Clock, tintColor: Color.Blue }}
+              title={at.toLocaleTimeString(undefined, {
+                hour: "2-digit",
+                minute: "2-digit",
+              })}
+              subtitle={rule.name}
+              accessories={[{ text: describeRule(rule) }]}
+              actions={
+                <ActionPanel>
+                  <Action
+                    title="Dry Run Now"
+                    icon={Icon.Eye}
+                    onAction={() => dryRun(rule)}
+                  />
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,61 @@
+/**
+ * Shared start-up for the view commands: validate prerequisites, create the
+ * backend and enumerate the monitors it can see.
+ */
+
+import { useEffect, useState } from "react";
+import { DdcBackend, Monitor } from "../lib/backends";
+import {
+  PrerequisiteValidation,
+  resolveBackend,
+  validatePrerequisites,
+} from "../common";
+
+/** Used when the backend can't enumerate displays */
+const PRIMARY_MONITOR: Monitor = { index: 1, name: "Primary", id: "Primary" };
+
+export interface MonitorsState {
+  isLoading: boolean;
+  backend?: DdcBackend;
+  validation?: PrerequisiteValidation;
+  /** Enumerated monitors, or just "Primary" when listing failed */
+  monitors: Monitor[];
+  error?: { title: string; message?: string };
+}
+
+export function useMonitors(): MonitorsState {
+  const [state, setState] = useState<MonitorsState>({
+    isLoading: true,
+    monitors: [],
+  });
+
+  useEffect(() => {
+    (async () => {
+      const validation = await validatePrerequisites();
+      if (validation.status === "failure" || validation.os === "unsupported") {
+        setState({
+          isLoading: false,
+          monitors: [],
+          error: { title: validation.title, message: validation.message },
+        });
+        return;
+      }
+      const completeValidation = validation as PrerequisiteValidation;
+      const backend = resolveBackend(completeValidation);
+      let monitors: Monitor[];
+      try {
+        monitors = await backend.listDisplays();
+      } catch {
+        monitors = [];
+      }
+      setState({
+        isLoading: false,
+        backend,
+        validation: completeValidation,
+        monitors: monitors.length > 0 ? monitors : [PRIMARY_MONITOR],
+      });
+    })();
+  }, []);
+
+  return state;
+}
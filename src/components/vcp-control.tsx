@@ -0,0 +1,214 @@
+/**
+ * Monitor list for one or more VCP features (brightness, volume, ...).
+ *
+ * Each monitor gets a section with one item per feature showing its current
+ * value. Continuous features can be stepped or set to a value; the others
+ * offer one action per allowed value.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  Keyboard,
+  List,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { Monitor } from "../lib/backends";
+import {
+  adjustVcp,
+  formatVcpValue,
+  readVcp,
+  VcpAdjustment,
+  VcpFeature,
+  VcpReading,
+  vcpStepFromPreferences,
+} from "../lib/vcp";
+import { switchPolicyFromPreferences } from "../lib/verify";
+import { useMonitors } from "./use-monitors";
+import { VcpValueForm } from "./vcp-value-form";
+
+interface VcpControlProps {
+  features: VcpFeature[];
+  navigationTitle: string;
+  icon: Icon;
+}
+
+const readingKey = (monitorId: string, feature: VcpFeature) =>
+  `${monitorId}:${feature.code}`;
+
+export function VcpControl({
+  features,
+  navigationTitle,
+  icon,
+}: VcpControlProps) {
+  const { isLoading, backend, validation, monitors, error } = useMonitors();
+  const [readings, setReadings] = useState<Map<string, VcpReading>>(new Map());
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(
+    async (monitorId: string, feature: VcpFeature) => {
+      if (!backend) {
+        return;
+      }
+      const reading = await readVcp(backend, monitorId, feature);
+      setReadings((previous) =>
+        new Map(previous).set(readingKey(monitorId, feature), reading),
+      );
+    },
+    [backend],
+  );
+
+  useEffect(() => {
+    // One monitor's features share a bus, so only monitors run in parallel
+    Promise.all(
+      monitors.map(async (monitor) => {
+        for (const feature of features) {
+          await refresh(monitor.id, feature);
+        }
+      }),
+    );
+  }, [monitors, features, refresh]);
+
+  if (error) {
+    return (
+      <List navigationTitle={navigationTitle}>
+        <List.EmptyView
+          icon={Icon.Warning}
+          title={error.title}
+          description={error.message}
+        />
+      </List>
+    );
+  }
+
+  const step = validation ? vcpStepFromPreferences(validation) : 0;
+  const apply = async (
+    monitor: Monitor,
+    feature: VcpFeature,
+    adjustment: VcpAdjustment,
+  ) => {
+    if (!backend || !validation) {
+      return;
+    }
+    setBusy(true);
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: `Setting ${feature.title.toLowerCase()}`,
+      message: monitor.name,
+    });
+    const result = await adjustVcp(
+      backend,
+      monitor.id,
+      feature,
+      adjustment,
+      switchPolicyFromPreferences(validation),
+    );
+    toast.style =
+      result.status === "success" ? Toast.Style.Success : Toast.Style.Failure;
+    toast.title = result.title;
+    toast.message = result.message;
+    await refresh(monitor.id, feature);
+    setBusy(false);
+  };
+
+  const actionsFor = (monitor: Monitor, feature: VcpFeature) => {
+    const refreshAction = (
+      <Action
+        title="Refresh"
+        icon={Icon.ArrowClockwise}
+        shortcut={Keyboard.Shortcut.Common.Refresh}
+        onAction={() => refresh(monitor.id, feature)}
+      />
+    );
+    if (feature.choices) {
+      return (
+        <ActionPanel>
+          {feature.choices.map((choice) => (
+            <Action
+              key={choice.value}
+              title={`Set to ${choice.title}`}
+              icon={icon}
+              onAction={() =>
+                apply(monitor, feature, { kind: "set", value: choice.value })
+              }
+            />
+          ))}
+          {refreshAction}
+        </ActionPanel>
+      );
+    }
+    return (
+      <ActionPanel>
+        <Action
+          title={`Increase by ${step}`}
+          icon={Icon.Plus}
+          shortcut={{ modifiers: ["cmd"], key: "arrowUp" }}
+          onAction={() =>
+            apply(monitor, feature, { kind: "step", delta: step })
+          }
+        />
+        <Action
+          title={`Decrease by ${step}`}
+          icon={Icon.Minus}
+          shortcut={{ modifiers: ["cmd"], key: "arrowDown" }}
+          onAction={() =>
+            apply(monitor, feature, { kind: "step", delta: -step })
+          }
+        />
+        <Action.Push
+          title="Set Value…"
+          icon={Icon.Pencil}
+          shortcut={{ modifiers: ["cmd"], key: "e" }}
+          target={
+            <VcpValueForm
+              feature={feature}
+              reading={readings.get(readingKey(monitor.id, feature))}
+              onSubmit={(value) =>
+                apply(monitor, feature, { kind: "set", value })
+              }
+            />
+          }
+        />
+        {refreshAction}
+      </ActionPanel>
+    );
+  };
+
+  return (
+    <List isLoading={isLoading || busy} navigationTitle={navigationTitle}>
+      {monitors.map((monitor) => (
+        <List.Section
+          key={monitor.id}
+          title={monitor.name}
+          subtitle={monitor.serial ?? monitor.id}
+        >
+          {features.map((feature) => {
+            const reading = readings.get(readingKey(monitor.id, feature));
+            return (
+              <List.Item
+                key={feature.code}
+                icon={icon}
+                title={feature.title}
+                accessories={[
+                  reading?.current === undefined
+                    ? { text: reading?.error ? "Unreadable" : "Reading…" }
+                    : {
+                        text: formatVcpValue(
+                          feature,
+                          reading.current,
+                          reading.max,
+                        ),
+                      },
+                ]}
+                actions={actionsFor(monitor, feature)}
+              />
+            );
+          })}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,62 @@
+/**
+ * Form setting a continuous VCP feature to an exact value.
+ */
+
+import { Action, ActionPanel, Form, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { VcpFeature, VcpReading } from "../lib/vcp";
+
+interface VcpValueFormProps {
+  feature: VcpFeature;
+  reading?: VcpReading;
+  onSubmit: (value: number) => Promise<void>;
+}
+
+export function VcpValueForm({
+  feature,
+  reading,
+  onSubmit,
+}: VcpValueFormProps) {
+  const { pop } = useNavigation();
+  const [valueError, setValueError] = useState<string>();
+  const max = reading?.max;
+
+  return (
+    <Form
+      navigationTitle={`Set ${feature.title}`}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title={`Set ${feature.title}`}
+            onSubmit={async (values: { value: string }) => {
+              const value = Number(values.value.trim());
+              if (!Number.isInteger(value) || value < 0) {
+                setValueError("Enter a whole number");
+                return;
+              }
+              pop();
+              await onSubmit(value);
+            }}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        text={
+          max === undefined
+            ? `Values above the monitor's maximum are clamped.`
+            : `This monitor accepts 0–${max}; larger values are clamped.`
+        }
+      />
+      <Form.TextField
+        id="value"
+        title={feature.title}
+        defaultValue={
+          reading?.current === undefined ? "" : String(reading.current)
+        }
+        error={valueError}
+        onChange={() => setValueError(undefined)}
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,19 @@
+/**
+ * Raycast command: Step or set monitor contrast (VCP 0x12).
+ */
+
+import { Icon } from "@raycast/api";
+import { VcpControl } from "./components/vcp-control";
+import { VCP_FEATURES } from "./lib/vcp";
+
+const FEATURES = [VCP_FEATURES.contrast];
+
+export default function Command() {
+  return (
+    <VcpControl
+      features={FEATURES}
+      navigationTitle="Monitor Contrast"
+      icon={Icon.CircleProgress50}
+    />
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Raycast command: Desk profiles.
+ *
+ * Lists the saved profiles ("work laptop", "gaming PC", ...) and applies,
+ * creates, edits, duplicates or deletes them. Applying a profile runs every
+ * step, then shows the result of each.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Icon,
+  Keyboard,
+  List,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { ProfileForm } from "./components/profile-form";
+import { ProfileResults } from "./components/profile-results";
+import { useMonitors } from "./components/use-monitors";
+import { describeProfileStep } from "./lib/profile-steps";
+import {
+  applyProfile,
+  deleteProfile,
+  DeskProfile,
+  duplicateProfile,
+  loadProfiles,
+} from "./lib/profiles";
+import { switchPolicyFromPreferences } from "./lib/verify";
+
+export default function Command() {
+  const { push } = useNavigation();
+  const { backend, validation, error } = useMonitors();
+  const [profiles, setProfiles] = useState<DeskProfile[]>();
+  const [applying, setApplying] = useState(false);
+
+  const refresh = useCallback(() => {
+    loadProfiles().then(setProfiles);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const apply = async (profile: DeskProfile) => {
+    if (!backend || !validation) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: error?.title ?? "Monitors not ready yet",
+        message: error?.message,
+      });
+      return;
+    }
+    setApplying(true);
+    const toast = await showToast({
+      style: Toast.Style.Animated,
+      title: `Applying "${profile.name}"`,
+      message: `${profile.steps.length} steps via ${backend.title}`,
+    });
+    const application = await applyProfile(
+      backend,
+      profile,
+      switchPolicyFromPreferences(validation),
+    );
+    setApplying(false);
+    toast.style =
+      application.summary.status === "success"
+        ? Toast.Style.Success
+        : Toast.Style.Failure;
+    toast.title = application.summary.title;
+    toast.message = application.summary.message;
+    push(<ProfileResults name={profile.name} application={application} />);
+  };
+
+  const createAction = (
+    <Action.Push
+      title="Create Profile"
+      icon={Icon.Plus}
+      shortcut={Keyboard.Shortcut.Common.New}
+      target={<ProfileForm onSave={refresh} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={profiles === undefined || applying}
+      navigationTitle="Desk Profiles"
+    >
+      <List.EmptyView
+        icon={Icon.Desktop}
+        title="No profiles yet"
+        description="Create one to apply several monitor settings at once"
+        actions={<ActionPanel>{createAction}</ActionPanel>}
+      />
+      {profiles?.map((profile) => (
+        <List.Item
+          key={profile.id}
+          icon={Icon.Desktop}
+          title={profile.name}
+          subtitle={profile.steps
+            .map((step) => describeProfileStep(step))
+            .join(", ")}
+          accessories={[
+            {
+              text: `${profile.steps.length} step${profile.steps.length === 1 ? "" : "s"}`,
+            },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Apply Profile"
+                icon={Icon.Play}
+                onAction={() => apply(profile)}
+              />
+              <Action.Push
+                title="Edit Profile"
+                icon={Icon.Pencil}
+                shortcut={Keyboard.Shortcut.Common.Edit}
+                target={<ProfileForm profile={profile} onSave={refresh} />}
+              />
+              <Action
+                title="Duplicate Profile"
+                icon={Icon.CopyClipboard}
+                shortcut={Keyboard.Shortcut.Common.Duplicate}
+                onAction={async () => {
+                  await duplicateProfile(profile);
+                  refresh();
+                }}
+              />
+              {createAction}
+              <Action
+                title="Delete Profile"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+                onAction={async () => {
+                  const confirmed = await confirmAlert({
+                    title: `Delete "${profile.name}"?`,
+                    primaryAction: {
+                      title: "Delete",
+                      style: Alert.ActionStyle.Destructive,
+                    },
+                  });
+                  if (confirmed) {
+                    await deleteProfile(profile.id);
+                    refresh();
+                  }
+                }}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
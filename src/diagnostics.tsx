@@ -0,0 +1,123 @@
+/**
+ * Raycast command: Diagnostics.
+ *
+ * Collects a diagnostics report (see `./lib/diagnostics`) and shows it as
+ * markdown. The report can be copied or saved as markdown or JSON, with
+ * serial numbers redacted before it is shared.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  Icon,
+  Keyboard,
+  showInFinder,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import {
+  collectDiagnostics,
+  DiagnosticsFormat,
+  DiagnosticsReport,
+  diagnosticsToJson,
+  diagnosticsToMarkdown,
+  redactSerials,
+  saveDiagnostics,
+} from "./lib/diagnostics";
+
+export default function Command() {
+  const [report, setReport] = useState<DiagnosticsReport>();
+  const [redacted, setRedacted] = useState(false);
+
+  const refresh = useCallback(() => {
+    setReport(undefined);
+    collectDiagnostics().then(setReport);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const shown = report && (redacted ? redactSerials(report) : report);
+
+  const save = async (format: DiagnosticsFormat) => {
+    if (!shown) {
+      return;
+    }
+    try {
+      const path = await saveDiagnostics(shown, format);
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Saved diagnostics",
+        message: path,
+        primaryAction: {
+          title: "Show in Finder",
+          onAction: () => showInFinder(path),
+        },
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Saving failed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <Detail
+      isLoading={shown === undefined}
+      navigationTitle="Diagnostics"
+      markdown={
+        shown
+          ? diagnosticsToMarkdown(shown)
+          : "# Monitor Switch Diagnostics\n\nCollecting…"
+      }
+      actions={
+        shown && (
+          <ActionPanel>
+            <Action.CopyToClipboard
+              title="Copy as Markdown"
+              content={diagnosticsToMarkdown(shown)}
+            />
+            <Action.CopyToClipboard
+              title="Copy as JSON"
+              content={diagnosticsToJson(shown)}
+              shortcut={Keyboard.Shortcut.Common.CopyName}
+            />
+            <ActionPanel.Section>
+              <Action
+                title="Save as Markdown"
+                icon={Icon.Download}
+                onAction={() => save("md")}
+              />
+              <Action
+                title="Save as JSON"
+                icon={Icon.Download}
+                onAction={() => save("json")}
+              />
+            </ActionPanel.Section>
+            <ActionPanel.Section>
+              <Action
+                title={
+                  redacted ? "Show Serial Numbers" : "Redact Serial Numbers"
+                }
+                icon={redacted ? Icon.Eye : Icon.EyeDisabled}
+                shortcut={{ modifiers: ["cmd"], key: "h" }}
+                onAction={() => setRedacted(!redacted)}
+              />
+              <Action
+                title="Collect Again"
+                icon={Icon.ArrowClockwise}
+                shortcut={Keyboard.Shortcut.Common.Refresh}
+                onAction={refresh}
+              />
+            </ActionPanel.Section>
+          </ActionPanel>
+        )
+      }
+    />
+  );
+}
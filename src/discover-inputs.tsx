@@ -1,139 +1,132 @@
 /**
- * Raycast command: Discover DDC/CI input codes.
+ * Raycast command: Discover and learn monitor inputs.
  *
- * Reads current input value and displays available DDC/CI information.
- * Useful for determining correct input codes for your specific monitor.
+ * Lists the monitors the backend can see, with how many inputs have been
+ * learned for each. Monitors found in the model database get their inputs
+ * from it. From there the user opens the learning wizard for a monitor, or
+ * the full DDC/CI discovery details.
  */
 
-import { Detail } from "@raycast/api";
-import { discoverInputs } from "./lib/ddc";
-import { PrerequisiteValidation, validatePrerequisites } from "./common";
-import { SupportedPlatform } from "./lib/platform";
+import {
+  Action,
+  ActionPanel,
+  Icon,
+  List,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { DiscoveryDetails } from "./components/discovery-details";
+import { LearnInputs } from "./components/learn-inputs";
+import { useMonitors } from "./components/use-monitors";
+import { findMapping, InputMapping, loadMappings } from "./lib/mappings";
+import { applyModelDatabase } from "./lib/model-mappings";
+import { switchPolicyFromPreferences } from "./lib/verify";
 
 export default function Command() {
-  const platformValidation = validatePrerequisites();
+  const { isLoading, backend, validation, monitors, error } = useMonitors();
+  const [mappings, setMappings] = useState<InputMapping[]>([]);
 
-  // Build platform info section
-  if (platformValidation.os === "unsupported") {
-    const markdown = "### Nothing could be retrieved!";
-    console.log(markdown);
-    return (
-      <Detail markdown={markdown} navigationTitle="# DDC/CI Input Discovery" />
-    );
-  }
-  const platformInfo = [
-    "",
-    "## Platform Information",
-    "",
-    `- **OS**: ${platformValidation.os}`,
-    platformValidation.os === "darwin"
-      ? `- **Apple Silicon**: ${platformValidation.isAppleSilicon ? "Yes" : "No"}`
-      : "",
-    platformValidation.os === "darwin"
-      ? `- **Chip Generation**: ${platformValidation.appleChipGen}`
-      : "",
-    platformValidation.os === "darwin"
-      ? `- **Built-in HDMI Supported**: ${platformValidation.m1ddcSupportsBuiltinHdmi ? "Yes (M2+)" : "No (M1 or Intel)"}`
-      : "",
-    "",
-  ].join("\n");
+  const refreshMappings = useCallback(() => {
+    loadMappings().then(setMappings);
+  }, []);
 
-  // Build current config section
-  if (!Object.hasOwn(platformValidation, "displayPortValue")) {
-    const markdown = `
-      ${platformInfo}
-      `;
-    console.log(markdown);
-    return (
-      <Detail markdown={markdown} navigationTitle="# DDC/CI Input Discovery" />
-    );
-  }
-  const completeValidation = platformValidation as PrerequisiteValidation;
-  const settingsInfo = [
-    "## Current Configuration",
-    "",
-    `- **DisplayPort Value**: ${completeValidation.displayPortValue}`,
-    `- **HDMI Value**: ${completeValidation.hdmiPortValue}`,
-    completeValidation.os === "win32"
-      ? `- **ControlMyMonitor Path**: ${completeValidation.controlMyMonitorPath || "(not set)"}`
-      : "",
-    completeValidation.os === "win32"
-      ? `- **Monitor ID**: ${completeValidation.monitorId || "Primary"}`
-      : "",
-    "",
-  ]
-    .filter(Boolean)
-    .join("\n");
+  useEffect(() => {
+    refreshMappings();
+  }, [refreshMappings]);
 
-  // Attempt discovery
-  const exePath = completeValidation.isAppleSilicon
-    ? completeValidation.m1ddcPath
-    : completeValidation.controlMyMonitorPath;
-  const discovery = discoverInputs(
-    completeValidation.os as SupportedPlatform,
-    completeValidation.monitorId || "Primary",
-    exePath,
+  useEffect(() => {
+    if (!backend || monitors.length === 0) {
+      return;
+    }
+    loadMappings()
+      .then((stored) => applyModelDatabase(backend.id, monitors, stored))
+      .then(setMappings)
+      .catch((error: unknown) =>
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Could not apply the model database",
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+  }, [backend, monitors]);
+
+  const detailsAction = (
+    <Action.Push
+      title="Show Discovery Details"
+      icon={Icon.Info}
+      target={<DiscoveryDetails />}
+    />
   );
 
-  let discoverySection: string;
-  if (discovery.success) {
-    discoverySection = [
-      "## Discovery Results",
-      "",
-      "```",
-      discovery.availableInfo || "(No additional information)",
-      "```",
-    ].join("\n");
-  } else {
-    discoverySection = [
-      "## Discovery Failed",
-      "",
-      `**Error**: ${discovery.error}`,
-      "",
-      "### Troubleshooting",
-      "",
-      completeValidation.os === "darwin"
-        ? [
-            "1. Ensure m1ddc is installed: `brew install m1ddc`",
-            "2. Check the monitor is connected and awake",
-            "3. Try running manually: `m1ddc display list`",
-            "4. Some monitors need DDC/CI enabled in OSD settings",
-          ].join("\n")
-        : [
-            "1. Download ControlMyMonitor from https://www.nirsoft.net/utils/controlmymonitor.zip",
-            "2. Extract and set the path in extension preferences",
-            "3. Check the monitor is connected and awake",
-            "4. Try running the GUI version to verify DDC/CI works",
-          ].join("\n"),
-    ].join("\n");
+  if (error) {
+    return (
+      <List>
+        <List.EmptyView
+          icon={Icon.Warning}
+          title={error.title}
+          description={error.message}
+          actions={<ActionPanel>{detailsAction}</ActionPanel>}
+        />
+      </List>
+    );
   }
 
-  // Manual discovery instructions
-  const manualInstructions = [
-    "## Manual Discovery",
-    "",
-    "To find the correct input values for your monitor:",
-    "",
-    "1. **Switch to each input manually** using your monitor's OSD",
-    "2. **Read the current value** from the active machine:",
-    "",
-    completeValidation.os === "darwin"
-      ? "   ```bash\n   m1ddc get input\n   ```"
-      : "   ```powershell\n   .\\ControlMyMonitor.exe /GetValue Primary 60\n   ```",
-    "",
-    "3. **Record the value** for each input (DP, HDMI1, HDMI2, etc.)",
-    "4. **Update extension preferences** with your discovered values",
-  ].join("\n");
-
-  const markdown = [
-    "",
-    "# DDC/CI Input Discovery",
-    `${platformInfo}`,
-    `${settingsInfo}`,
-    `${discoverySection}`,
-    "",
-    "",
-    `${manualInstructions}`,
-  ].join("\n");
-  return <Detail markdown={markdown} />;
+  const policy = validation && switchPolicyFromPreferences(validation);
+  return (
+    <List isLoading={isLoading} navigationTitle="Discover Inputs">
+      <List.Section
+        title="Monitors"
+        subtitle={backend ? `via ${backend.title}` : undefined}
+      >
+        {backend &&
+          policy &&
+          monitors.map((monitor) => {
+            const mapping = findMapping(
+              mappings,
+              backend.id,
+              monitor.id,
+              monitors,
+            );
+            const learned = mapping?.inputs ?? [];
+            return (
+              <List.Item
+                key={monitor.id}
+                icon={Icon.Monitor}
+                title={monitor.name}
+                subtitle={monitor.serial ?? monitor.id}
+                accessories={[
+                  {
+                    text:
+                      learned.length === 0
+                        ? "Not learned"
+                        : learned.map((input) => input.name).join(" · "),
+                    tooltip: mapping?.modelId
+                      ? `From the model database (${mapping.modelId})`
+                      : undefined,
+                  },
+                ]}
+                actions={
+                  <ActionPanel>
+                    <Action.Push
+                      title="Learn Inputs"
+                      icon={Icon.Switch}
+                      target={
+                        <LearnInputs
+                          backend={backend}
+                          monitor={monitor}
+                          policy={policy}
+                          onChange={refreshMappings}
+                        />
+                      }
+                    />
+                    {detailsAction}
+                  </ActionPanel>
+                }
+              />
+            );
+          })}
+      </List.Section>
+    </List>
+  );
 }
@@ -0,0 +1,126 @@
+/**
+ * Raycast command: Export Configuration.
+ *
+ * Shows the shared configuration of this setup (see
+ * `./lib/shared-config`): the settings changed from their defaults, the
+ * learned input mappings and the desk profiles, to copy or save for
+ * teammates to bring in with "Import Configuration".
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Detail,
+  Icon,
+  Keyboard,
+  showInFinder,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { ConfigIssue } from "./lib/config-schema";
+import { writeExportFile } from "./lib/export";
+import {
+  exportSharedConfig,
+  loadEffectivePreferences,
+} from "./lib/shared-config";
+
+interface ConfigExport {
+  text: string;
+  issues: ConfigIssue[];
+}
+
+function exportMarkdown({ text, issues }: ConfigExport): string {
+  return [
+    "# Monitor Switch Configuration",
+    "",
+    "Settings changed from their defaults, learned input names and desk profiles. Teammates bring them in with **Import Configuration**.",
+    "",
+    ...(issues.length > 0
+      ? [
+          "> **Fix these first**: an import would reject the configuration.",
+          ">",
+          ...issues.map((issue) => `> - \`${issue.path}\`: ${issue.message}`),
+          "",
+        ]
+      : []),
+    "```json",
+    text,
+    "```",
+  ].join("\n");
+}
+
+export default function Command() {
+  const [exported, setExported] = useState<ConfigExport>();
+
+  const refresh = useCallback(() => {
+    setExported(undefined);
+    loadEffectivePreferences().then(exportSharedConfig).then(setExported);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const save = async () => {
+    if (!exported) {
+      return;
+    }
+    try {
+      const path = await writeExportFile(
+        "monitor-switch-config",
+        "json",
+        exported.text,
+      );
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Saved configuration",
+        message: path,
+        primaryAction: {
+          title: "Show in Finder",
+          onAction: () => showInFinder(path),
+        },
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Saving failed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <Detail
+      isLoading={exported === undefined}
+      navigationTitle="Export Configuration"
+      markdown={
+        exported
+          ? exportMarkdown(exported)
+          : "# Monitor Switch Configuration\n\nCollecting…"
+      }
+      actions={
+        exported && (
+          <ActionPanel>
+            <Action.CopyToClipboard
+              title="Copy Configuration"
+              content={exported.text}
+            />
+            <Action
+              title="Save to Downloads"
+              icon={Icon.Download}
+              shortcut={Keyboard.Shortcut.Common.Save}
+              onAction={save}
+            />
+            <Action
+              title="Export Again"
+              icon={Icon.ArrowClockwise}
+              shortcut={Keyboard.Shortcut.Common.Refresh}
+              onAction={refresh}
+            />
+          </ActionPanel>
+        )
+      }
+    />
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * Peer handoff shared by the switching commands ("Toggle Input Source",
+ * "Switch to Input").
+ *
+ * With Peer Handoff set, a command's switch goes to the agent of another
+ * computer (see `./lib/peer`): always, or when this one has no DDC/CI path
+ * to the monitor (no backend or tool, no display, no permission). Other
+ * failures, such as an invalid input code preference, stay here: the peer
+ * couldn't fix them.
+ */
+
+import { closeMainWindow, showToast, Toast } from "@raycast/api";
+import { errorMessageOf } from "./lib/backends/types";
+import { DdcFailure } from "./lib/errors";
+import {
+  localDdcUnavailable,
+  PeerConfig,
+  peerFromPreferences,
+  peerSwitchInput,
+} from "./lib/peer";
+import { loadEffectivePreferences } from "./lib/shared-config";
+import { PrerequisiteValidation, validatePrerequisites } from "./common";
+
+/** What the peer is asked to do */
+export interface HandoffRequest {
+  /** Input, "profile: <name>" or "toggle", as the agent takes them */
+  input: string;
+  monitor?: string;
+}
+
+/**
+ * A command's switch on this computer. It shows its own toasts, except for
+ * a failure `handsOff` accepts: that one is returned, for the peer to take
+ * over.
+ */
+export type LocalSwitch = (
+  validation: PrerequisiteValidation,
+  handsOff: (failure?: DdcFailure) => boolean,
+) => Promise<DdcFailure | null>;
+
+async function handOff(
+  peer: PeerConfig,
+  { input, monitor }: HandoffRequest,
+  reason?: string,
+): Promise<void> {
+  await closeMainWindow();
+  const toasting = await showToast({
+    style: Toast.Style.Animated,
+    title: "Switching!",
+    message: [`Handing ${input} off to ${peer.url}`, reason]
+      .filter(Boolean)
+      .join(": "),
+  });
+  const result = await peerSwitchInput(peer, input, monitor);
+  toasting.style =
+    result.status === "success" ? Toast.Style.Success : Toast.Style.Failure;
+  toasting.title =
+    result.status === "success" ? `✓ ${result.title}` : result.title;
+  toasting.message = result.message;
+}
+
+/**
+ * Run a command's switch here or on the peer, as the effective Peer
+ * Handoff preferences say.
+ */
+export async function switchOrHandOff(
+  request: HandoffRequest,
+  switchLocally: LocalSwitch,
+): Promise<void> {
+  let peer: PeerConfig | undefined;
+  try {
+    peer = peerFromPreferences(await loadEffectivePreferences());
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Invalid Peer Agent URL",
+      message: errorMessageOf(error),
+    });
+    return;
+  }
+  if (peer?.mode === "always") {
+    await handOff(peer, request);
+    return;
+  }
+
+  const handsOff = (failure?: DdcFailure) =>
+    peer !== undefined && localDdcUnavailable(failure);
+  const validation = await validatePrerequisites();
+  if (validation.status === "failure") {
+    if (peer && handsOff(validation.failure)) {
+      await handOff(peer, request, validation.title);
+      return;
+    }
+    await showToast({
+      style: Toast.Style.Failure,
+      title: validation.title,
+      message: validation.message,
+    });
+    return;
+  }
+  const unavailable = await switchLocally(
+    validation as PrerequisiteValidation,
+    handsOff,
+  );
+  if (peer && unavailable) {
+    await handOff(peer, request, unavailable.title);
+  }
+}
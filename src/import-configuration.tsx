@@ -0,0 +1,151 @@
+/**
+ * Raycast command: Import Configuration.
+ *
+ * Reads a shared configuration (see `./lib/shared-config`) from the
+ * clipboard or a file, then shows its problems or what importing it will
+ * change (see `./components/config-review`). Imported settings can be
+ * removed again here.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Clipboard,
+  confirmAlert,
+  Form,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { readFile } from "node:fs/promises";
+import { basename } from "node:path";
+import { useCallback, useEffect, useState } from "react";
+import { ConfigReview } from "./components/config-review";
+import { Preferences } from "./lib/extension";
+import {
+  clearImportedSettings,
+  loadImportedSettings,
+  parseSharedConfig,
+} from "./lib/shared-config";
+
+interface ImportFormValues {
+  source: "clipboard" | "file";
+  /** Only there when the source is a file */
+  files?: string[];
+}
+
+export default function Command() {
+  const { push } = useNavigation();
+  const [source, setSource] = useState<ImportFormValues["source"]>("clipboard");
+  const [fileError, setFileError] = useState<string>();
+  const [imported, setImported] = useState<Partial<Preferences>>({});
+
+  const refresh = useCallback(() => {
+    loadImportedSettings().then(setImported);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const check = async (values: ImportFormValues) => {
+    let text: string | undefined;
+    let name = "the clipboard";
+    try {
+      if (values.source === "file") {
+        const [path] = values.files ?? [];
+        if (!path) {
+          setFileError("Pick a configuration file");
+          return;
+        }
+        name = basename(path);
+        text = await readFile(path, "utf-8");
+      } else {
+        text = await Clipboard.readText();
+      }
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Could not read ${name}`,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+    if (!text?.trim()) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: `Nothing to import in ${name}`,
+      });
+      return;
+    }
+    push(<ConfigReview reading={parseSharedConfig(text)} source={name} />);
+  };
+
+  const removeImported = async () => {
+    const confirmed = await confirmAlert({
+      title: "Remove imported settings?",
+      message:
+        "Your preferences apply again. Imported input mappings and profiles stay.",
+      primaryAction: { title: "Remove", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) {
+      await clearImportedSettings();
+      refresh();
+      await showToast({
+        style: Toast.Style.Success,
+        title: "Removed imported settings",
+      });
+    }
+  };
+
+  const importedKeys = Object.keys(imported);
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Check Configuration"
+            icon={Icon.MagnifyingGlass}
+            onSubmit={check}
+          />
+          {importedKeys.length > 0 && (
+            <Action
+              title="Remove Imported Settings"
+              icon={Icon.Trash}
+              style={Action.Style.Destructive}
+              onAction={removeImported}
+            />
+          )}
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Bring in a configuration exported by a teammate: settings, learned input names and desk profiles. Nothing changes until you confirm." />
+      <Form.Dropdown
+        id="source"
+        title="Source"
+        value={source}
+        onChange={(value) => setSource(value as ImportFormValues["source"])}
+      >
+        <Form.Dropdown.Item value="clipboard" title="Clipboard" />
+        <Form.Dropdown.Item value="file" title="File" />
+      </Form.Dropdown>
+      {source === "file" && (
+        <Form.FilePicker
+          id="files"
+          title="File"
+          allowMultipleSelection={false}
+          error={fileError}
+          onChange={() => setFileError(undefined)}
+        />
+      )}
+      {importedKeys.length > 0 && (
+        <Form.Description
+          title="Imported"
+          text={`Settings in use where your preference is at its default: ${importedKeys.join(", ")}`}
+        />
+      )}
+    </Form>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * Switch actions run unattended, by the USB watcher (`./usb-watcher`) and
+ * scheduled rules (`./rules`).
+ *
+ * An action is written as an input ("HDMI-1", "0x11", a learned name),
+ * switched through `switchInput` on the Monitor(s) preference, as
+ * "profile: <name>" to apply a desk profile, or as "toggle" to move the
+ * monitors to their next input like the Toggle command.
+ */
+
+import { platform } from "node:os";
+import { DdcBackend } from "./backends";
+import { switchTargets } from "./ddc";
+import { Preferences } from "./extension";
+import { resolveInputTargets } from "./mappings";
+import { loadMonitorMappings } from "./model-mappings";
+import { resolveMonitorTargets } from "./monitors";
+import { SupportedPlatform } from "./platform";
+import { applyProfile, DeskProfile } from "./profiles";
+import { ToastResult, worstResult } from "./toast";
+import { toggleTargets } from "./toggle";
+import { switchPolicyFromPreferences } from "./verify";
+
+export type SwitchAction =
+  | { kind: "input"; input: string }
+  | { kind: "profile"; name: string }
+  | { kind: "toggle" };
+
+/**
+ * Parse an action as written in the preferences; undefined for an empty one.
+ */
+export function parseSwitchAction(text?: string): SwitchAction | undefined {
+  const trimmed = text?.trim() ?? "";
+  if (trimmed === "") {
+    return undefined;
+  }
+  if (trimmed.toLowerCase() === "toggle") {
+    return { kind: "toggle" };
+  }
+  const profile = trimmed.match(/^profile\s*:\s*(.+)$/iu);
+  return profile
+    ? { kind: "profile", name: profile[1].trim() }
+    : { kind: "input", input: trimmed };
+}
+
+/** The action as written: "DP-1", "profile: Work" or "toggle" */
+export function formatSwitchAction(action: SwitchAction): string {
+  switch (action.kind) {
+    case "profile":
+      return `profile: ${action.name}`;
+    case "toggle":
+      return "toggle";
+    default:
+      return action.input;
+  }
+}
+
+export function describeSwitchAction(action: SwitchAction): string {
+  switch (action.kind) {
+    case "profile":
+      return `apply "${action.name}"`;
+    case "toggle":
+      return "toggle the input";
+    default:
+      return `switch to ${action.input}`;
+  }
+}
+
+/**
+ * Run an action: switch the configured monitors to an input or toggle
+ * them, or apply one of `profiles`.
+ */
+export async function runSwitchAction(
+  action: SwitchAction,
+  backend: DdcBackend,
+  prefs: Preferences,
+  profiles: DeskProfile[],
+): Promise<ToastResult> {
+  const policy = switchPolicyFromPreferences(prefs);
+  if (action.kind === "profile") {
+    const profile = profiles.find(
+      (entry) => entry.name.toLowerCase() === action.name.toLowerCase(),
+    );
+    if (!profile) {
+      return {
+        status: "failure",
+        title: `No profile named "${action.name}"`,
+        message: "Check the profile name in the action",
+      };
+    }
+    return (await applyProfile(backend, profile, policy)).summary;
+  }
+
+  const monitorIds = await resolveMonitorTargets(
+    backend,
+    prefs.monitorId || "Primary",
+  );
+  if (action.kind === "toggle") {
+    const { results } = await toggleTargets(
+      backend,
+      prefs,
+      platform() as SupportedPlatform,
+      monitorIds,
+    );
+    return worstResult(results) as ToastResult;
+  }
+  const targets = resolveInputTargets(
+    backend.id,
+    action.input,
+    monitorIds,
+    await loadMonitorMappings(backend),
+  );
+  const results = await switchTargets(
+    backend,
+    [...targets].map(([inputValue, ids]) => ({ inputValue, monitorIds: ids })),
+    policy,
+  );
+  return worstResult(results) as ToastResult;
+}
@@ -0,0 +1,275 @@
+/**
+ * Monitor agent: a small HTTP/JSON server that lets another computer read
+ * and switch the inputs of this one's monitors (see `./peer` for the
+ * client).
+ *
+ * Often the computer that wants the screen can't drive it over DDC/CI (an
+ * M1 on its built-in HDMI port, a work laptop without the tools), while the
+ * other computer on the desk can. The agent runs there, started with
+ * `monitor-switch agent`, and offers one resource:
+ *
+ *   GET  /v1/input?monitor=<selector>   current input of each monitor
+ *   POST /v1/input {"input", "monitor"} switch, like "Switch to Input"
+ *
+ * `input` takes whatever "Switch to Input" does, resolved with the agent's
+ * own learned names and profiles ("profile: <name>"), or "toggle" to move
+ * the monitors to their next input (see `./actions`). Every request needs
+ * `Authorization: Bearer <token>`, the shared secret of the Agent Token
+ * setting; the agent won't start without one.
+ */
+
+import { createHash, timingSafeEqual } from "node:crypto";
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { parseSwitchAction, runSwitchAction } from "./actions";
+import { DdcBackend } from "./backends";
+import { errorMessageOf } from "./backends/types";
+import { readInputSource } from "./ddc";
+import { Preferences } from "./extension";
+import { findMapping, inputLabel } from "./mappings";
+import { loadMonitorMappings } from "./model-mappings";
+import { resolveMonitorTargets } from "./monitors";
+import { DeskProfile } from "./profiles";
+import { ToastResult } from "./toast";
+
+export const AGENT_INPUT_PATH = "/v1/input";
+
+export const DEFAULT_AGENT_PORT = 8765;
+
+/** Request bodies are a few dozen bytes; anything this large is refused */
+const MAX_BODY_BYTES = 16 * 1024;
+
+/** Time to receive a request's headers */
+const HEADERS_TIMEOUT_MS = 10_000;
+
+/** Time for a whole request, switch included */
+const REQUEST_TIMEOUT_MS = 120_000;
+
+export interface AgentInputReading {
+  monitorId: string;
+  value?: number;
+  /** Learned name or standard name of `value` */
+  label?: string;
+  error?: string;
+}
+
+/** Answer to `GET /v1/input` */
+export interface AgentInputReport {
+  status: ToastResult["status"];
+  /** Host name of the agent */
+  host: string;
+  backend: string;
+  readings: AgentInputReading[];
+}
+
+/** Body of `POST /v1/input` */
+export interface AgentSwitchRequest {
+  input: string;
+  /** Monitor selector; the agent's Monitor(s) setting when absent */
+  monitor?: string;
+}
+
+/** Answer to `POST /v1/input`, and to refused requests */
+export type AgentSwitchResponse = Pick<
+  ToastResult,
+  "status" | "title" | "message"
+> & { host?: string };
+
+export interface AgentOptions {
+  backend: DdcBackend;
+  prefs: Preferences;
+  profiles: DeskProfile[];
+  token: string;
+  host: string;
+  /** Called with one line per request */
+  log?: (line: string) => void;
+}
+
+/**
+ * Compare a presented token with the expected one in constant time.
+ */
+export function tokenMatches(expected: string, presented?: string): boolean {
+  const digest = (text: string) => createHash("sha256").update(text).digest();
+  return (
+    presented !== undefined &&
+    timingSafeEqual(digest(expected), digest(presented))
+  );
+}
+
+function bearerToken(request: IncomingMessage): string | undefined {
+  return request.headers.authorization?.match(/^Bearer\s+(.+)$/iu)?.[1];
+}
+
+function sendJson(
+  response: ServerResponse,
+  statusCode: number,
+  body: AgentInputReport | AgentSwitchResponse,
+): void {
+  response.writeHead(statusCode, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+function refusal(title: string, message: string): AgentSwitchResponse {
+  return { status: "failure", title, message };
+}
+
+async function readJsonBody(request: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error("Request body too large");
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString("utf-8")) as unknown;
+}
+
+/**
+ * Read the current input of the monitors a selector targets.
+ */
+export async function readAgentInputs(
+  { backend, prefs, host }: AgentOptions,
+  monitor?: string,
+): Promise<AgentInputReport> {
+  const monitorIds = await resolveMonitorTargets(
+    backend,
+    monitor?.trim() || prefs.monitorId || "Primary",
+  );
+  const known = await loadMonitorMappings(backend);
+  const readings = await Promise.all(
+    monitorIds.map(async (monitorId): Promise<AgentInputReading> => {
+      const reading = await readInputSource(backend, monitorId);
+      if (reading.currentValue === undefined) {
+        return { monitorId, error: reading.error };
+      }
+      const mapping = findMapping(
+        known.mappings,
+        backend.id,
+        monitorId,
+        known.monitors,
+      );
+      return {
+        monitorId,
+        value: reading.currentValue,
+        label: inputLabel(reading.currentValue, mapping),
+      };
+    }),
+  );
+  return {
+    status: readings.some((reading) => reading.error) ? "soft-fail" : "success",
+    host,
+    backend: backend.id,
+    readings,
+  };
+}
+
+/**
+ * Switch the monitors a request targets.
+ */
+export async function switchAgentInput(
+  { backend, prefs, profiles, host }: AgentOptions,
+  request: AgentSwitchRequest,
+): Promise<AgentSwitchResponse> {
+  const action = parseSwitchAction(request.input);
+  if (!action) {
+    return refusal("No input given", 'Send {"input": "HDMI-1"}');
+  }
+  const { status, title, message } = await runSwitchAction(
+    action,
+    backend,
+    { ...prefs, monitorId: request.monitor?.trim() || prefs.monitorId },
+    profiles,
+  );
+  return { status, title, message, host };
+}
+
+function isSwitchRequest(body: unknown): body is AgentSwitchRequest {
+  if (typeof body !== "object" || body === null) {
+    return false;
+  }
+  const { input, monitor } = body as Record<string, unknown>;
+  return (
+    typeof input === "string" &&
+    (monitor === undefined || typeof monitor === "string")
+  );
+}
+
+async function handleRequest(
+  options: AgentOptions,
+  request: IncomingMessage,
+  response: ServerResponse,
+): Promise<number> {
+  if (!tokenMatches(options.token, bearerToken(request))) {
+    sendJson(response, 401, refusal("Unauthorized", "Wrong or missing token"));
+    return 401;
+  }
+  const url = new URL(request.url ?? "/", "http://agent");
+  if (url.pathname !== AGENT_INPUT_PATH) {
+    sendJson(response, 404, refusal("Not found", url.pathname));
+    return 404;
+  }
+  if (request.method === "GET") {
+    const monitor = url.searchParams.get("monitor") ?? undefined;
+    sendJson(response, 200, await readAgentInputs(options, monitor));
+    return 200;
+  }
+  if (request.method !== "POST") {
+    response.setHeader("Allow", "GET, POST");
+    sendJson(response, 405, refusal("Method not allowed", "Use GET or POST"));
+    return 405;
+  }
+
+  let body: unknown;
+  try {
+    body = await readJsonBody(request);
+  } catch (error) {
+    sendJson(response, 400, refusal("Invalid request", errorMessageOf(error)));
+    return 400;
+  }
+  if (!isSwitchRequest(body)) {
+    sendJson(
+      response,
+      400,
+      refusal("Invalid request", 'Send {"input": "HDMI-1", "monitor": "all"}'),
+    );
+    return 400;
+  }
+  sendJson(response, 200, await switchAgentInput(options, body));
+  return 200;
+}
+
+/**
+ * Create the agent's HTTP server; the caller starts it with `listen`.
+ */
+export function createAgentServer(options: AgentOptions): Server {
+  if (!options.token) {
+    throw new Error("Set an agent token before starting the agent");
+  }
+  const server = createServer((request, response) => {
+    handleRequest(options, request, response)
+      .catch((error: unknown) => {
+        if (!response.headersSent) {
+          sendJson(
+            response,
+            500,
+            refusal("Agent error", options.backend.describeError(error)),
+          );
+        }
+        return 500;
+      })
+      .then((statusCode) =>
+        options.log?.(
+          `${request.method} ${request.url} ${statusCode} from ${request.socket.remoteAddress}`,
+        ),
+      );
+  });
+  server.headersTimeout = HEADERS_TIMEOUT_MS;
+  server.requestTimeout = REQUEST_TIMEOUT_MS;
+  return server;
+}
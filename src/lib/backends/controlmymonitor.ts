@@ -0,0 +1,192 @@
+/**
+ * Windows backend using ControlMyMonitor.exe from NirSoft.
+ */
+
+import { parsePnpMonitorId } from "../ddcci/edid";
+import { catalogErrorHandling, DdcErrorCatalog } from "../errors";
+import { runChecked, runTool } from "../exec";
+import { DdcBackend, Monitor, vcpHex } from "./types";
+
+const CONTROLMYMONITOR_ERRORS: DdcErrorCatalog = {
+  patterns: [{ kind: "no-display", pattern: /monitor .*not found/iu }],
+  hints: {
+    "tool-missing":
+      "Download ControlMyMonitor from https://www.nirsoft.net/utils/controlmymonitor.zip, extract it and set ControlMyMonitor Path in the preferences.",
+    "no-display":
+      "Open the ControlMyMonitor GUI to check the monitor is listed and DDC/CI works, and that Monitor(s) matches its device name.",
+    "permission-denied":
+      "Windows denied access to the monitor. Try running Raycast without other DDC tools (monitor vendor apps) holding the display.",
+  },
+};
+
+export function createControlMyMonitorBackend(exePath: string): DdcBackend {
+  // An empty file name makes NirSoft tools write to stdout
+  const displayList = () => runChecked(exePath, ["/smonitors", ""]);
+
+  return {
+    id: "controlmymonitor",
+    title: "ControlMyMonitor",
+    manualReadCommand:
+      "```powershell\n.\\ControlMyMonitor.exe /GetValue Primary 60\necho $LASTEXITCODE\n```",
+
+    async listDisplays() {
+      return parseControlMyMonitorList(await displayList());
+    },
+
+    rawDisplayList: () => displayList(),
+
+    async toolVersion() {
+      // ControlMyMonitor has no version switch; its file version is it
+      const version = await runChecked("powershell.exe", [
+        "-NoProfile",
+        "-NonInteractive",
+        "-Command",
+        `(Get-Item -LiteralPath '${exePath.replaceAll("'", "''")}').VersionInfo.FileVersion`,
+      ]);
+      return `ControlMyMonitor ${version.trim()}`;
+    },
+
+    async getVcp(monitorId, vcpCode) {
+      // /GetValue reports the value through the process exit code
+      const result = await runTool(exePath, [
+        "/GetValue",
+        monitorId,
+        vcpHex(vcpCode),
+      ]);
+      if (result.exitCode === null) {
+        throw new Error(`ControlMyMonitor was killed: ${result.stderr}`);
+      }
+      return result.exitCode;
+    },
+
+    async getVcpMax(monitorId, vcpCode) {
+      return maxValueFromScomma(
+        await runChecked(exePath, ["/scomma", "", monitorId]),
+        vcpCode,
+      );
+    },
+
+    setVcp: (monitorId, vcpCode, value) =>
+      runChecked(exePath, [
+        "/SetValue",
+        monitorId,
+        vcpHex(vcpCode),
+        String(value),
+      ]),
+
+    async getCapabilities(monitorId) {
+      return capabilitiesFromScomma(
+        await runChecked(exePath, ["/scomma", "", monitorId]),
+      );
+    },
+
+    ...catalogErrorHandling("ControlMyMonitor", CONTROLMYMONITOR_ERRORS),
+  };
+}
+
+/**
+ * Parse `ControlMyMonitor /smonitors` output.
+ *
+ * Monitors are printed as blank-line separated blocks of `Key: "value"`
+ * lines. "Monitor Device Name" (e.g. `\\.\DISPLAY1\Monitor0`) is the ID
+ * ControlMyMonitor accepts on its command line; the PnP "Monitor ID"
+ * carries the EDID manufacturer and product code.
+ */
+export function parseControlMyMonitorList(output: string): Monitor[] {
+  const monitors: Monitor[] = [];
+  for (const block of output.split(/\r?\n\s*\r?\n/u)) {
+    const fields = new Map<string, string>();
+    for (const line of block.split(/\r?\n/u)) {
+      const match = line.match(/^\s*([^:]+?)\s*:\s*"?(.*?)"?\s*$/u);
+      if (match) {
+        fields.set(match[1].toLowerCase(), match[2]);
+      }
+    }
+    const deviceName = fields.get("monitor device name");
+    if (!deviceName) {
+      continue;
+    }
+    const modelName = fields.get("monitor name") || undefined;
+    monitors.push({
+      index: monitors.length + 1,
+      name: modelName ?? deviceName,
+      serial: fields.get("serial number") || undefined,
+      id: deviceName,
+      identity: {
+        ...parsePnpMonitorId(fields.get("monitor id") ?? ""),
+        model: modelName,
+      },
+    });
+  }
+  return monitors;
+}
+
+/**
+ * Rebuild an MCCS capabilities string from `ControlMyMonitor /scomma` output.
+ *
+ * ControlMyMonitor doesn't print the raw capabilities string; its CSV export
+ * lists one VCP code per row, with the allowed values of non-continuous
+ * codes as a decimal, comma-separated "Possible Values" column:
+ *
+ *   VCP Code,VCP Code Name,Read-Write,Current Value,Maximum Value,Possible Values
+ *   60,Input Select,Read+Write,17,18,"15,17,18"
+ */
+export function capabilitiesFromScomma(csv: string): string {
+  const rows = csv
+    .split(/\r?\n/u)
+    .map((line) => parseCsvLine(line))
+    .filter((row) => /^[0-9a-f]{2}$/iu.test(row[0] ?? ""));
+  const features = rows.map((row) => {
+    const values = (row[5] ?? "")
+      .split(",")
+      .map((value) => parseInt(value.trim(), 10))
+      .filter((value) => !isNaN(value));
+    const code = row[0].toUpperCase();
+    return values.length === 0
+      ? code
+      : `${code}(${values.map((value) => vcpHex(value)).join(" ")})`;
+  });
+  return `(vcp(${features.join(" ")}))`;
+}
+
+/**
+ * "Maximum Value" column of one VCP code in `ControlMyMonitor /scomma` output.
+ */
+export function maxValueFromScomma(
+  csv: string,
+  vcpCode: number,
+): number | undefined {
+  const row = csv
+    .split(/\r?\n/u)
+    .map((line) => parseCsvLine(line))
+    .find((fields) => fields[0]?.toUpperCase() === vcpHex(vcpCode));
+  const max = parseInt(row?.[4] ?? "", 10);
+  return isNaN(max) ? undefined : max;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields.
+ */
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let position = 0; position < line.length; position += 1) {
+    const char = line[position];
+    if (char === '"') {
+      if (quoted && line[position + 1] === '"') {
+        field += '"';
+        position += 1;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === "," && !quoted) {
+      fields.push(field);
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
@@ -0,0 +1,178 @@
+/**
+ * Linux backend using ddcutil (requires the i2c-dev kernel module).
+ */
+
+import { catalogErrorHandling, DdcErrorCatalog } from "../errors";
+import { runChecked } from "../exec";
+import { DdcBackend, isDefaultMonitor, Monitor, vcpHex } from "./types";
+
+/**
+ * ddcutil failures.
+ *
+ * ddcutil needs read/write access to /dev/i2c-* which most distributions
+ * only grant to the `i2c` group, and the i2c-dev module must be loaded.
+ */
+const DDCUTIL_ERRORS: DdcErrorCatalog = {
+  patterns: [
+    { kind: "permission-denied", pattern: /EACCES|Permission denied/iu },
+    { kind: "tool-missing", pattern: /i2c-dev|No \/dev\/i2c/iu },
+    {
+      kind: "unsupported-vcp",
+      pattern:
+        /DDCRC_(?:REPORTED|DETERMINED)_UNSUPPORTED|Unsupported feature/iu,
+    },
+    { kind: "bus-busy", pattern: /DDCRC_/u },
+  ],
+  hints: {
+    "tool-missing":
+      "Install ddcutil (`sudo apt install ddcutil` or your distro's equivalent) and load the I2C driver: `sudo modprobe i2c-dev`.",
+    "permission-denied":
+      "Add your user to the i2c group (`sudo usermod -aG i2c $USER`) and log in again.",
+    "no-display":
+      "Run `ddcutil detect` to see what ddcutil finds. With several monitors, set Monitor(s) to a display number (`2`) or an I2C bus (`bus=5`).",
+  },
+};
+
+export function createDdcutilBackend(exePath: string): DdcBackend {
+  const run = (monitorId: string, args: string[]) =>
+    runChecked(exePath, [...ddcutilDisplayArgs(monitorId), ...args]);
+
+  const displayList = () => runChecked(exePath, ["detect", "--brief"]);
+
+  return {
+    id: "ddcutil",
+    title: "ddcutil",
+    manualReadCommand: "```bash\nddcutil getvcp 60\n```",
+
+    async listDisplays() {
+      return parseDdcutilDetect(await displayList());
+    },
+
+    rawDisplayList: () => displayList(),
+
+    async toolVersion() {
+      // The first line is "ddcutil <version>"; the rest is build details
+      return (await runChecked(exePath, ["--version"])).split("\n")[0];
+    },
+
+    async getVcp(monitorId, vcpCode) {
+      return parseBriefGetvcp(
+        await run(monitorId, ["--brief", "getvcp", vcpHex(vcpCode)]),
+      ).current;
+    },
+
+    async getVcpMax(monitorId, vcpCode) {
+      return parseBriefGetvcp(
+        await run(monitorId, ["--brief", "getvcp", vcpHex(vcpCode)]),
+      ).max;
+    },
+
+    setVcp: (monitorId, vcpCode, value) =>
+      run(monitorId, ["setvcp", vcpHex(vcpCode), String(value)]),
+
+    // Only the verbose report includes the unparsed capabilities string
+    getCapabilities: (monitorId) =>
+      run(monitorId, ["capabilities", "--verbose"]),
+
+    ...catalogErrorHandling("ddcutil", DDCUTIL_ERRORS),
+  };
+}
+
+/**
+ * Translate a ddcutil monitor selector into its display selection flags.
+ *
+ * - "Primary" or empty: no flag (ddcutil defaults to the first display)
+ * - "2": `--display 2`
+ * - "bus=5", "bus:5", "i2c-5" or "/dev/i2c-5": `--bus 5`
+ */
+function ddcutilDisplayArgs(monitorId: string): string[] {
+  const selector = monitorId.trim();
+  if (isDefaultMonitor(selector)) {
+    return [];
+  }
+  if (/^\d+$/u.test(selector)) {
+    return ["--display", selector];
+  }
+  const busMatch = selector.match(/^(?:bus[=:]?|(?:\/dev\/)?i2c-)(\d+)$/iu);
+  if (busMatch) {
+    return ["--bus", busMatch[1]];
+  }
+  throw new Error(
+    `Invalid monitor selector "${monitorId}". Use a display number (e.g. 2) or an I2C bus (e.g. bus=5).`,
+  );
+}
+
+/**
+ * Parse `ddcutil detect --brief` output.
+ *
+ * Valid displays start with "Display <n>" followed by indented details,
+ * including "I2C bus: /dev/i2c-<n>" and "Monitor: <mfg>:<model>:<serial>".
+ * "Invalid display" blocks (no DDC/CI support) are skipped. The bus is used
+ * as ID since it stays stable when other monitors are unplugged.
+ */
+export function parseDdcutilDetect(output: string): Monitor[] {
+  const monitors: Monitor[] = [];
+  let current: Monitor | undefined;
+  for (const line of output.split("\n")) {
+    const displayMatch = line.match(/^Display\s+(\d+)/u);
+    if (displayMatch) {
+      current = {
+        index: parseInt(displayMatch[1], 10),
+        name: `Display ${displayMatch[1]}`,
+        id: displayMatch[1],
+      };
+      monitors.push(current);
+      continue;
+    }
+    if (/^\S/u.test(line)) {
+      // Any other unindented line ("Invalid display", ...) ends the block
+      current = undefined;
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    const busMatch = line.match(/I2C bus:\s*\/dev\/i2c-(\d+)/u);
+    if (busMatch) {
+      current.id = `bus=${busMatch[1]}`;
+    }
+    const monitorMatch = line.match(/Monitor:\s*([^:]*):([^:]*):(.*)$/u);
+    if (monitorMatch) {
+      current.name = monitorMatch[2].trim() || current.name;
+      current.serial = monitorMatch[3].trim() || undefined;
+      current.identity = {
+        manufacturer: monitorMatch[1].trim() || undefined,
+        model: monitorMatch[2].trim() || undefined,
+      };
+    }
+  }
+  return monitors;
+}
+
+/**
+ * Parse `ddcutil --brief getvcp` output.
+ *
+ * - Non-continuous features: "VCP 60 SNC x0f"
+ * - Continuous features: "VCP 10 C 50 100" (current, then max)
+ */
+function parseBriefGetvcp(output: string): {
+  current: number;
+  max?: number;
+} {
+  const tokens = output.split(/\s+/u);
+  if (
+    tokens[0] === "VCP" &&
+    tokens[2] === "SNC" &&
+    tokens[3]?.startsWith("x")
+  ) {
+    return { current: parseInt(tokens[3].slice(1), 16) };
+  }
+  if (tokens[0] === "VCP" && tokens[2] === "C") {
+    const max = parseInt(tokens[4], 10);
+    return {
+      current: parseInt(tokens[3], 10),
+      max: isNaN(max) ? undefined : max,
+    };
+  }
+  throw new Error(`Unexpected ddcutil output: ${output}`);
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  createSimulatedMonitor,
+  SimulatedMonitor,
+} from "../ddcci/simulated-monitor";
+import { I2cTransport } from "../ddcci/transport";
+import { busOfMonitorId, createI2cBackend } from "./i2c";
+
+/**
+ * A machine with monitors on buses 3 and 5, and an SMBus controller on 4
+ * that answers no DDC/CI or EDID reads.
+ */
+function simulatedBuses() {
+  const monitors = new Map<number, SimulatedMonitor>([
+    [3, createSimulatedMonitor({ model: "DELL U2720Q", serial: "DELL01" })],
+    [
+      5,
+      createSimulatedMonitor({
+        model: "LG HDR 4K",
+        serial: "LG0001",
+        values: { 0x60: 0x11, 0x62: 40 },
+      }),
+    ],
+  ]);
+  const opened: number[] = [];
+  const closed: number[] = [];
+  const smbus: I2cTransport = {
+    name: "/dev/i2c-4",
+    write: () => Promise.reject(new Error("EREMOTEIO")),
+    read: () => Promise.reject(new Error("EREMOTEIO")),
+    close: () => Promise.resolve(),
+  };
+  const backend = createI2cBackend({
+    listBuses: () => Promise.resolve([3, 4, 5]),
+    openTransport: (bus) => {
+      opened.push(bus);
+      const transport = monitors.get(bus)?.transport ?? smbus;
+      return Promise.resolve({
+        ...transport,
+        close: () => {
+          closed.push(bus);
+          return transport.close();
+        },
+      });
+    },
+    timing: { replyDelayMs: 0, commandGapMs: 0, attempts: 2 },
+  });
+  return { backend, monitors, opened, closed };
+}
+
+describe("busOfMonitorId", () => {
+  it("accepts ddcutil and device path syntax", () => {
+    expect(busOfMonitorId("bus=5")).toBe(5);
+    expect(busOfMonitorId("/dev/i2c-7")).toBe(7);
+    expect(busOfMonitorId("i2c-2")).toBe(2);
+    expect(busOfMonitorId("2")).toBeUndefined();
+  });
+});
+
+describe("native I2C backend", () => {
+  it("lists the buses whose EDID names a monitor", async () => {
+    const { backend, closed } = simulatedBuses();
+    const monitors = await backend.listDisplays();
+    expect(monitors).toMatchObject([
+      { index: 1, id: "bus=3", name: "DELL U2720Q", serial: "DELL01" },
+      { index: 2, id: "bus=5", name: "LG HDR 4K", serial: "LG0001" },
+    ]);
+    expect(monitors[0].identity?.manufacturer).toBe("SIM");
+    // The SMBus controller isn't kept open
+    expect(closed).toEqual([4]);
+  });
+
+  it("reads and writes through the monitor's bus", async () => {
+    const { backend, monitors } = simulatedBuses();
+    expect(await backend.getVcp("bus=5", 0x60)).toBe(0x11);
+    await backend.setVcp("bus=5", 0x60, 0x0f);
+    expect(monitors.get(5)?.values.get(0x60)).toBe(0x0f);
+    expect(await backend.getVcp("bus=5", 0x60)).toBe(0x0f);
+    expect(await backend.getVcpMax("bus=5", 0x62)).toBe(100);
+  });
+
+  it("resolves Primary and display numbers through the EDID scan", async () => {
+    const { backend } = simulatedBuses();
+    expect(await backend.getVcp("Primary", 0x62)).toBe(30);
+    expect(await backend.getVcp("2", 0x62)).toBe(40);
+    await expect(backend.getVcp("3", 0x62)).rejects.toThrow(
+      'No displays found matching "3"',
+    );
+  });
+
+  it("opens each bus once for every operation on it", async () => {
+    const { backend, opened } = simulatedBuses();
+    await backend.setVcp("bus=3", 0x10, 80);
+    await Promise.all([
+      backend.getVcp("bus=3", 0x10),
+      backend.getVcp("bus=3", 0x12),
+      backend.getCapabilities("bus=3"),
+    ]);
+    expect(opened).toEqual([3]);
+  });
+
+  it("classifies a silent bus as no display", async () => {
+    const { backend } = simulatedBuses();
+    const error = await backend
+      .getVcp("bus=4", 0x60)
+      .catch((reason: unknown) => reason);
+    expect(backend.classifyError(error).kind).toBe("no-display");
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Linux backend speaking DDC/CI directly over `/dev/i2c-N`, without ddcutil.
+ *
+ * The protocol lives in `../ddcci`; this backend maps monitor IDs to I2C
+ * buses. Monitors are found by reading EDID on every bus, and their IDs use
+ * ddcutil's `bus=N` syntax, so selectors carry over between the two.
+ *
+ * Each bus keeps one open client for the life of the process, so the
+ * client's queue and inter-command gap also space out separate operations
+ * (a write and the reads verifying it, or two overlapping switches).
+ */
+
+import {
+  createDdcCiClient,
+  DdcCiClient,
+  DdcCiTiming,
+  DEFAULT_DDC_CI_TIMING,
+} from "../ddcci/client";
+import { parseEdidSummary } from "../ddcci/edid";
+import {
+  I2cTransport,
+  listI2cBuses,
+  openI2cDevTransport,
+} from "../ddcci/transport";
+import { catalogErrorHandling, DdcErrorCatalog } from "../errors";
+import { DdcBackend, isDefaultMonitor, Monitor } from "./types";
+
+const I2C_ERRORS: DdcErrorCatalog = {
+  patterns: [
+    { kind: "tool-missing", pattern: /i2c-bus module|load the i2c-dev/iu },
+    { kind: "no-display", pattern: /not answering|ENXIO|EREMOTEIO/iu },
+  ],
+  hints: {
+    "tool-missing":
+      "Load the I2C driver (`sudo modprobe i2c-dev`) and reinstall the extension so its optional i2c-bus module is built.",
+    "permission-denied":
+      "Add your user to the i2c group (`sudo usermod -aG i2c $USER`) and log in again.",
+    "no-display":
+      "No monitor answered on that bus. Check DDC/CI is enabled in the monitor's OSD, and set Monitor(s) to a bus from `ls /dev/i2c-*` (e.g. `bus=5`).",
+  },
+};
+
+/** Hooks to swap the hardware for a simulation */
+export interface I2cBackendOptions {
+  listBuses?: () => Promise<number[]>;
+  openTransport?: (bus: number) => Promise<I2cTransport>;
+  timing?: DdcCiTiming;
+}
+
+interface BusClient {
+  transport: I2cTransport;
+  client: DdcCiClient;
+}
+
+/** Clients of the opened `/dev/i2c-N` buses, by bus path */
+const devBusClients = new Map<string, Promise<BusClient>>();
+
+/**
+ * Bus number of a `bus=N`, `/dev/i2c-N` or `i2c-N` monitor ID.
+ */
+export function busOfMonitorId(monitorId: string): number | undefined {
+  const match = monitorId.trim().match(/^(?:bus=|\/dev\/i2c-|i2c-)(\d+)$/iu);
+  return match ? Number(match[1]) : undefined;
+}
+
+export function createI2cBackend(options: I2cBackendOptions = {}): DdcBackend {
+  const listBuses = options.listBuses ?? (() => listI2cBuses());
+  const openTransport = options.openTransport ?? openI2cDevTransport;
+  const timing = options.timing ?? DEFAULT_DDC_CI_TIMING;
+  // A simulated bus belongs to its backend; real buses to the process
+  const busClients = options.openTransport
+    ? new Map<string, Promise<BusClient>>()
+    : devBusClients;
+
+  const clientOf = (bus: number): Promise<BusClient> => {
+    const path = `/dev/i2c-${bus}`;
+    let busClient = busClients.get(path);
+    if (!busClient) {
+      busClient = openTransport(bus).then((transport) => ({
+        transport,
+        client: createDdcCiClient(transport, timing),
+      }));
+      busClients.set(path, busClient);
+      // A bus that failed to open is tried again by the next operation
+      busClient.catch(() => busClients.delete(path));
+    }
+    return busClient;
+  };
+
+  const closeBus = async (bus: number): Promise<void> => {
+    const path = `/dev/i2c-${bus}`;
+    const busClient = busClients.get(path);
+    busClients.delete(path);
+    await busClient
+      ?.then(({ transport }) => transport.close())
+      .catch(() => null);
+  };
+
+  const withClient = async <T>(
+    bus: number,
+    operation: (client: DdcCiClient) => Promise<T>,
+  ): Promise<T> => operation((await clientOf(bus)).client);
+
+  const listDisplays = async (): Promise<Monitor[]> => {
+    const monitors: Monitor[] = [];
+    for (const bus of await listBuses()) {
+      // Buses without a display (SMBus, GPU internals) fail or return junk,
+      // and aren't kept open
+      let edid: Uint8Array;
+      try {
+        edid = await withClient(bus, (client) => client.readEdid());
+      } catch {
+        await closeBus(bus);
+        continue;
+      }
+      const summary = parseEdidSummary(edid);
+      if (!summary) {
+        await closeBus(bus);
+        continue;
+      }
+      monitors.push({
+        index: monitors.length + 1,
+        name: summary.name ?? `${summary.manufacturer} monitor`,
+        serial: summary.serial,
+        id: `bus=${bus}`,
+        identity: {
+          manufacturer: summary.manufacturer,
+          productCode: summary.productCode,
+          model: summary.name,
+        },
+      });
+    }
+    return monitors;
+  };
+
+  const busOf = async (monitorId: string): Promise<number> => {
+    const bus = busOfMonitorId(monitorId);
+    if (bus !== undefined) {
+      return bus;
+    }
+    const monitors = await listDisplays();
+    const monitor = isDefaultMonitor(monitorId)
+      ? monitors[0]
+      : monitors.find((candidate) => String(candidate.index) === monitorId);
+    if (!monitor) {
+      throw new Error(`No displays found matching "${monitorId}"`);
+    }
+    return busOfMonitorId(monitor.id) as number;
+  };
+
+  return {
+    id: "i2c",
+    title: "Native I2C",
+    manualReadCommand: "```bash\nls -l /dev/i2c-*\ngroups   # needs i2c\n```",
+
+    listDisplays,
+
+    async rawDisplayList() {
+      const buses = await listBuses();
+      const monitors = await listDisplays();
+      return [
+        `I2C buses: ${buses.map((bus) => `/dev/i2c-${bus}`).join(", ")}`,
+        ...monitors.map(
+          (monitor) =>
+            `${monitor.id}: ${monitor.name}${monitor.serial ? ` (serial ${monitor.serial})` : ""}`,
+        ),
+      ].join("\n");
+    },
+
+    toolVersion: () =>
+      Promise.resolve("built-in DDC/CI client (no external tool)"),
+
+    async getVcp(monitorId, vcpCode) {
+      return (
+        await withClient(await busOf(monitorId), (client) =>
+          client.getVcp(vcpCode),
+        )
+      ).current;
+    },
+
+    async getVcpMax(monitorId, vcpCode) {
+      const { max } = await withClient(await busOf(monitorId), (client) =>
+        client.getVcp(vcpCode),
+      );
+      return max > 0 ? max : undefined;
+    },
+
+    async setVcp(monitorId, vcpCode, value) {
+      const bus = await busOf(monitorId);
+      await withClient(bus, (client) => client.setVcp(vcpCode, value));
+      return `Set VCP 0x${vcpCode.toString(16)} to ${value} on /dev/i2c-${bus}`;
+    },
+
+    async getCapabilities(monitorId) {
+      return withClient(await busOf(monitorId), (client) =>
+        client.getCapabilities(),
+      );
+    },
+
+    ...catalogErrorHandling("I2C", I2C_ERRORS),
+  };
+}
@@ -0,0 +1,131 @@
+/**
+ * Backend registry.
+ *
+ * Picks a DDC/CI backend from the host platform and the `ddcBackend`
+ * preference. "auto" maps each platform to its native tool.
+ */
+
+import { environment } from "@raycast/api";
+import { join } from "node:path";
+import type { Preferences } from "../extension";
+import type { SupportedPlatform } from "../platform";
+import { createControlMyMonitorBackend } from "./controlmymonitor";
+import { createDdcutilBackend } from "./ddcutil";
+import { createI2cBackend } from "./i2c";
+import { createM1ddcBackend } from "./m1ddc";
+import { createPowerShellBackend } from "./powershell";
+import { createSimulatedBackend } from "./simulated";
+import { BackendId, DdcBackend } from "./types";
+
+export type { BackendId, DdcBackend, Monitor, MonitorIdentity } from "./types";
+
+export interface BackendDescriptor {
+  id: BackendId;
+  /** Platforms the backend can run on */
+  platforms: SupportedPlatform[];
+  /** External executable the backend shells out to, if any */
+  tool?: {
+    name: string;
+    path: (prefs: Preferences) => string;
+    installHint: string;
+  };
+  create: (prefs: Preferences) => DdcBackend;
+}
+
+const ALL_PLATFORMS: SupportedPlatform[] = ["darwin", "win32", "linux"];
+
+/** Script wrapping the bundled MonitorConfig module (see `./powershell`) */
+const monitorControlScript = () =>
+  join(environment.assetsPath, "scripts", "monitor-control.ps1");
+
+const BACKENDS: Record<BackendId, BackendDescriptor> = {
+  m1ddc: {
+    id: "m1ddc",
+    platforms: ["darwin"],
+    tool: {
+      name: "m1ddc",
+      path: (prefs) => prefs.m1ddcPath,
+      installHint:
+        "Install via: brew install m1ddc and set the path in extension preferences.",
+    },
+    create: (prefs) => createM1ddcBackend(prefs.m1ddcPath),
+  },
+  controlmymonitor: {
+    id: "controlmymonitor",
+    platforms: ["win32"],
+    tool: {
+      name: "ControlMyMonitor.exe",
+      path: (prefs) => prefs.controlMyMonitorPath,
+      installHint:
+        "Download from https://www.nirsoft.net/utils/controlmymonitor.zip and set the path in extension preferences.",
+    },
+    create: (prefs) =>
+      createControlMyMonitorBackend(prefs.controlMyMonitorPath),
+  },
+  powershell: {
+    id: "powershell",
+    platforms: ["win32"],
+    tool: {
+      name: "monitor-control.ps1",
+      path: () => monitorControlScript(),
+      installHint:
+        "The script ships with the extension; reinstall the extension to restore it.",
+    },
+    create: () => createPowerShellBackend(monitorControlScript()),
+  },
+  ddcutil: {
+    id: "ddcutil",
+    platforms: ["linux"],
+    tool: {
+      name: "ddcutil",
+      path: (prefs) => prefs.ddcutilPath,
+      installHint:
+        "Install via your package manager (e.g. apt install ddcutil) and set the path in extension preferences.",
+    },
+    create: (prefs) => createDdcutilBackend(prefs.ddcutilPath),
+  },
+  i2c: {
+    id: "i2c",
+    platforms: ["linux"],
+    create: () => createI2cBackend(),
+  },
+  simulated: {
+    id: "simulated",
+    platforms: ALL_PLATFORMS,
+    create: () => createSimulatedBackend(),
+  },
+};
+
+/** Every backend, as named by the `ddcBackend` preference */
+export const BACKEND_IDS = Object.keys(BACKENDS) as BackendId[];
+
+/** Native backend used when the preference is left on "auto" */
+const PLATFORM_DEFAULTS: Record<SupportedPlatform, BackendId> = {
+  darwin: "m1ddc",
+  win32: "controlmymonitor",
+  linux: "ddcutil",
+};
+
+/**
+ * Resolve the backend descriptor selected by the preferences.
+ */
+export function selectBackend(
+  platformOs: SupportedPlatform,
+  prefs: Preferences,
+): BackendDescriptor {
+  const preferred = prefs.ddcBackend;
+  if (preferred && preferred !== "auto" && preferred in BACKENDS) {
+    return BACKENDS[preferred as BackendId];
+  }
+  return BACKENDS[PLATFORM_DEFAULTS[platformOs]];
+}
+
+/**
+ * Instantiate the backend selected by the preferences.
+ */
+export function createBackend(
+  platformOs: SupportedPlatform,
+  prefs: Preferences,
+): DdcBackend {
+  return selectBackend(platformOs, prefs).create(prefs);
+}
@@ -0,0 +1,119 @@
+/**
+ * macOS backend using the m1ddc CLI tool (Apple Silicon only).
+ *
+ * m1ddc does not take raw VCP codes; it exposes a fixed set of named
+ * attributes, so only the codes in `M1DDC_ATTRIBUTES` are reachable.
+ */
+
+import { catalogErrorHandling, DdcErrorCatalog } from "../errors";
+import { runChecked, runTool } from "../exec";
+import { DdcBackend, isDefaultMonitor, Monitor, vcpHex } from "./types";
+
+/** VCP codes m1ddc understands, keyed to its attribute names */
+const M1DDC_ATTRIBUTES: Record<number, string> = {
+  0x10: "luminance",
+  0x12: "contrast",
+  0x60: "input",
+  0x62: "volume",
+  0x8d: "mute",
+};
+
+const M1DDC_ERRORS: DdcErrorCatalog = {
+  patterns: [],
+  hints: {
+    "tool-missing":
+      "Install m1ddc with `brew install m1ddc`, then check m1ddc Path in the preferences.",
+    "no-display":
+      "Run `m1ddc display list` to see what m1ddc detects. The built-in HDMI port of M1 Macs doesn't support DDC/CI; use USB-C/Thunderbolt instead.",
+    "bus-busy":
+      "DDC/CI communication failed. Try again, try a different cable, or check the monitor's DDC/CI setting.",
+    "unsupported-vcp":
+      "m1ddc only supports brightness, contrast, input, volume and mute.",
+  },
+};
+
+export function createM1ddcBackend(exePath: string): DdcBackend {
+  // m1ddc selects a display with a leading `display <n|uuid>` argument
+  const run = (monitorId: string, args: string[]) =>
+    runChecked(
+      exePath,
+      isDefaultMonitor(monitorId) ? args : ["display", monitorId, ...args],
+    );
+
+  const attributeFor = (vcpCode: number): string => {
+    const attribute = M1DDC_ATTRIBUTES[vcpCode];
+    if (!attribute) {
+      throw new Error(`m1ddc does not support VCP code 0x${vcpHex(vcpCode)}`);
+    }
+    return attribute;
+  };
+
+  const displayList = () => runChecked(exePath, ["display", "list"]);
+
+  return {
+    id: "m1ddc",
+    title: "m1ddc",
+    manualReadCommand: "```bash\nm1ddc get input\n```",
+
+    async listDisplays() {
+      return parseM1ddcDisplayList(await displayList());
+    },
+
+    rawDisplayList: () => displayList(),
+
+    async toolVersion() {
+      const { stdout, stderr } = await runTool(exePath, ["version"]);
+      return (stdout || stderr).trim();
+    },
+
+    async getVcp(monitorId, vcpCode) {
+      const output = await run(monitorId, ["get", attributeFor(vcpCode)]);
+      const value = parseInt(output, 10);
+      if (isNaN(value)) {
+        throw new TypeError(`Unexpected m1ddc output: ${output}`);
+      }
+      return value;
+    },
+
+    async getVcpMax(monitorId, vcpCode) {
+      const output = await run(monitorId, ["max", attributeFor(vcpCode)]);
+      const value = parseInt(output, 10);
+      return isNaN(value) ? undefined : value;
+    },
+
+    setVcp: (monitorId, vcpCode, value) =>
+      run(monitorId, ["set", attributeFor(vcpCode), String(value)]),
+
+    getCapabilities: () =>
+      Promise.reject(
+        new Error("m1ddc cannot read the monitor capabilities string"),
+      ),
+
+    ...catalogErrorHandling("m1ddc", M1DDC_ERRORS),
+  };
+}
+
+/**
+ * Parse `m1ddc display list` output.
+ *
+ * Each display is printed as "[<index>] <name> (<uuid>)". m1ddc does not
+ * report serial numbers; the UUID is what it accepts for `display <uuid>`.
+ * macOS names external displays after their EDID model name.
+ */
+export function parseM1ddcDisplayList(output: string): Monitor[] {
+  const monitors: Monitor[] = [];
+  for (const line of output.split("\n")) {
+    const match = line.trim().match(/^\[(\d+)\]\s+(.*?)(?:\s+\(([^()]+)\))?$/u);
+    if (!match) {
+      continue;
+    }
+    const index = parseInt(match[1], 10);
+    monitors.push({
+      index,
+      name: match[2],
+      id: match[3] ?? String(index),
+      identity: { model: match[2] },
+    });
+  }
+  return monitors;
+}
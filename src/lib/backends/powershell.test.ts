@@ -0,0 +1,66 @@
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { describe, expect, it } from "vitest";
+import { parseCapabilities, supportedInputs } from "../mccs";
+import {
+  capabilitiesFromPowerShell,
+  createPowerShellBackend,
+  parsePowerShellMonitors,
+  parsePowerShellVcp,
+} from "./powershell";
+
+/** Output recorded from `assets/scripts/monitor-control.ps1` on Windows */
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "powershell", name), "utf-8");
+}
+
+describe("MonitorConfig PowerShell parsers", () => {
+  it("lists the monitors with VCP support", () => {
+    expect(parsePowerShellMonitors(fixture("list.json"))).toEqual([
+      { index: 1, name: "DELL U2720Q", id: "\\\\.\\DISPLAY2" },
+      { index: 2, name: "LG HDR 4K", id: "\\\\.\\DISPLAY3" },
+    ]);
+  });
+
+  it("reads a value and its maximum, after a byte order mark", () => {
+    expect(fixture("get-input.json").startsWith("\uFEFF")).toBe(true);
+    expect(parsePowerShellVcp(fixture("get-input.json"))).toEqual({
+      current: 17,
+      max: 18,
+    });
+    expect(parsePowerShellVcp(fixture("get-brightness.json"))).toEqual({
+      current: 75,
+      max: 100,
+    });
+  });
+
+  it("rejects output without a current value", () => {
+    expect(() => parsePowerShellVcp(fixture("set-input.json"))).toThrow(
+      "Unexpected monitor-control.ps1 output",
+    );
+    expect(() => parsePowerShellVcp("WARNING: module not found")).toThrow(
+      "Unexpected monitor-control.ps1 output",
+    );
+  });
+
+  it("rebuilds a capabilities string the MCCS parser reads", () => {
+    const capabilities = parseCapabilities(
+      capabilitiesFromPowerShell(fixture("capabilities.json")),
+    );
+    expect(supportedInputs(capabilities)).toEqual([0x0f, 0x11, 0x12]);
+    expect([...capabilities.vcp.keys()]).toEqual([
+      0x10, 0x12, 0x60, 0x62, 0xd6,
+    ]);
+  });
+
+  it("classifies recorded script errors", () => {
+    const backend = createPowerShellBackend("monitor-control.ps1");
+    const errors = JSON.parse(fixture("errors.json")) as {
+      output: string;
+      kind: string;
+    }[];
+    for (const { output, kind } of errors) {
+      expect(backend.classifyError(new Error(output)).kind).toBe(kind);
+    }
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Windows backend using the bundled MonitorConfig PowerShell module.
+ *
+ * `assets/scripts/monitor-control.ps1` wraps the module's cmdlets and prints
+ * one JSON document per call, so no extra download is needed on Windows.
+ * The parsers below only see that JSON; the recorded outputs in
+ * `./fixtures/powershell` let them be checked without Windows.
+ */
+
+import { catalogErrorHandling, DdcErrorCatalog } from "../errors";
+import { runChecked } from "../exec";
+import { DdcBackend, isDefaultMonitor, Monitor, vcpHex } from "./types";
+
+/** Starting PowerShell and importing the module is slow on a cold start */
+const POWERSHELL_TIMEOUT_MS = 20000;
+
+const POWERSHELL_ERRORS: DdcErrorCatalog = {
+  patterns: [
+    {
+      kind: "tool-missing",
+      pattern:
+        /Import-Module|was not loaded|to the -File parameter does not exist/iu,
+    },
+    {
+      kind: "permission-denied",
+      pattern: /running scripts is disabled|not digitally signed/iu,
+    },
+    {
+      kind: "bus-busy",
+      pattern: /I2C bus|transmitting data|monitor returned an invalid/iu,
+    },
+  ],
+  hints: {
+    "tool-missing":
+      "powershell.exe or the bundled MonitorConfig module couldn't be loaded. Check that Windows PowerShell is installed, or reinstall the extension to restore its assets.",
+    "permission-denied":
+      "A group policy blocks running the bundled PowerShell script. Ask your administrator to allow it, or switch the DDC/CI Backend preference to ControlMyMonitor.",
+    "no-display":
+      "Run `Get-Monitor` in PowerShell after importing the bundled MonitorConfig module to see the detected displays, and check that Monitor(s) matches a device name like \\\\.\\DISPLAY2.",
+    "unsupported-vcp":
+      "Built-in laptop panels are controlled through WMI and only support brightness. External monitors need DDC/CI enabled in their OSD menu.",
+  },
+};
+
+interface PowerShellMonitor {
+  id: string;
+  name?: string;
+  vcp?: boolean;
+}
+
+interface PowerShellFeature {
+  code: number;
+  values?: number[];
+}
+
+export function createPowerShellBackend(scriptPath: string): DdcBackend {
+  const run = (args: string[]) =>
+    runChecked(
+      "powershell.exe",
+      [
+        "-NoProfile",
+        "-NonInteractive",
+        "-ExecutionPolicy",
+        "Bypass",
+        "-File",
+        scriptPath,
+        ...args,
+      ],
+      { timeoutMs: POWERSHELL_TIMEOUT_MS },
+    );
+  const monitorArgs = (monitorId: string) =>
+    isDefaultMonitor(monitorId) ? [] : ["-Monitor", monitorId];
+  const readVcp = async (monitorId: string, vcpCode: number) =>
+    parsePowerShellVcp(
+      await run([
+        "-Action",
+        "get",
+        ...monitorArgs(monitorId),
+        "-VcpCode",
+        String(vcpCode),
+      ]),
+    );
+
+  return {
+    id: "powershell",
+    title: "MonitorConfig (PowerShell)",
+    manualReadCommand: `\`\`\`powershell\npowershell.exe -NoProfile -ExecutionPolicy Bypass -File "${scriptPath}" -Action get -VcpCode 96\n\`\`\``,
+
+    async listDisplays() {
+      return parsePowerShellMonitors(await run(["-Action", "list"]));
+    },
+
+    rawDisplayList: () => run(["-Action", "list"]),
+
+    async toolVersion() {
+      return formatPowerShellVersion(await run(["-Action", "version"]));
+    },
+
+    async getVcp(monitorId, vcpCode) {
+      return (await readVcp(monitorId, vcpCode)).current;
+    },
+
+    async getVcpMax(monitorId, vcpCode) {
+      return (await readVcp(monitorId, vcpCode)).max;
+    },
+
+    setVcp: (monitorId, vcpCode, value) =>
+      run([
+        "-Action",
+        "set",
+        ...monitorArgs(monitorId),
+        "-VcpCode",
+        String(vcpCode),
+        "-Value",
+        String(value),
+      ]),
+
+    async getCapabilities(monitorId) {
+      return capabilitiesFromPowerShell(
+        await run(["-Action", "capabilities", ...monitorArgs(monitorId)]),
+      );
+    },
+
+    ...catalogErrorHandling("MonitorConfig", POWERSHELL_ERRORS),
+  };
+}
+
+/**
+ * Parse the JSON document printed by `monitor-control.ps1`.
+ *
+ * Windows PowerShell may prefix stdout with a byte order mark or module
+ * warnings, so parsing starts at the first brace.
+ */
+function parseScriptJson(output: string): Record<string, unknown> {
+  const start = output.indexOf("{");
+  try {
+    const parsed: unknown = JSON.parse(output.slice(Math.max(start, 0)));
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Reported below with the raw output
+  }
+  throw unexpectedOutput(output);
+}
+
+function unexpectedOutput(output: string): Error {
+  return new Error(
+    `Unexpected monitor-control.ps1 output: ${output.trim() || "(empty)"}`,
+  );
+}
+
+/**
+ * Parse `-Action list` output: `{"monitors":[{"id","name","vcp"}]}`.
+ *
+ * Monitors MonitorConfig drives through WMI (built-in laptop panels) have
+ * no VCP support and are left out.
+ */
+export function parsePowerShellMonitors(output: string): Monitor[] {
+  const { monitors } = parseScriptJson(output);
+  if (!Array.isArray(monitors)) {
+    throw unexpectedOutput(output);
+  }
+  return (monitors as PowerShellMonitor[])
+    .filter((monitor) => monitor.id && monitor.vcp !== false)
+    .map((monitor, position) => ({
+      index: position + 1,
+      name: monitor.name?.trim() || monitor.id,
+      id: monitor.id,
+    }));
+}
+
+/**
+ * Parse `-Action get` output: `{"vcpCode":96,"current":17,"max":18}`.
+ */
+export function parsePowerShellVcp(output: string): {
+  current: number;
+  max?: number;
+} {
+  const { current, max } = parseScriptJson(output);
+  if (typeof current !== "number") {
+    throw unexpectedOutput(output);
+  }
+  return {
+    current,
+    max: typeof max === "number" && max > 0 ? max : undefined,
+  };
+}
+
+/**
+ * Format `-Action version` output: `{"powershell":"5.1…","module":"2.1.0"}`.
+ */
+export function formatPowerShellVersion(output: string): string {
+  const { powershell, module } = parseScriptJson(output);
+  return `MonitorConfig ${String(module ?? "?")} on PowerShell ${String(powershell ?? "?")}`;
+}
+
+/**
+ * Rebuild an MCCS capabilities string from `-Action capabilities` output.
+ *
+ * MonitorConfig parses the capabilities string itself and reports one entry
+ * per VCP code, with the allowed values of non-continuous codes:
+ *
+ *   {"features":[{"code":16,"values":[]},{"code":96,"values":[15,17,18]}]}
+ */
+export function capabilitiesFromPowerShell(output: string): string {
+  const { features } = parseScriptJson(output);
+  if (!Array.isArray(features)) {
+    throw unexpectedOutput(output);
+  }
+  const codes = (features as PowerShellFeature[])
+    .filter((feature) => typeof feature.code === "number")
+    .map((feature) => {
+      const values = feature.values ?? [];
+      const code = vcpHex(feature.code);
+      return values.length === 0
+        ? code
+        : `${code}(${values.map((value) => vcpHex(value)).join(" ")})`;
+    });
+  return `(vcp(${codes.join(" ")}))`;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseCapabilities, supportedInputs } from "../mccs";
+import { createSimulatedBackend } from "./simulated";
+
+describe("simulated backend", () => {
+  const backend = createSimulatedBackend();
+
+  it("lists two monitors with their identities", async () => {
+    const monitors = await backend.listDisplays();
+    expect(monitors.map((monitor) => [monitor.id, monitor.serial])).toEqual([
+      ["1", "SIM0001"],
+      ["2", "SIM0002"],
+    ]);
+    expect(monitors[0].identity?.model).toBe("SIM-27Q");
+  });
+
+  it("treats Primary as monitor 1", async () => {
+    await backend.setVcp("1", 0x10, 70);
+    expect(await backend.getVcp("Primary", 0x10)).toBe(70);
+  });
+
+  it("switches to a listed input and reads it back", async () => {
+    expect(await backend.getVcp("2", 0x60)).toBe(0x11);
+    await backend.setVcp("2", 0x60, 0x12);
+    expect(await backend.getVcp("2", 0x60)).toBe(0x12);
+  });
+
+  it("reports a maximum only for continuous features", async () => {
+    expect(await backend.getVcpMax("1", 0x62)).toBe(100);
+    expect(await backend.getVcpMax("1", 0x60)).toBeUndefined();
+  });
+
+  it("lists the inputs of its capabilities string", async () => {
+    const capabilities = parseCapabilities(await backend.getCapabilities("1"));
+    expect(capabilities.model).toBe("SIM-27Q");
+    expect(supportedInputs(capabilities)).toEqual([0x0f, 0x11, 0x12]);
+  });
+
+  it("rejects values the monitor doesn't accept", async () => {
+    await expect(backend.setVcp("1", 0x60, 0x99)).rejects.toThrow(
+      "Invalid value 153 for VCP code 0x60",
+    );
+    await expect(backend.setVcp("1", 0x10, 101)).rejects.toThrow(
+      "Invalid value",
+    );
+    await expect(backend.getVcp("1", 0xe0)).rejects.toThrow(
+      "Unsupported VCP code 0xE0",
+    );
+  });
+
+  it("rejects unknown monitors as no display found", async () => {
+    const read = backend.getVcp("3", 0x60);
+    await expect(read).rejects.toThrow('No displays found matching "3"');
+    const error = await read.catch((reason: unknown) => reason);
+    expect(backend.classifyError(error).kind).toBe("no-display");
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * In-memory simulated backend.
+ *
+ * Behaves like a pair of DDC/CI monitors without touching any hardware, so
+ * the commands can be exercised on machines with no monitor attached (or no
+ * DDC tool installed). State lives for the lifetime of the process.
+ */
+
+import { catalogErrorHandling, DdcErrorCatalog } from "../errors";
+import { DdcBackend, isDefaultMonitor, Monitor, vcpHex } from "./types";
+
+const SIMULATED_ERRORS: DdcErrorCatalog = {
+  patterns: [],
+  hints: {
+    "no-display":
+      'The simulated backend has monitors "1" (or "Primary") and "2". Switch the backend preference to Automatic to control real monitors.',
+  },
+};
+
+interface SimulatedMonitor {
+  model: string;
+  serial: string;
+  /** Current value of every supported VCP code */
+  values: Map<number, number>;
+  /** Allowed values for non-continuous codes; continuous codes are 0..100 */
+  allowed: Map<number, number[]>;
+}
+
+/** Simulated monitors, keyed by display number */
+const monitors = new Map<string, SimulatedMonitor>();
+
+function seedMonitors(): void {
+  const inputs = [0x0f, 0x11, 0x12];
+  const makeMonitor = (
+    model: string,
+    serial: string,
+    input: number,
+  ): SimulatedMonitor => ({
+    model,
+    serial,
+    values: new Map([
+      [0x10, 50],
+      [0x12, 50],
+      [0x60, input],
+      [0x62, 30],
+      [0x8d, 2],
+      [0xd6, 1],
+    ]),
+    allowed: new Map([
+      [0x60, inputs],
+      [0x8d, [1, 2]],
+      [0xd6, [1, 4, 5]],
+    ]),
+  });
+  monitors.set("1", makeMonitor("SIM-27Q", "SIM0001", 0x0f));
+  monitors.set("2", makeMonitor("SIM-24F", "SIM0002", 0x11));
+}
+
+function monitorFor(monitorId: string): SimulatedMonitor {
+  if (monitors.size === 0) {
+    seedMonitors();
+  }
+  const key = isDefaultMonitor(monitorId) ? "1" : monitorId.trim();
+  const monitor = monitors.get(key);
+  if (!monitor) {
+    throw new Error(`No displays found matching "${monitorId}"`);
+  }
+  return monitor;
+}
+
+function capabilitiesOf(monitor: SimulatedMonitor): string {
+  const vcp = [...monitor.values.keys()]
+    .map((code) => {
+      const allowed = monitor.allowed.get(code);
+      return allowed
+        ? `${vcpHex(code)}(${allowed.map((value) => vcpHex(value)).join(" ")})`
+        : vcpHex(code);
+    })
+    .join(" ");
+  return `(prot(monitor)type(lcd)model(${monitor.model})cmds(01 02 03 0C E3 F3)vcp(${vcp})mccs_ver(2.2))`;
+}
+
+function listSimulatedDisplays(): Monitor[] {
+  monitorFor("1");
+  return [...monitors.entries()].map(([id, monitor]) => ({
+    index: parseInt(id, 10),
+    name: monitor.model,
+    serial: monitor.serial,
+    id,
+    identity: { manufacturer: "SIM", model: monitor.model },
+  }));
+}
+
+/** Run a simulated call as a backend call: what it throws rejects instead */
+function simulate<T>(call: () => T): Promise<T> {
+  return new Promise((resolve) => {
+    resolve(call());
+  });
+}
+
+export function createSimulatedBackend(): DdcBackend {
+  return {
+    id: "simulated",
+    title: "Simulated",
+    manualReadCommand: "(not applicable to the simulated backend)",
+
+    listDisplays: () => simulate(listSimulatedDisplays),
+
+    rawDisplayList: () =>
+      simulate(() => JSON.stringify(listSimulatedDisplays(), null, 2)),
+
+    toolVersion: () => Promise.resolve("simulated (no tool)"),
+
+    getVcp: (monitorId, vcpCode) =>
+      simulate(() => {
+        const value = monitorFor(monitorId).values.get(vcpCode);
+        if (value === undefined) {
+          throw new Error(`Unsupported VCP code 0x${vcpHex(vcpCode)}`);
+        }
+        return value;
+      }),
+
+    getVcpMax: (monitorId, vcpCode) =>
+      simulate(() => {
+        const monitor = monitorFor(monitorId);
+        if (!monitor.values.has(vcpCode)) {
+          throw new Error(`Unsupported VCP code 0x${vcpHex(vcpCode)}`);
+        }
+        return monitor.allowed.has(vcpCode) ? undefined : 100;
+      }),
+
+    setVcp: (monitorId, vcpCode, value) =>
+      simulate(() => {
+        const monitor = monitorFor(monitorId);
+        if (!monitor.values.has(vcpCode)) {
+          throw new Error(`Unsupported VCP code 0x${vcpHex(vcpCode)}`);
+        }
+        const allowed = monitor.allowed.get(vcpCode);
+        const valid = allowed
+          ? allowed.includes(value)
+          : value >= 0 && value <= 100;
+        if (!valid) {
+          throw new Error(
+            `Invalid value ${value} for VCP code 0x${vcpHex(vcpCode)}`,
+          );
+        }
+        monitor.values.set(vcpCode, value);
+        return `Set VCP 0x${vcpHex(vcpCode)} to ${value} on ${monitor.model}`;
+      }),
+
+    getCapabilities: (monitorId) =>
+      simulate(() => capabilitiesOf(monitorFor(monitorId))),
+
+    ...catalogErrorHandling("Simulated monitor", SIMULATED_ERRORS),
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * DDC/CI backend contract.
+ *
+ * A backend wraps one way of talking to monitors (a CLI tool, an in-memory
+ * simulation, ...). Commands only ever see this interface, so adding a new
+ * tool means adding a backend and registering it in `./index.ts`.
+ */
+
+import { DdcErrorCatalog, DdcFailure } from "../errors";
+
+/** Identifiers of the registered backends */
+export type BackendId =
+  "m1ddc" | "controlmymonitor" | "powershell" | "ddcutil" | "i2c" | "simulated";
+
+/**
+ * Who made a monitor and which model it is, from its EDID as far as the
+ * backend's tool reports it.
+ */
+export interface MonitorIdentity {
+  /** Three-letter PNP manufacturer ID, e.g. "DEL" */
+  manufacturer?: string;
+  /** EDID product code */
+  productCode?: number;
+  /** EDID model name, e.g. "DELL U2720Q" */
+  model?: string;
+}
+
+/** A monitor as enumerated by a backend */
+export interface Monitor {
+  /** 1-based position in the backend's display list */
+  index: number;
+  name: string;
+  serial?: string;
+  /** Identifier the backend accepts as `monitorId` */
+  id: string;
+  /** Used to look the monitor up in the model database (see `../models`) */
+  identity?: MonitorIdentity;
+}
+
+export interface DdcBackend {
+  id: BackendId;
+  /** Human-readable name used in toasts and discovery output */
+  title: string;
+  /** Tool-specific error patterns and remediation hints (see `../errors`) */
+  errorCatalog: DdcErrorCatalog;
+  /** Shell snippet that reads the current input value by hand */
+  manualReadCommand: string;
+
+  /** Displays visible to the backend */
+  listDisplays(): Promise<Monitor[]>;
+  /** Unparsed output of the display listing behind `listDisplays` */
+  rawDisplayList(): Promise<string>;
+  /** Version of the underlying tool, as it reports it */
+  toolVersion(): Promise<string>;
+  /** Read the current value of a VCP feature */
+  getVcp(monitorId: string, vcpCode: number): Promise<number>;
+  /**
+   * Maximum value of a continuous VCP feature (brightness, volume, ...), or
+   * undefined when the tool doesn't report one.
+   */
+  getVcpMax(monitorId: string, vcpCode: number): Promise<number | undefined>;
+  /** Write a VCP feature value, resolving with the raw tool output */
+  setVcp(monitorId: string, vcpCode: number, value: number): Promise<string>;
+  /**
+   * MCCS capabilities string reported by the monitor (see `../mccs`).
+   * May be embedded in surrounding tool output.
+   */
+  getCapabilities(monitorId: string): Promise<string>;
+  /** Classify an error thrown by one of the methods above */
+  classifyError(error: unknown): DdcFailure;
+  /** Turn an error thrown by one of the methods above into a user-facing message */
+  describeError(error: unknown): string;
+}
+
+/** Format a VCP code the way CLI tools expect it (hex, no prefix) */
+export function vcpHex(vcpCode: number): string {
+  return vcpCode.toString(16).padStart(2, "0").toUpperCase();
+}
+
+/** Whether a monitor ID means "let the tool pick its default display" */
+export function isDefaultMonitor(monitorId: string): boolean {
+  const trimmed = monitorId.trim();
+  return trimmed === "" || trimmed.toLowerCase() === "primary";
+}
+
+export function errorMessageOf(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
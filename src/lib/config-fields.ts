@@ -0,0 +1,187 @@
+/**
+ * Field checks of the shareable configuration (see `./config-schema`).
+ * Each reports what is wrong with a value at a path into the document, and
+ * returns the value when it is usable, so one pass finds every problem.
+ */
+
+import { LearnedInput } from "./mappings";
+import { formatInput, parseInputValue } from "./mccs";
+import { parseProfileStep } from "./profile-steps";
+
+export interface ConfigIssue {
+  /** Where the problem is, e.g. "profiles[0].steps[2]" */
+  path: string;
+  message: string;
+}
+
+export const DOCUMENT_PATH = "(document)";
+
+export type Fields = Record<string, unknown>;
+
+/**
+ * The fields of an object, reporting anything else and unknown fields.
+ */
+export function fieldsAt(
+  value: unknown,
+  path: string,
+  allowed: string[],
+  issues: ConfigIssue[],
+): Fields | undefined {
+  if (typeof value === "object" && value !== null && !Array.isArray(value)) {
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) {
+        issues.push({
+          path: path === DOCUMENT_PATH ? key : `${path}.${key}`,
+          message: `unknown field (expected ${allowed.join(", ")})`,
+        });
+      }
+    }
+    return value as Fields;
+  }
+  issues.push({ path, message: "must be an object" });
+  return undefined;
+}
+
+export function stringAt(
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+  required = false,
+): string | undefined {
+  if (value === undefined) {
+    if (required) {
+      issues.push({ path, message: "is required" });
+    }
+    return undefined;
+  }
+  if (typeof value === "string" && value.trim() !== "") {
+    return value.trim();
+  }
+  issues.push({
+    path,
+    message:
+      typeof value === "string"
+        ? "must not be empty"
+        : `must be a string, not ${JSON.stringify(value)}`,
+  });
+  return undefined;
+}
+
+export function listAt(
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+): unknown[] | undefined {
+  if (Array.isArray(value) && value.length > 0) {
+    return value as unknown[];
+  }
+  issues.push({
+    path,
+    message: Array.isArray(value) ? "must not be empty" : "must be a list",
+  });
+  return undefined;
+}
+
+/** A string out of a fixed set, e.g. a backend ID */
+export function oneOfAt<T extends string>(
+  value: unknown,
+  path: string,
+  choices: readonly T[],
+  issues: ConfigIssue[],
+  required = false,
+): T | undefined {
+  const text = stringAt(value, path, issues, required);
+  if (text === undefined || choices.includes(text as T)) {
+    return text as T | undefined;
+  }
+  issues.push({ path, message: `must be one of ${choices.join(", ")}` });
+  return undefined;
+}
+
+/** An input code as text ("DP-1", "0x0F", "15") or a number */
+export function inputAt(
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+): number | undefined {
+  const input =
+    typeof value === "number" || typeof value === "string"
+      ? parseInputValue(String(value))
+      : undefined;
+  if (input !== undefined) {
+    return input;
+  }
+  issues.push({
+    path,
+    message: `${JSON.stringify(value)} is not an input code (0 to 255, e.g. 15, 0x0F or DP-1)`,
+  });
+  return undefined;
+}
+
+/**
+ * The learned inputs of a mapping; values and names must be unique.
+ */
+export function checkInputs(
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+): LearnedInput[] {
+  const inputs: LearnedInput[] = [];
+  for (const [position, entry] of (
+    listAt(value, path, issues) ?? []
+  ).entries()) {
+    const entryPath = `${path}[${position}]`;
+    const fields = fieldsAt(entry, entryPath, ["value", "name"], issues);
+    if (!fields) {
+      continue;
+    }
+    const input = inputAt(fields.value, `${entryPath}.value`, issues);
+    const name = stringAt(fields.name, `${entryPath}.name`, issues, true);
+    if (input !== undefined && inputs.some((known) => known.value === input)) {
+      issues.push({
+        path: `${entryPath}.value`,
+        message: `${formatInput(input)} is listed twice`,
+      });
+    }
+    if (
+      name &&
+      inputs.some((known) => known.name.toLowerCase() === name.toLowerCase())
+    ) {
+      issues.push({
+        path: `${entryPath}.name`,
+        message: `"${name}" names two inputs`,
+      });
+    }
+    if (input !== undefined && name) {
+      inputs.push({ value: input, name });
+    }
+  }
+  return inputs;
+}
+
+/** A profile step line (see `./profile-steps`) */
+export function profileStepAt(
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+): string | undefined {
+  const line = stringAt(value, path, issues, true);
+  if (line === undefined) {
+    return undefined;
+  }
+  try {
+    parseProfileStep(line);
+    return line;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    issues.push({ path, message: reason });
+    return undefined;
+  }
+}
+
+/**
+ * One line per issue, e.g. `profiles[0].steps[1]: unknown setting "x"`.
+ */
+export function formatConfigIssues(issues: ConfigIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { configPreferences, migrateFlatPreferences } from "./config-migration";
+import { validateConfig } from "./config-schema";
+
+describe("migrateFlatPreferences", () => {
+  it("turns flat preferences into a version 1 document", () => {
+    const { document, dropped } = migrateFlatPreferences({
+      ddcBackend: "ddcutil",
+      ddcutilPath: "/usr/local/bin/ddcutil",
+      monitorId: "all",
+      displayPortValue: "DP-1",
+      hdmiPortValue: "HDMI-2",
+      inputCycle: "DP-1, HDMI-2",
+      switchRetries: "3",
+      rules: [],
+      profiles: { work: "input = DP-1 @ all\n# at the desk\n\n" },
+    });
+    expect(dropped).toEqual(["switchRetries", "rules"]);
+    expect(document).toEqual({
+      version: 1,
+      backend: { id: "ddcutil", paths: { ddcutil: "/usr/local/bin/ddcutil" } },
+      monitors: {
+        target: "all",
+        displayPortInput: "DP-1",
+        hdmiInput: "HDMI-2",
+        inputCycle: ["DP-1", "HDMI-2"],
+      },
+      profiles: [{ name: "work", steps: ["input = DP-1 @ all"] }],
+    });
+    expect(validateConfig(document).issues).toEqual([]);
+  });
+
+  it("reads the old name of the HDMI value", () => {
+    const { document } = migrateFlatPreferences({ hdmiPortValue: "0x12" });
+    expect(document.monitors).toEqual({ hdmiInput: "0x12" });
+  });
+
+  it("leaves out settings at their default", () => {
+    const { document } = migrateFlatPreferences({
+      ddcBackend: "auto",
+      displayPortValue: "15",
+    });
+    expect(document.backend).toBeUndefined();
+    expect(document.monitors).toBeUndefined();
+  });
+
+  it("keeps unknown settings, for validation to report", () => {
+    const { document, dropped } = migrateFlatPreferences({ theme: "dark" });
+    expect(dropped).toEqual([]);
+    expect(validateConfig(JSON.parse(JSON.stringify(document))).issues).toEqual(
+      [expect.objectContaining({ path: "theme" })],
+    );
+  });
+});
+
+describe("configPreferences", () => {
+  it("maps a document back to the preferences it stands in for", () => {
+    expect(
+      configPreferences({
+        version: 1,
+        backend: { id: "m1ddc", paths: { m1ddc: "/opt/m1ddc" } },
+        monitors: { hdmiInput: "HDMI-2", inputCycle: ["DP-1", "HDMI-2"] },
+      }),
+    ).toEqual({
+      ddcBackend: "m1ddc",
+      m1ddcPath: "/opt/m1ddc",
+      hdmiValue: "HDMI-2",
+      inputCycle: "DP-1, HDMI-2",
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Migration of flat preferences to the shareable configuration (see
+ * `./config-schema`), and back.
+ *
+ * Flat preferences are what the extension has always had: one field per
+ * setting, under the manifest names, as in a CLI config file (see
+ * `../cli/config`). The ones the document covers become its "backend" and
+ * "monitors" sections; the profiles of a CLI config file become its
+ * profiles. Settings the document doesn't cover (retries, hooks, scheduled
+ * rules, ...) are left out and listed.
+ */
+
+import { CONFIG_VERSION, SharedConfig } from "./config-schema";
+import {
+  DEFAULT_PREFERENCES,
+  Preferences,
+  RENAMED_PREFERENCES,
+} from "./extension";
+
+/** Preferences the document covers */
+export const SHARED_PREFERENCES = [
+  "ddcBackend",
+  "m1ddcPath",
+  "controlMyMonitorPath",
+  "ddcutilPath",
+  "monitorId",
+  "displayPortValue",
+  "hdmiValue",
+  "inputCycle",
+] as const;
+
+export type SharedPreference = (typeof SHARED_PREFERENCES)[number];
+
+/** Settings of CLI config files besides the preferences and profiles */
+const CLI_SETTINGS = ["rules", "storage", "agentListen"];
+
+/**
+ * The settings of a document, as the preferences they stand in for.
+ */
+export function configPreferences(
+  config: SharedConfig,
+): Partial<Pick<Preferences, SharedPreference>> {
+  const settings: Record<SharedPreference, string | undefined> = {
+    ddcBackend: config.backend?.id,
+    m1ddcPath: config.backend?.paths?.m1ddc,
+    controlMyMonitorPath: config.backend?.paths?.controlMyMonitor,
+    ddcutilPath: config.backend?.paths?.ddcutil,
+    monitorId: config.monitors?.target,
+    displayPortValue: config.monitors?.displayPortInput,
+    hdmiValue: config.monitors?.hdmiInput,
+    inputCycle: config.monitors?.inputCycle?.join(", "),
+  };
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined),
+  );
+}
+
+/** The entries that are set; undefined when none is */
+export function compact(
+  section: Record<string, unknown>,
+): Record<string, unknown> | undefined {
+  const present = Object.entries(section).filter(
+    ([, value]) => value !== undefined && value !== "",
+  );
+  return present.length === 0 ? undefined : Object.fromEntries(present);
+}
+
+/**
+ * The settings of flat preferences as the sections of a document, leaving
+ * out those at their default. Values aren't checked.
+ */
+export function settingsSections(
+  prefs: Partial<Record<SharedPreference, unknown>>,
+): Record<string, unknown> {
+  const changed = (key: SharedPreference) =>
+    String(prefs[key]) === DEFAULT_PREFERENCES[key] ? undefined : prefs[key];
+  const cycle = changed("inputCycle");
+  return {
+    backend: compact({
+      id: changed("ddcBackend"),
+      paths: compact({
+        m1ddc: changed("m1ddcPath"),
+        controlMyMonitor: changed("controlMyMonitorPath"),
+        ddcutil: changed("ddcutilPath"),
+      }),
+    }),
+    monitors: compact({
+      target: changed("monitorId"),
+      displayPortInput: changed("displayPortValue"),
+      hdmiInput: changed("hdmiValue"),
+      inputCycle:
+        typeof cycle === "string"
+          ? cycle.split(",").map((entry) => entry.trim())
+          : cycle,
+    }),
+  };
+}
+
+/** Profiles of a CLI config file (name to steps) as a list */
+function flatProfiles(value: unknown): unknown {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return value;
+  }
+  return Object.entries(value).map(([name, steps]) => ({
+    name,
+    steps: Array.isArray(steps)
+      ? steps
+      : String(steps)
+          .split("\n")
+          .map((line) => line.trim())
+          .filter((line) => line !== "" && !line.startsWith("#")),
+  }));
+}
+
+/**
+ * Turn flat preferences into a version 1 document. Unknown settings are
+ * kept, for validation to report them.
+ */
+export function migrateFlatPreferences(flat: Record<string, unknown>): {
+  document: Record<string, unknown>;
+  dropped: string[];
+} {
+  const settings: Partial<Record<SharedPreference, unknown>> = {};
+  const unknown: Record<string, unknown> = {};
+  const dropped: string[] = [];
+  let profiles: unknown;
+  for (const [name, value] of Object.entries(flat)) {
+    const key = RENAMED_PREFERENCES[name] ?? name;
+    if (SHARED_PREFERENCES.includes(key as SharedPreference)) {
+      settings[key as SharedPreference] = value;
+    } else if (key === "profiles") {
+      profiles = flatProfiles(value);
+    } else if (
+      Object.hasOwn(DEFAULT_PREFERENCES, key) ||
+      CLI_SETTINGS.includes(key)
+    ) {
+      dropped.push(name);
+    } else {
+      unknown[name] = value;
+    }
+  }
+  return {
+    document: {
+      version: CONFIG_VERSION,
+      ...settingsSections(settings),
+      profiles,
+      ...unknown,
+    },
+    dropped,
+  };
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { validateConfig } from "./config-schema";
+
+describe("validateConfig", () => {
+  it("normalises a valid document", () => {
+    expect(
+      validateConfig({
+        version: 1,
+        backend: { id: "ddcutil", paths: { ddcutil: " /usr/bin/ddcutil " } },
+        monitors: { target: "all", hdmiInput: "HDMI-1 " },
+        inputMappings: [
+          {
+            backend: "ddcutil",
+            monitorId: "bus=7",
+            inputs: [{ value: "0x0F", name: "MacBook" }],
+          },
+        ],
+        profiles: [{ name: "work", steps: ["input = DP-1 @ all"] }],
+      }),
+    ).toEqual({
+      config: {
+        version: 1,
+        backend: {
+          id: "ddcutil",
+          paths: {
+            m1ddc: undefined,
+            controlMyMonitor: undefined,
+            ddcutil: "/usr/bin/ddcutil",
+          },
+        },
+        monitors: { target: "all", hdmiInput: "HDMI-1" },
+        inputMappings: [
+          {
+            backend: "ddcutil",
+            monitorId: "bus=7",
+            serial: undefined,
+            monitorName: undefined,
+            modelId: undefined,
+            inputs: [{ value: 0x0f, name: "MacBook" }],
+          },
+        ],
+        profiles: [{ name: "work", steps: ["input = DP-1 @ all"] }],
+      },
+      issues: [],
+    });
+  });
+
+  it("reports unknown fields, with their path", () => {
+    const { config, issues } = validateConfig({
+      version: 1,
+      theme: "dark",
+      monitors: { target: "all", hdmiPortValue: "HDMI-1" },
+      backend: { id: "auto", paths: { ddcutil: "/usr/bin/ddcutil", m2: "" } },
+    });
+    expect(config).toBeUndefined();
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "theme",
+      "backend.paths.m2",
+      "monitors.hdmiPortValue",
+    ]);
+    expect(issues[0].message).toMatch(/^unknown field/u);
+  });
+
+  it("reports every mistyped field at once", () => {
+    const { issues } = validateConfig({
+      version: 1,
+      backend: { id: "xrandr" },
+      monitors: { target: 1, displayPortInput: "VGA-7", inputCycle: "DP-1" },
+      inputMappings: [
+        { backend: "ddcutil", inputs: [{ value: 300, name: "Laptop" }] },
+      ],
+      profiles: [{ name: "work", steps: ["brightness = loud"] }],
+    });
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "backend.id",
+      "monitors.target",
+      "monitors.displayPortInput",
+      "monitors.inputCycle",
+      "inputMappings[0].monitorId",
+      "inputMappings[0].inputs[0].value",
+      "profiles[0].steps[0]",
+    ]);
+    expect(issues[1].message).toBe("must be a string, not 1");
+  });
+
+  it("rejects other versions, and documents that aren't objects", () => {
+    expect(validateConfig({ version: 2 }).issues).toEqual([
+      {
+        path: "version",
+        message: "is newer than this extension reads (1); update the extension",
+      },
+    ]);
+    expect(validateConfig({ version: "1" }).issues).toEqual([
+      { path: "version", message: "must be 1" },
+    ]);
+    expect(validateConfig([]).issues).toHaveLength(1);
+  });
+
+  it("rejects a monitor mapped twice and a name used by two profiles", () => {
+    const mapping = {
+      backend: "ddcutil",
+      monitorId: "bus=7",
+      inputs: [{ value: 15, name: "MacBook" }],
+    };
+    const { issues } = validateConfig({
+      version: 1,
+      inputMappings: [mapping, mapping],
+      profiles: [
+        { name: "Work", steps: ["input = DP-1"] },
+        { name: "work", steps: ["input = HDMI-1"] },
+      ],
+    });
+    expect(issues.map((issue) => issue.path)).toEqual([
+      "inputMappings[1].monitorId",
+      "profiles[1].name",
+    ]);
+  });
+});
@@ -0,0 +1,293 @@
+/**
+ * Shareable configuration: one versioned JSON document with what a team's
+ * desks have in common, so teammates import it instead of re-typing input
+ * codes, tool paths and monitor IDs into preference fields.
+ *
+ *   {
+ *     "version": 1,
+ *     "backend": { "id": "ddcutil", "paths": { "ddcutil": "/usr/bin/ddcutil" } },
+ *     "monitors": {
+ *       "target": "all",
+ *       "displayPortInput": "DP-1",
+ *       "hdmiInput": "HDMI-1",
+ *       "inputCycle": ["DP-1", "HDMI-1"]
+ *     },
+ *     "inputMappings": [{
+ *       "backend": "ddcutil",
+ *       "monitorId": "bus=7",
+ *       "serial": "ABC123",
+ *       "monitorName": "DELL U2720Q",
+ *       "inputs": [{ "value": 15, "name": "MacBook" }]
+ *     }],
+ *     "profiles": [{ "name": "work", "steps": ["input = DP-1 @ all"] }]
+ *   }
+ *
+ * Every section is optional. Validation is strict and complete: unknown
+ * fields, wrong types and values the extension would reject are all
+ * reported at once, each with its path ("inputMappings[0].inputs[1].value").
+ * Documents of older versions are migrated first (see `./shared-config`).
+ */
+
+import { BACKEND_IDS, BackendId } from "./backends";
+import {
+  checkInputs,
+  ConfigIssue,
+  DOCUMENT_PATH,
+  fieldsAt,
+  inputAt,
+  listAt,
+  oneOfAt,
+  profileStepAt,
+  stringAt,
+} from "./config-fields";
+import { LearnedInput } from "./mappings";
+
+export type { ConfigIssue } from "./config-fields";
+export { formatConfigIssues } from "./config-fields";
+
+export const CONFIG_VERSION = 1;
+
+export interface SharedBackend {
+  id?: "auto" | BackendId;
+  /** Tool paths, as the `*Path` preferences */
+  paths?: { m1ddc?: string; controlMyMonitor?: string; ddcutil?: string };
+}
+
+export interface SharedMonitors {
+  /** Monitor selector, as the Monitor(s) preference */
+  target?: string;
+  displayPortInput?: string;
+  hdmiInput?: string;
+  inputCycle?: string[];
+}
+
+/** Learned inputs of one monitor (see `./mappings`) */
+export interface SharedInputMapping {
+  backend: BackendId;
+  monitorId: string;
+  serial?: string;
+  monitorName?: string;
+  modelId?: string;
+  inputs: LearnedInput[];
+}
+
+/** A desk profile, its steps in the syntax of `./profile-steps` */
+export interface SharedProfile {
+  name: string;
+  steps: string[];
+}
+
+export interface SharedConfig {
+  version: typeof CONFIG_VERSION;
+  backend?: SharedBackend;
+  monitors?: SharedMonitors;
+  inputMappings?: SharedInputMapping[];
+  profiles?: SharedProfile[];
+}
+
+export interface ConfigValidation {
+  /** The validated document; undefined when there are issues */
+  config?: SharedConfig;
+  issues: ConfigIssue[];
+}
+
+function checkBackend(
+  value: unknown,
+  issues: ConfigIssue[],
+): SharedBackend | undefined {
+  const fields = fieldsAt(value, "backend", ["id", "paths"], issues);
+  if (!fields) {
+    return undefined;
+  }
+  const id = oneOfAt(fields.id, "backend.id", ["auto", ...BACKEND_IDS], issues);
+  if (fields.paths === undefined) {
+    return { id: id as SharedBackend["id"] };
+  }
+  const paths = fieldsAt(
+    fields.paths,
+    "backend.paths",
+    ["m1ddc", "controlMyMonitor", "ddcutil"],
+    issues,
+  );
+  return {
+    id: id as SharedBackend["id"],
+    paths: paths && {
+      m1ddc: stringAt(paths.m1ddc, "backend.paths.m1ddc", issues),
+      controlMyMonitor: stringAt(
+        paths.controlMyMonitor,
+        "backend.paths.controlMyMonitor",
+        issues,
+      ),
+      ddcutil: stringAt(paths.ddcutil, "backend.paths.ddcutil", issues),
+    },
+  };
+}
+
+function checkMonitors(
+  value: unknown,
+  issues: ConfigIssue[],
+): SharedMonitors | undefined {
+  const fields = fieldsAt(
+    value,
+    "monitors",
+    ["target", "displayPortInput", "hdmiInput", "inputCycle"],
+    issues,
+  );
+  if (!fields) {
+    return undefined;
+  }
+  const monitors: SharedMonitors = {
+    target: stringAt(fields.target, "monitors.target", issues),
+  };
+  for (const key of ["displayPortInput", "hdmiInput"] as const) {
+    if (fields[key] !== undefined) {
+      inputAt(fields[key], `monitors.${key}`, issues);
+      monitors[key] = String(fields[key]).trim();
+    }
+  }
+  if (fields.inputCycle !== undefined) {
+    const entries = listAt(fields.inputCycle, "monitors.inputCycle", issues);
+    const values = (entries ?? []).map((entry, position) =>
+      inputAt(entry, `monitors.inputCycle[${position}]`, issues),
+    );
+    if (entries && new Set(values).size < 2) {
+      issues.push({
+        path: "monitors.inputCycle",
+        message: "must list at least two different inputs",
+      });
+    }
+    monitors.inputCycle = entries?.map((entry) => String(entry).trim());
+  }
+  return monitors;
+}
+
+function checkInputMapping(
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+): SharedInputMapping | undefined {
+  const fields = fieldsAt(
+    value,
+    path,
+    ["backend", "monitorId", "serial", "monitorName", "modelId", "inputs"],
+    issues,
+  );
+  if (!fields) {
+    return undefined;
+  }
+  const backend = oneOfAt(
+    fields.backend,
+    `${path}.backend`,
+    BACKEND_IDS,
+    issues,
+    true,
+  );
+  return {
+    backend: backend as BackendId,
+    monitorId:
+      stringAt(fields.monitorId, `${path}.monitorId`, issues, true) ?? "",
+    serial: stringAt(fields.serial, `${path}.serial`, issues),
+    monitorName: stringAt(fields.monitorName, `${path}.monitorName`, issues),
+    modelId: stringAt(fields.modelId, `${path}.modelId`, issues),
+    inputs: checkInputs(fields.inputs, `${path}.inputs`, issues),
+  };
+}
+
+function checkProfile(
+  value: unknown,
+  path: string,
+  issues: ConfigIssue[],
+): SharedProfile | undefined {
+  const fields = fieldsAt(value, path, ["name", "steps"], issues);
+  if (!fields) {
+    return undefined;
+  }
+  return {
+    name: stringAt(fields.name, `${path}.name`, issues, true) ?? "",
+    steps: (listAt(fields.steps, `${path}.steps`, issues) ?? []).map(
+      (step, position) =>
+        profileStepAt(step, `${path}.steps[${position}]`, issues) ?? "",
+    ),
+  };
+}
+
+/**
+ * Check a document of the current version and normalise it (trimmed
+ * strings, input values as numbers).
+ */
+export function validateConfig(document: unknown): ConfigValidation {
+  const issues: ConfigIssue[] = [];
+  const fields = fieldsAt(
+    document,
+    DOCUMENT_PATH,
+    ["version", "backend", "monitors", "inputMappings", "profiles"],
+    issues,
+  );
+  if (!fields) {
+    return { issues };
+  }
+  if (fields.version !== CONFIG_VERSION) {
+    issues.push({
+      path: "version",
+      message:
+        typeof fields.version === "number" && fields.version > CONFIG_VERSION
+          ? `is newer than this extension reads (${CONFIG_VERSION}); update the extension`
+          : `must be ${CONFIG_VERSION}`,
+    });
+  }
+
+  const config: SharedConfig = { version: CONFIG_VERSION };
+  if (fields.backend !== undefined) {
+    config.backend = checkBackend(fields.backend, issues);
+  }
+  if (fields.monitors !== undefined) {
+    config.monitors = checkMonitors(fields.monitors, issues);
+  }
+  if (fields.inputMappings !== undefined) {
+    config.inputMappings = [];
+    const entries = listAt(fields.inputMappings, "inputMappings", issues);
+    for (const [position, entry] of (entries ?? []).entries()) {
+      const path = `inputMappings[${position}]`;
+      const mapping = checkInputMapping(entry, path, issues);
+      if (
+        mapping?.monitorId &&
+        config.inputMappings.some(
+          (other) =>
+            other.backend === mapping.backend &&
+            other.monitorId === mapping.monitorId,
+        )
+      ) {
+        issues.push({
+          path: `${path}.monitorId`,
+          message: `"${mapping.monitorId}" is mapped twice`,
+        });
+      }
+      if (mapping) {
+        config.inputMappings.push(mapping);
+      }
+    }
+  }
+  if (fields.profiles !== undefined) {
+    config.profiles = [];
+    const entries = listAt(fields.profiles, "profiles", issues);
+    for (const [position, entry] of (entries ?? []).entries()) {
+      const path = `profiles[${position}]`;
+      const profile = checkProfile(entry, path, issues);
+      if (
+        profile?.name &&
+        config.profiles.some(
+          (other) => other.name.toLowerCase() === profile.name.toLowerCase(),
+        )
+      ) {
+        issues.push({
+          path: `${path}.name`,
+          message: `"${profile.name}" names two profiles`,
+        });
+      }
+      if (profile) {
+        config.profiles.push(profile);
+      }
+    }
+  }
+  return issues.length === 0 ? { config, issues } : { issues };
+}
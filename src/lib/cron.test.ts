@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { cronMatches, nextCronTime, parseCron, parseWeekdays } from "./cron";
+
+// Schedules are in local time; pin a zone with a daylight saving switch
+process.env.TZ = "Europe/Berlin";
+
+describe("parseCron", () => {
+  it("reads weekday ranges and names, with 7 as Sunday", () => {
+    expect(parseCron("0 9 * * mon-fri").weekdays).toEqual(
+      new Set([1, 2, 3, 4, 5]),
+    );
+    expect(parseCron("0 9 * * 5-7").weekdays).toEqual(new Set([5, 6, 0]));
+    expect(parseCron("0 9 * * 7").weekdays).toEqual(new Set([0]));
+    expect(parseWeekdays("sat, sun")).toEqual(new Set([6, 0]));
+    expect(parseWeekdays("")).toEqual(new Set([0, 1, 2, 3, 4, 5, 6]));
+  });
+
+  it("reads steps, from a start to the end of the field", () => {
+    expect(parseCron("5/15 * * * *").minutes).toEqual(new Set([5, 20, 35, 50]));
+    expect(parseCron("0 8-18/4 * * *").hours).toEqual(new Set([8, 12, 16]));
+    expect(parseCron("*/20 * * * *").minutes).toEqual(new Set([0, 20, 40]));
+  });
+
+  it("expands the shorthands", () => {
+    expect(parseCron("@weekly")).toMatchObject({
+      minutes: new Set([0]),
+      hours: new Set([0]),
+      weekdays: new Set([0]),
+      weekdaysRestricted: true,
+    });
+  });
+
+  it("rejects invalid fields, naming them", () => {
+    expect(() => parseCron("0 9 * *")).toThrow("needs 5 fields");
+    expect(() => parseCron("60 9 * * *")).toThrow("not a valid minute");
+    expect(() => parseCron("0 9 * * fri-mon")).toThrow("empty range");
+    expect(() => parseCron("*/0 9 * * *")).toThrow("invalid step");
+    expect(() => parseCron("0 9 * smarch *")).toThrow("not a valid month");
+  });
+});
+
+describe("cronMatches", () => {
+  it("fires on a day matching either the day of month or the weekday", () => {
+    const schedule = parseCron("0 9 13 * fri");
+    // Friday the 6th, Tuesday the 13th, Wednesday the 11th
+    expect(cronMatches(schedule, new Date("2026-03-06T09:00"))).toBe(true);
+    expect(cronMatches(schedule, new Date("2026-01-13T09:00"))).toBe(true);
+    expect(cronMatches(schedule, new Date("2026-03-11T09:00"))).toBe(false);
+  });
+
+  it("needs both when only one of them is restricted", () => {
+    const schedule = parseCron("0 9 13 * *");
+    expect(cronMatches(schedule, new Date("2026-03-13T09:00"))).toBe(true);
+    expect(cronMatches(schedule, new Date("2026-03-06T09:00"))).toBe(false);
+  });
+});
+
+describe("nextCronTime", () => {
+  it("finds the next firing, skipping to the right weekday", () => {
+    // Saturday evening to Monday morning
+    expect(
+      nextCronTime(parseCron("0 9 * * mon-fri"), new Date("2026-03-07T18:00")),
+    ).toEqual(new Date("2026-03-09T09:00"));
+  });
+
+  it("fires after, never at, the given time", () => {
+    expect(
+      nextCronTime(parseCron("0 9 * * *"), new Date("2026-03-09T09:00")),
+    ).toEqual(new Date("2026-03-10T09:00"));
+  });
+
+  it("finds Feb 29 up to a year ahead", () => {
+    const leapDay = parseCron("0 0 29 2 *");
+    expect(nextCronTime(leapDay, new Date("2027-03-01T00:00"))).toEqual(
+      new Date("2028-02-29T00:00"),
+    );
+    // The next one is two years away
+    expect(nextCronTime(leapDay, new Date("2026-03-01T00:00"))).toBeUndefined();
+    expect(
+      nextCronTime(parseCron("0 0 30 2 *"), new Date("2026-03-01T00:00")),
+    ).toBeUndefined();
+  });
+
+  it("skips a firing in the hour lost to daylight saving time", () => {
+    // 02:00 to 03:00 doesn't exist in Berlin on 2026-03-29
+    expect(
+      nextCronTime(parseCron("30 2 * * *"), new Date("2026-03-28T12:00")),
+    ).toEqual(new Date("2026-03-30T02:30"));
+  });
+
+  it("fires once in the hour repeated by daylight saving time", () => {
+    // 02:00 to 03:00 happens twice in Berlin on 2026-10-25
+    const schedule = parseCron("30 2 * * *");
+    const first = nextCronTime(schedule, new Date("2026-10-25T00:00"));
+    expect(first).toEqual(new Date("2026-10-25T02:30+02:00"));
+    expect(nextCronTime(schedule, first ?? new Date())).toEqual(
+      new Date("2026-10-26T02:30"),
+    );
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Cron expressions for scheduled rules (see `./rules`).
+ *
+ * The usual five fields, in local time:
+ *
+ *   minute hour day-of-month month weekday
+ *   0      9    *            *     mon-fri
+ *
+ * Fields take `*`, numbers, ranges (`1-5`), steps (`0-59/15`, `8-18/2`) and
+ * comma-separated lists of those; months and weekdays also take names
+ * (`jan`, `mon`), and Sunday is 0 or 7. As in cron, when both day-of-month
+ * and weekday are restricted a day matching either one fires. `@hourly`,
+ * `@daily`, `@weekly` and `@monthly` are shorthands.
+ */
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  /** 0 = Sunday */
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MONTH_NAMES = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+const FIELDS: FieldSpec[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded to 0
+  { name: "weekday", min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+const SHORTHANDS: Record<string, string> = {
+  "@hourly": "0 * * * *",
+  "@daily": "0 0 * * *",
+  "@weekly": "0 0 * * 0",
+  "@monthly": "0 0 1 * *",
+};
+
+/** How far `nextCronTime` looks ahead before giving up (Feb 30 never comes) */
+const MAX_LOOKAHEAD_MS = 366 * 24 * 60 * 60 * 1000;
+
+function fieldValue(text: string, spec: FieldSpec): number {
+  const lower = text.toLowerCase();
+  const named = spec.names?.indexOf(lower.slice(0, 3)) ?? -1;
+  if (named !== -1 && /^[a-z]+$/u.test(lower)) {
+    return named + (spec.names === MONTH_NAMES ? 1 : 0);
+  }
+  if (/^\d+$/u.test(text)) {
+    const value = Number(text);
+    if (value >= spec.min && value <= spec.max) {
+      return value;
+    }
+  }
+  throw new Error(`"${text}" is not a valid ${spec.name}`);
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`"${part}" has an invalid step in the ${spec.name}`);
+    }
+    let first = spec.min;
+    let last = spec.max;
+    if (range !== "*") {
+      const [from, to] = range.split("-");
+      first = fieldValue(from, spec);
+      // "5/15" means from 5 to the end, as in cron
+      last =
+        to === undefined ? (stepText ? spec.max : first) : fieldValue(to, spec);
+    }
+    if (first > last) {
+      throw new Error(`"${part}" is an empty range in the ${spec.name}`);
+    }
+    for (let value = first; value <= last; value += step) {
+      values.add(spec.names === WEEKDAY_NAMES ? value % 7 : value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression. Throws naming the field that's wrong.
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (SHORTHANDS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/u);
+  if (fields.length !== FIELDS.length) {
+    throw new Error(
+      `"${trimmed}" needs 5 fields: minute hour day-of-month month weekday`,
+    );
+  }
+  const [minutes, hours, days, months, weekdays] = fields.map((field, index) =>
+    parseField(field, FIELDS[index]),
+  );
+  return {
+    expression: trimmed,
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    daysRestricted: !fields[2].startsWith("*"),
+    weekdaysRestricted: !fields[4].startsWith("*"),
+  };
+}
+
+/**
+ * Parse a weekday list such as "mon-fri" or "sat,sun". An empty text
+ * allows every day.
+ */
+export function parseWeekdays(text: string): Set<number> {
+  const trimmed = text.trim();
+  return parseField(
+    trimmed === "" ? "*" : trimmed.replaceAll(" ", ""),
+    FIELDS[4],
+  );
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const day = schedule.days.has(date.getDate());
+  const weekday = schedule.weekdays.has(date.getDay());
+  if (schedule.daysRestricted && schedule.weekdaysRestricted) {
+    return day || weekday;
+  }
+  return day && weekday;
+}
+
+/**
+ * Whether the schedule fires in the minute of `date`.
+ */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getMinutes()) &&
+    schedule.hours.has(date.getHours()) &&
+    schedule.months.has(date.getMonth() + 1) &&
+    dayMatches(schedule, date)
+  );
+}
+
+/**
+ * First time after `after` the schedule fires, or undefined when it
+ * doesn't within a year.
+ */
+export function nextCronTime(
+  schedule: CronSchedule,
+  after: Date,
+): Date | undefined {
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+  const next = new Date(after);
+  next.setSeconds(0, 0);
+  next.setMinutes(next.getMinutes() + 1);
+  // Skip whole months, days and hours that can't match
+  while (next.getTime() <= limit) {
+    if (!schedule.months.has(next.getMonth() + 1)) {
+      next.setMonth(next.getMonth() + 1, 1);
+      next.setHours(0, 0);
+    } else if (!dayMatches(schedule, next)) {
+      next.setDate(next.getDate() + 1);
+      next.setHours(0, 0);
+    } else if (!schedule.hours.has(next.getHours())) {
+      next.setHours(next.getHours() + 1, 0);
+    } else if (schedule.minutes.has(next.getMinutes())) {
+      return next;
+    } else {
+      next.setMinutes(next.getMinutes() + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Times the schedule fires in `(from, to]`, oldest first.
+ */
+export function cronTimesBetween(
+  schedule: CronSchedule,
+  from: Date,
+  to: Date,
+): Date[] {
+  const times: Date[] = [];
+  for (
+    let next = nextCronTime(schedule, from);
+    next !== undefined && next.getTime() <= to.getTime();
+    next = nextCronTime(schedule, next)
+  ) {
+    times.push(next);
+  }
+  return times;
+}
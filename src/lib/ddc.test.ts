@@ -0,0 +1,86 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { configureShim } from "../cli/raycast-shim";
+import { createSimulatedBackend } from "./backends/simulated";
+import { switchTargets } from "./ddc";
+import { DEFAULT_SWITCH_POLICY, SwitchPolicy } from "./verify";
+
+describe("switchTargets", () => {
+  let directory: string;
+  let hookLog: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "monitor-switch-"));
+    hookLog = join(directory, "hooks.log");
+    configureShim({
+      preferences: {},
+      storagePath: join(directory, "storage.json"),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const policyWithHooks = (pre: string): SwitchPolicy => ({
+    ...DEFAULT_SWITCH_POLICY,
+    pollIntervalMs: 10,
+    hooks: {
+      pre: { command: pre, timeoutMs: 5000 },
+      post: {
+        command: `echo "post $MONITOR_SWITCH_MONITORS $MONITOR_SWITCH_STATUS" >> "${hookLog}"`,
+        timeoutMs: 5000,
+      },
+      abortOnPreFailure: true,
+    },
+  });
+
+  it("runs each hook once around every group of monitors", async () => {
+    const backend = createSimulatedBackend();
+    const results = await switchTargets(
+      backend,
+      [
+        { inputValue: 0x11, monitorIds: ["1"], fromValue: 0x0f },
+        { inputValue: 0x12, monitorIds: ["2"], fromValue: 0x11 },
+      ],
+      policyWithHooks(
+        `echo "pre $MONITOR_SWITCH_FROM $MONITOR_SWITCH_TO" >> "${hookLog}"`,
+      ),
+    );
+    expect(results.map((result) => result.status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(await backend.getVcp("1", 0x60)).toBe(0x11);
+    expect(await backend.getVcp("2", 0x60)).toBe(0x12);
+    expect((await readFile(hookLog, "utf-8")).trim().split("\n")).toEqual([
+      "pre 15 17",
+      "post 1,2 success",
+    ]);
+    expect(results[0].message).toBe(
+      "Pre-switch hook ran\nPost-switch hook ran",
+    );
+    expect(results[1].message).toBe("");
+  });
+
+  it("cancels every group when the pre-switch hook fails", async () => {
+    const backend = createSimulatedBackend();
+    const before = await backend.getVcp("2", 0x60);
+    const results = await switchTargets(
+      backend,
+      [
+        { inputValue: 0x0f, monitorIds: ["1"] },
+        { inputValue: 0x0f, monitorIds: ["2"] },
+      ],
+      policyWithHooks("exit 3"),
+    );
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({
+      status: "failure",
+      title: "Switch to DP-1 (0x0F) cancelled",
+    });
+    expect(await backend.getVcp("2", 0x60)).toBe(before);
+  });
+});
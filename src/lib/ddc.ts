@@ -2,279 +2,234 @@
  * DDC/CI (Display Data Channel Command Interface) control module.
  *
  * Provides cross-platform abstraction for sending DDC/CI commands to monitors.
- * - macOS: Uses m1ddc CLI tool
- * - Windows: Uses ControlMyMonitor.exe from NirSoft
+ * The actual tool is hidden behind a `DdcBackend` (see `./backends`):
+ * - macOS: m1ddc CLI tool
+ * - Windows: ControlMyMonitor.exe from NirSoft
+ * - Linux: ddcutil (requires the i2c-dev kernel module)
+ * - Anywhere: an in-memory simulated monitor
+ *
+ * This module switches inputs (verified by `./switch-verification`) and
+ * reads them; `./discovery` finds out which inputs a monitor has.
  *
  * VCP Code Reference:
  * - 0x60 (96 decimal): Input Source Select
  * - Common input values: 15=DP, 17=HDMI1, 18=HDMI2 (monitor-specific)
  */
 
-import { execSync, ExecSyncOptions } from "node:child_process";
-import { SupportedPlatform } from "./platform";
-import { GenericSuccess, ToastResult } from "./toast";
-
-/** VCP code for Input Source Select (DDC/CI standard) */
-const VCP_INPUT_SOURCE = 60;
-
-/** Options for command execution */
-const EXEC_OPTIONS: ExecSyncOptions = {
-  encoding: "utf-8",
-  timeout: 10000,
-  windowsHide: true,
-};
-
-export interface SwitchResult {
-  success: boolean;
-  message: string;
-  /** Raw command output for debugging */
-  rawOutput?: string;
-}
-
-export interface InputDiscovery {
-  success: boolean;
+import { DdcBackend } from "./backends";
+import { DdcFailure } from "./errors";
+import { recordSwitch } from "./history";
+import { withSwitchHooks } from "./hooks";
+import { formatInput } from "./mccs";
+import { applyModelQuirks, modelQuirksFor } from "./model-mappings";
+import { withMonitorLock } from "./switch-lock";
+import {
+  OUTCOME_STATUS,
+  SwitchResult,
+  writeInputSource,
+} from "./switch-verification";
+import { ToastResult } from "./toast";
+import { VCP_INPUT_SOURCE } from "./vcp";
+import { DEFAULT_SWITCH_POLICY, SwitchPolicy } from "./verify";
+
+/** Input source read from one monitor */
+export interface InputReading {
+  monitorId: string;
   currentValue?: number;
-  availableInfo?: string;
   error?: string;
+  failure?: DdcFailure;
+}
+
+/** Monitors to switch to one input */
+export interface SwitchTarget {
+  inputValue: number;
+  monitorIds: string[];
+  /** Input the monitors were on, when the caller read it (for the history) */
+  fromValue?: number;
 }
 
 /**
  * Switch monitor input to the specified DDC/CI input value.
  *
+ * Each targeted monitor gets the write retried on transient errors, then its
+ * input is read back until it reports the target value (see `./verify`).
+ * Every monitor is attempted even if an earlier one fails; the toast result
+ * reflects the worst outcome. The policy's pre- and post-switch hooks run
+ * around the whole switch (see `./hooks`).
+ *
+ * @param backend - DDC/CI backend to send the command through
  * @param inputValue - DDC/CI input source value (e.g., 15 for DP, 17 for HDMI)
- * @param controlMyMonitorPath - Path to ControlMyMonitor.exe (Windows only)
- * @param monitorId - Monitor identifier for ControlMyMonitor (Windows only, default: "Primary")
+ * @param monitorIds - Backend-specific monitor identifiers (see `resolveMonitorTargets`)
+ * @param policy - Retry and verification settings
+ * @param fromValue - Input the monitors were on, when the caller read it (for the history)
  */
-export function switchInput(
-  platformOs: SupportedPlatform,
+export async function switchInput(
+  backend: DdcBackend,
   inputValue: number,
-  monitorId: string,
-  exePath: string,
-): ToastResult {
-  // Validate prerequisites first
-  // const platform = detectPlatform();
-  // const platformValidation = validateHostPlatform(platform);
-  // if (platformValidation.status == "failure") {
-  //   return platformValidation;
-  // }
-
-  const switchResult =
-    platformOs === "darwin"
-      ? switchInputMacToWindows(inputValue, exePath)
-      : switchInputWindowsToMac(inputValue, monitorId, exePath);
-  if (!switchResult.success) {
-    return {
-      status: "failure",
-      title: `Failed to switch to input ${inputValue} via ${exePath}`,
-      message: switchResult.message + " :: " + (switchResult.rawOutput || ""),
-    };
-  }
-  return GenericSuccess;
+  monitorIds: string[],
+  policy: SwitchPolicy = DEFAULT_SWITCH_POLICY,
+  fromValue?: number,
+): Promise<ToastResult> {
+  const [result] = await switchTargets(
+    backend,
+    [{ inputValue, monitorIds, fromValue }],
+    policy,
+  );
+  return result;
 }
 
 /**
- * Switch input on macOS using m1ddc.
+ * Switch several groups of monitors at once, each group to its own input
+ * (a toggle, or learned names that differ per monitor), with one result per
+ * group.
+ *
+ * The policy's hooks run once around all of them. They are told about
+ * every monitor, and the inputs of the first group.
  */
-function switchInputMacToWindows(
-  inputValue: number,
-  exePath: string,
-): SwitchResult {
-  try {
-    const quotedPath = `"${exePath}"`;
-    const command = `${quotedPath} set input ${inputValue}`;
-    const output = execSync(command, EXEC_OPTIONS) as string;
-
-    return {
-      success: true,
-      message: `Switched to input ${inputValue}`,
-      rawOutput: output.trim(),
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-
-    // Check for common m1ddc errors
-    if (errorMessage.includes("No displays found")) {
-      return {
-        success: false,
-        message:
-          "No DDC/CI compatible displays found. Is the monitor connected and awake?",
-      };
-    }
-    if (errorMessage.includes("DDC communication failed")) {
-      return {
-        success: false,
-        message:
-          "DDC/CI communication failed. Try a different cable or check monitor DDC settings.",
-      };
-    }
-
-    return {
-      success: false,
-      message: `m1ddc error: ${errorMessage}`,
-    };
+export async function switchTargets(
+  backend: DdcBackend,
+  targets: SwitchTarget[],
+  policy: SwitchPolicy = DEFAULT_SWITCH_POLICY,
+): Promise<ToastResult[]> {
+  const switchAll = (groups: SwitchTarget[]) =>
+    Promise.all(groups.map((group) => switchMonitors(backend, group, policy)));
+  const { hooks } = policy;
+  const [first] = targets;
+  if (!hooks || !first) {
+    return switchAll(targets);
   }
+  // Hooks are told the source input, so read it if the caller didn't
+  const fromValue =
+    first.fromValue ??
+    (await readInputSource(backend, first.monitorIds[0] ?? "Primary"))
+      .currentValue;
+  return withSwitchHooks(
+    hooks,
+    {
+      backendId: backend.id,
+      monitorIds: targets.flatMap((target) => target.monitorIds),
+      fromValue,
+      toValue: first.inputValue,
+    },
+    () => switchAll([{ ...first, fromValue }, ...targets.slice(1)]),
+  );
 }
 
-/**
- * Switch input on Windows using ControlMyMonitor.
- */
-function switchInputWindowsToMac(
-  inputValue: number,
-  monitorId: string,
-  exePath: string,
-): SwitchResult {
-  try {
-    // Escape path for command line (handle spaces)
-    const quotedPath = `"${exePath}"`;
-    const command = `${quotedPath} /SetValue "${monitorId}" ${VCP_INPUT_SOURCE} ${inputValue}`;
-    const output = execSync(command, {
-      ...EXEC_OPTIONS,
-      shell: "cmd.exe",
-    }) as string;
-
-    return {
-      success: true,
-      message: `Switched to input ${inputValue}`,
-      rawOutput: output.trim(),
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
+async function switchMonitors(
+  backend: DdcBackend,
+  { inputValue, monitorIds, fromValue }: SwitchTarget,
+  policy: SwitchPolicy,
+): Promise<ToastResult> {
+  // Monitors usually sit on separate buses, so switch them in parallel
+  const results = await Promise.all(
+    monitorIds.map((monitorId) =>
+      setInputSource(backend, inputValue, monitorId, policy, fromValue),
+    ),
+  );
+  const statuses = results.map((result) => OUTCOME_STATUS[result.outcome]);
+  const status = statuses.includes("failure")
+    ? "failure"
+    : statuses.includes("soft-fail")
+      ? "soft-fail"
+      : "success";
+
+  if (results.length === 1) {
+    const [result] = results;
     return {
-      success: false,
-      message: `ControlMyMonitor error: ${errorMessage}`,
+      status,
+      title:
+        result.outcome === "failed"
+          ? `Failed to switch to ${formatInput(inputValue)} via ${backend.title}`
+          : result.message,
+      // Raw tool output only helps when something went wrong
+      message:
+        status === "success"
+          ? ""
+          : [
+              result.outcome === "failed" ? result.message : "",
+              result.rawOutput ?? "",
+            ]
+              .filter(Boolean)
+              .join(" :: "),
+      failure: result.failure,
     };
   }
+
+  const switched = results.filter((result) => result.success).length;
+  return {
+    status,
+    title:
+      switched === results.length
+        ? `Switched ${switched} monitors to ${formatInput(inputValue)}`
+        : `Switched ${switched} of ${results.length} monitors to ${formatInput(inputValue)}`,
+    message: results
+      .filter((result) => result.outcome !== "switched")
+      .map((result) => `${result.monitorId}: ${result.message}`)
+      .join("\n"),
+    failure: results.find((result) => result.failure)?.failure,
+  };
 }
 
 /**
- * Discover the current input value and available DDC/CI information.
+ * Write VCP 0x60 through the backend, then verify it took effect.
  *
- * Useful for determining correct input codes for your specific monitor.
+ * Lower-level than `switchInput`: one monitor, and the detailed outcome.
+ * With `policy.lock` the write holds the monitor's switch lock. Quirks of
+ * the monitor's model (see `./model-mappings`) adjust the policy.
+ * Every attempt is recorded in the switch history (see `./history`).
  */
-export function discoverInputs(
-  platformOs: SupportedPlatform,
+export async function setInputSource(
+  backend: DdcBackend,
+  inputValue: number,
   monitorId: string,
-  exePath: string,
-): InputDiscovery {
-  // const prereqError = validateHostPlatform(exePath);
-  // if (prereqError) {
-  //   return { success: false, error: prereqError };
-  // }
-
-  // const platform = detectPlatform();
-  return platformOs === "darwin"
-    ? discoverInputsMacOS(exePath)
-    : discoverInputsWindows(exePath, monitorId);
+  policy: SwitchPolicy,
+  fromValue?: number,
+): Promise<SwitchResult> {
+  const startedAt = new Date();
+  // Quirks are a refinement: a broken model database mustn't stop switches
+  const quirks = await modelQuirksFor(backend, monitorId).catch(() => null);
+  const monitorPolicy = quirks ? applyModelQuirks(policy, quirks) : policy;
+  const write = () =>
+    writeInputSource(backend, inputValue, monitorId, monitorPolicy);
+  const result = policy.lock
+    ? await withMonitorLock(
+        `${backend.id}:${monitorId}`,
+        policy.lock,
+        write,
+        ({ reason, message }): SwitchResult => ({
+          monitorId,
+          success: false,
+          outcome: reason,
+          message,
+        }),
+      )
+    : await write();
+  await recordSwitch(
+    backend.id,
+    result,
+    { fromValue, toValue: inputValue },
+    startedAt,
+  );
+  return result;
 }
 
 /**
- * Discover inputs on macOS using m1ddc.
+ * Read VCP 0x60 from one monitor.
  */
-function discoverInputsMacOS(exePath: string): InputDiscovery {
+export async function readInputSource(
+  backend: DdcBackend,
+  monitorId: string,
+): Promise<InputReading> {
   try {
-    // Get current input value
-    const quotedPath = `"${exePath}"`;
-    const currentInput = execSync(
-      `${quotedPath} get input`,
-      EXEC_OPTIONS,
-    ) as string;
-    const currentValue = parseInt(currentInput.trim(), 10);
-
-    // Get display list for additional info
-    let displayInfo = "";
-    try {
-      displayInfo = execSync(
-        `${quotedPath} display list`,
-        EXEC_OPTIONS,
-      ) as string;
-    } catch {
-      displayInfo = "(Could not retrieve display list)";
-    }
-
-    const info = [
-      "=== macOS DDC/CI Discovery (m1ddc) ===",
-      "",
-      `Current Input Value (VCP 0x60): ${currentValue}`,
-      "",
-      "Common Input Values:",
-      "  15 (0x0F) = DisplayPort",
-      "  17 (0x11) = HDMI-1",
-      "  18 (0x12) = HDMI-2",
-      "  (Values vary by monitor model)",
-      "",
-      "Detected Displays:",
-      displayInfo,
-      "",
-      "Tip: Switch to each input manually and run this command to discover the value:",
-      "  m1ddc get input",
-    ].join("\n");
-
     return {
-      success: true,
-      currentValue: isNaN(currentValue) ? undefined : currentValue,
-      availableInfo: info,
+      monitorId,
+      currentValue: await backend.getVcp(monitorId, VCP_INPUT_SOURCE),
     };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return { success: false, error: `m1ddc error: ${errorMessage}` };
-  }
-}
-
-/**
- * Discover inputs on Windows using ControlMyMonitor.
- */
-function discoverInputsWindows(
-  exePath: string,
-  monitorId: string,
-): InputDiscovery {
-  try {
-    const quotedPath = `"${exePath}"`;
-
-    // Get all VCP values for the monitor
-    const monitorInfo = execSync(`${quotedPath} /smonitors`, {
-      ...EXEC_OPTIONS,
-      shell: "cmd.exe",
-    }) as string;
-
-    // Try to get current input value specifically
-    let currentValue: number | undefined;
-    try {
-      const inputInfo = execSync(
-        `${quotedPath} /GetValue "${monitorId}" ${VCP_INPUT_SOURCE}`,
-        { ...EXEC_OPTIONS, shell: "cmd.exe" },
-      ) as string;
-      currentValue = parseInt(inputInfo.trim(), 10);
-      if (isNaN(currentValue)) currentValue = undefined;
-    } catch {
-      // GetValue might not be supported, continue without it
-    }
-
-    const info = [
-      "=== Windows DDC/CI Discovery (ControlMyMonitor) ===",
-      "",
-      currentValue === undefined
-        ? "Current Input Value: (Could not read)"
-        : `Current Input Value (VCP 0x60): ${currentValue}`,
-      "",
-      "Common Input Values:",
-      "  15 (0x0F) = DisplayPort",
-      "  17 (0x11) = HDMI-1",
-      "  18 (0x12) = HDMI-2",
-      "  (Values vary by monitor model)",
-      "",
-      "Detected Monitors:",
-      monitorInfo,
-      "",
-      "Tip: Use the ControlMyMonitor GUI to explore all VCP values.",
-    ].join("\n");
-
     return {
-      success: true,
-      currentValue,
-      availableInfo: info,
+      monitorId,
+      error: backend.describeError(error),
+      failure: backend.classifyError(error),
     };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return { success: false, error: `ControlMyMonitor error: ${errorMessage}` };
   }
 }
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { createDdcCiClient, DdcCiTiming } from "./client";
+import { parseEdidSummary } from "./edid";
+import { DDC_CI_ADDRESS } from "./protocol";
+import { createSimulatedMonitor } from "./simulated-monitor";
+import { I2cTransport } from "./transport";
+
+/** No delays, so the tests don't wait on the DDC/CI timing */
+const FAST: DdcCiTiming = { replyDelayMs: 0, commandGapMs: 0, attempts: 3 };
+
+/** Flip the checksum of the next `count` DDC/CI replies */
+function corruptReplies(transport: I2cTransport, count: number): I2cTransport {
+  let left = count;
+  return {
+    ...transport,
+    async read(address, length) {
+      const reply = await transport.read(address, length);
+      if (address !== DDC_CI_ADDRESS || left === 0) {
+        return reply;
+      }
+      left -= 1;
+      const corrupted = Uint8Array.from(reply);
+      corrupted[(reply[1] & 0x7f) + 2] ^= 0xff;
+      return corrupted;
+    },
+  };
+}
+
+describe("DDC/CI client", () => {
+  it("frames a Get VCP request and decodes the reply", async () => {
+    const monitor = createSimulatedMonitor({ values: { 0x10: 70 } });
+    const client = createDdcCiClient(monitor.transport, FAST);
+    expect(await client.getVcp(0x10)).toEqual({
+      vcpCode: 0x10,
+      type: 0,
+      current: 70,
+      max: 100,
+    });
+    // Source 0x51, length 0x82, opcode 0x01, code 0x10, checksum from 0x6E
+    expect([...monitor.requests[0]]).toEqual([0x51, 0x82, 0x01, 0x10, 0xac]);
+  });
+
+  it("writes Set VCP as one framed request without a reply", async () => {
+    const monitor = createSimulatedMonitor();
+    const client = createDdcCiClient(monitor.transport, FAST);
+    await client.setVcp(0x60, 0x11);
+    expect([...monitor.requests[0]]).toEqual([
+      0x51, 0x84, 0x03, 0x60, 0x00, 0x11, 0xc9,
+    ]);
+    expect(monitor.values.get(0x60)).toBe(0x11);
+  });
+
+  it("retries a reply with a bad checksum", async () => {
+    const monitor = createSimulatedMonitor({ values: { 0x60: 0x0f } });
+    const client = createDdcCiClient(
+      corruptReplies(monitor.transport, 1),
+      FAST,
+    );
+    expect((await client.getVcp(0x60)).current).toBe(0x0f);
+    expect(monitor.requests).toHaveLength(2);
+  });
+
+  it("gives up when every reply is corrupted", async () => {
+    const monitor = createSimulatedMonitor();
+    const client = createDdcCiClient(
+      corruptReplies(monitor.transport, 10),
+      FAST,
+    );
+    await expect(client.getVcp(0x60)).rejects.toThrow(
+      "reply checksum mismatch",
+    );
+    expect(monitor.requests).toHaveLength(FAST.attempts);
+  });
+
+  it("asks again after null replies from a busy monitor", async () => {
+    const monitor = createSimulatedMonitor({ busyReplies: 2 });
+    const client = createDdcCiClient(monitor.transport, FAST);
+    expect((await client.getVcp(0x62)).current).toBe(30);
+    expect(monitor.requests).toHaveLength(3);
+  });
+
+  it("fails once a busy monitor outlasts the attempts", async () => {
+    const monitor = createSimulatedMonitor({ busyReplies: 5 });
+    const client = createDdcCiClient(monitor.transport, FAST);
+    await expect(client.getVcp(0x62)).rejects.toThrow("monitor busy");
+    expect(monitor.requests).toHaveLength(FAST.attempts);
+  });
+
+  it("reports an unsupported code without retrying", async () => {
+    const monitor = createSimulatedMonitor();
+    const client = createDdcCiClient(monitor.transport, FAST);
+    await expect(client.getVcp(0xe0)).rejects.toThrow(
+      "Unsupported VCP code 0xe0 (result code 1)",
+    );
+    expect(monitor.requests).toHaveLength(1);
+  });
+
+  it("reads a capabilities string over several fragments", async () => {
+    const capabilities = `(prot(monitor)type(lcd)model(LONG)vcp(${Array.from(
+      { length: 30 },
+      (_, index) => (0x10 + index).toString(16).toUpperCase(),
+    ).join(" ")}))`;
+    const monitor = createSimulatedMonitor({ capabilities });
+    const client = createDdcCiClient(monitor.transport, FAST);
+    expect(await client.getCapabilities()).toBe(capabilities);
+    // One request per 32 bytes, plus the one answered with an empty fragment
+    expect(monitor.requests).toHaveLength(
+      Math.ceil(capabilities.length / 32) + 1,
+    );
+  });
+
+  it("reads the EDID block", async () => {
+    const monitor = createSimulatedMonitor({
+      model: "DELL U2720Q",
+      serial: "ABC123",
+    });
+    const client = createDdcCiClient(monitor.transport, FAST);
+    expect(parseEdidSummary(await client.readEdid())).toMatchObject({
+      name: "DELL U2720Q",
+      serial: "ABC123",
+    });
+  });
+
+  it("keeps concurrent calls from reading each other's replies", async () => {
+    const monitor = createSimulatedMonitor({
+      values: { 0x10: 10, 0x12: 20, 0x62: 30 },
+    });
+    const client = createDdcCiClient(monitor.transport, {
+      ...FAST,
+      replyDelayMs: 5,
+    });
+    const replies = await Promise.all(
+      [0x10, 0x12, 0x62].map((code) => client.getVcp(code)),
+    );
+    expect(replies.map((reply) => reply.current)).toEqual([10, 20, 30]);
+    expect(monitor.requests).toHaveLength(3);
+  });
+});
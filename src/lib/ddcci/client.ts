@@ -0,0 +1,145 @@
+/**
+ * DDC/CI client: VCP reads and writes and the capabilities string over an
+ * I2C transport.
+ *
+ * Monitors need time between messages. The DDC/CI spec asks for 40 ms
+ * between a request and reading its reply and 50 ms before the next
+ * request; cheap monitors often need more, so the delays are configurable.
+ * Calls on one client are queued, so concurrent callers never interleave
+ * a request with another request's reply.
+ */
+
+import { setTimeout } from "node:timers/promises";
+import { DEFAULT_SWITCH_POLICY, SwitchPolicy, withRetry } from "../verify";
+import {
+  CAPABILITIES_REPLY_LENGTH,
+  DDC_CI_ADDRESS,
+  EDID_ADDRESS,
+  encodeCapabilitiesRequest,
+  encodeGetVcp,
+  encodeSetVcp,
+  GET_VCP_REPLY_LENGTH,
+  parseCapabilitiesReply,
+  parseVcpReply,
+  VcpReply,
+} from "./protocol";
+import { I2cTransport } from "./transport";
+
+export interface DdcCiTiming {
+  /** Wait between a request and reading its reply */
+  replyDelayMs: number;
+  /** Minimum gap between the end of one command and the next request */
+  commandGapMs: number;
+  /** Attempts per message when the reply is garbled or null */
+  attempts: number;
+}
+
+export const DEFAULT_DDC_CI_TIMING: DdcCiTiming = {
+  replyDelayMs: 40,
+  commandGapMs: 50,
+  attempts: 3,
+};
+
+/** Stop reading capabilities past this size; real strings are < 1 KB */
+const MAX_CAPABILITIES_BYTES = 4096;
+
+/** Size of the EDID base block */
+const EDID_BLOCK_LENGTH = 128;
+
+export interface DdcCiClient {
+  getVcp(vcpCode: number): Promise<VcpReply>;
+  setVcp(vcpCode: number, value: number): Promise<void>;
+  /** Raw MCCS capabilities string (see `../mccs`) */
+  getCapabilities(): Promise<string>;
+  /** EDID base block, read from the EEPROM at 0x50 */
+  readEdid(): Promise<Uint8Array>;
+}
+
+export function createDdcCiClient(
+  transport: I2cTransport,
+  timing: DdcCiTiming = DEFAULT_DDC_CI_TIMING,
+): DdcCiClient {
+  const retryPolicy: SwitchPolicy = {
+    ...DEFAULT_SWITCH_POLICY,
+    attempts: timing.attempts,
+    initialBackoffMs: timing.commandGapMs,
+  };
+  let queue: Promise<unknown> = Promise.resolve();
+  let readyAt = 0;
+
+  // Runs one command after the previous one and the inter-command gap
+  const exclusive = <T>(command: () => Promise<T>): Promise<T> => {
+    const run = async () => {
+      const wait = readyAt - Date.now();
+      if (wait > 0) {
+        await setTimeout(wait);
+      }
+      try {
+        return await command();
+      } finally {
+        readyAt = Date.now() + timing.commandGapMs;
+      }
+    };
+    const result = queue.then(run, run);
+    queue = result.catch(() => null);
+    return result;
+  };
+
+  const request = async (data: Uint8Array, replyLength: number) => {
+    await transport.write(DDC_CI_ADDRESS, data);
+    await setTimeout(timing.replyDelayMs);
+    return transport.read(DDC_CI_ADDRESS, replyLength);
+  };
+
+  return {
+    getVcp: (vcpCode) =>
+      exclusive(async () => {
+        const { value } = await withRetry(
+          async () =>
+            parseVcpReply(
+              await request(encodeGetVcp(vcpCode), GET_VCP_REPLY_LENGTH),
+              vcpCode,
+            ),
+          retryPolicy,
+        );
+        return value;
+      }),
+
+    setVcp: (vcpCode, value) =>
+      // Set VCP Feature has no reply; the caller verifies by reading back
+      exclusive(() =>
+        transport.write(DDC_CI_ADDRESS, encodeSetVcp(vcpCode, value)),
+      ),
+
+    getCapabilities: () =>
+      exclusive(async () => {
+        const bytes: number[] = [];
+        while (bytes.length < MAX_CAPABILITIES_BYTES) {
+          const offset = bytes.length;
+          const { value: fragment } = await withRetry(
+            async () =>
+              parseCapabilitiesReply(
+                await request(
+                  encodeCapabilitiesRequest(offset),
+                  CAPABILITIES_REPLY_LENGTH,
+                ),
+                offset,
+              ),
+            retryPolicy,
+          );
+          if (fragment.data.length === 0) {
+            break;
+          }
+          bytes.push(...fragment.data);
+          await setTimeout(timing.commandGapMs);
+        }
+        return Buffer.from(bytes).toString("latin1").replace(/\0+$/u, "");
+      }),
+
+    readEdid: () =>
+      exclusive(async () => {
+        await transport.write(EDID_ADDRESS, Uint8Array.of(0));
+        return transport.read(EDID_ADDRESS, EDID_BLOCK_LENGTH);
+      }),
+  };
+}
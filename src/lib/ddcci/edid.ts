@@ -0,0 +1,92 @@
+/**
+ * Minimal EDID reading: enough to name the monitor on an I2C bus and look
+ * it up in the model database.
+ *
+ * The EDID base block is 128 bytes: a fixed header, vendor and product IDs,
+ * then four 18-byte descriptors at offsets 54, 72, 90 and 108. Display
+ * descriptors (first two bytes zero) carry text such as the model name
+ * (tag 0xFC) and serial number (tag 0xFF).
+ */
+
+const EDID_HEADER = [0x00, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x00];
+const DESCRIPTOR_OFFSETS = [54, 72, 90, 108];
+const DESCRIPTOR_LENGTH = 18;
+export const EDID_TAG_SERIAL = 0xff;
+export const EDID_TAG_NAME = 0xfc;
+
+export interface EdidSummary {
+  /** Three-letter PNP manufacturer ID, e.g. "DEL" */
+  manufacturer: string;
+  productCode: number;
+  name?: string;
+  serial?: string;
+}
+
+/**
+ * Whether the bytes start with a valid EDID base block (header + checksum).
+ */
+export function isValidEdid(edid: Uint8Array): boolean {
+  return (
+    edid.length >= 128 &&
+    EDID_HEADER.every((byte, position) => edid[position] === byte) &&
+    edid.subarray(0, 128).reduce((sum, byte) => sum + byte, 0) % 256 === 0
+  );
+}
+
+/**
+ * Text of the display descriptor with `tag`, if the block has one.
+ */
+export function edidDescriptorText(
+  edid: Uint8Array,
+  tag: number,
+): string | undefined {
+  for (const offset of DESCRIPTOR_OFFSETS) {
+    const descriptor = edid.subarray(offset, offset + DESCRIPTOR_LENGTH);
+    if (descriptor[0] === 0 && descriptor[1] === 0 && descriptor[3] === tag) {
+      const text = Buffer.from(descriptor.subarray(5))
+        .toString("latin1")
+        .split("\n")[0]
+        .trim();
+      return text || undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Summarize an EDID base block; undefined if it isn't valid EDID.
+ */
+export function parseEdidSummary(edid: Uint8Array): EdidSummary | undefined {
+  if (!isValidEdid(edid)) {
+    return undefined;
+  }
+  // Manufacturer: three 5-bit letters, big endian, 1 = "A"
+  const packed = (edid[8] << 8) | edid[9];
+  const manufacturer = [10, 5, 0]
+    .map((shift) => String.fromCodePoint(((packed >> shift) & 0x1f) + 64))
+    .join("");
+  return {
+    manufacturer,
+    productCode: edid[10] | (edid[11] << 8),
+    name: edidDescriptorText(edid, EDID_TAG_NAME),
+    serial: edidDescriptorText(edid, EDID_TAG_SERIAL),
+  };
+}
+
+/**
+ * Manufacturer and product code from a Windows PnP monitor ID such as
+ * `MONITOR\DELA0F4\{4d36e96e-e325-11ce-bfc1-08002be10318}\0001`, which
+ * spells them as three letters and four hex digits.
+ */
+export function parsePnpMonitorId(
+  text: string,
+): Pick<EdidSummary, "manufacturer" | "productCode"> | undefined {
+  const match = text.match(/(?:^|\\)([A-Z]{3})([\dA-F]{4})(?:\\|$)/iu);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    manufacturer: match[1].toUpperCase(),
+    productCode: parseInt(match[2], 16),
+  };
+}
@@ -0,0 +1,178 @@
+/**
+ * DDC/CI message framing (VESA DDC/CI 1.1, MCCS 2.2).
+ *
+ * The host talks to the monitor at I2C address 0x37. Every message is
+ *
+ *   source address, 0x80 | payload length, payload..., checksum
+ *
+ * where the checksum XORs every byte before it, starting from the
+ * destination address: 0x6E (0x37 written) for host requests, 0x50 (the
+ * virtual host address) for monitor replies. This module only builds and
+ * checks byte arrays; `./client` adds the I2C traffic and timing.
+ */
+
+/** 7-bit I2C address of the DDC/CI command interface */
+export const DDC_CI_ADDRESS = 0x37;
+/** 7-bit I2C address of the EDID EEPROM */
+export const EDID_ADDRESS = 0x50;
+
+/** Source address of host requests */
+const HOST_ADDRESS = 0x51;
+/** Source address of monitor replies (0x37 shifted, write bit clear) */
+const DISPLAY_ADDRESS = 0x6e;
+/** Checksum seed of replies: the virtual host address */
+const REPLY_CHECKSUM_SEED = 0x50;
+
+export const OPCODE_GET_VCP = 0x01;
+export const OPCODE_GET_VCP_REPLY = 0x02;
+export const OPCODE_SET_VCP = 0x03;
+export const OPCODE_CAPABILITIES = 0xf3;
+export const OPCODE_CAPABILITIES_REPLY = 0xe3;
+
+/** Longest payload a DDC/CI message can carry */
+const MAX_PAYLOAD = 0x7f;
+
+/** Bytes to read for a Get VCP reply: address, length, 8 payload, checksum */
+export const GET_VCP_REPLY_LENGTH = 11;
+/** Bytes to read for a capabilities fragment: 3 header + 32 data bytes */
+export const CAPABILITIES_REPLY_LENGTH = 38;
+
+/** Decoded Get VCP Feature reply */
+export interface VcpReply {
+  vcpCode: number;
+  /** 0 = set parameter (continuous), 1 = momentary */
+  type: number;
+  current: number;
+  max: number;
+}
+
+/** Decoded Capabilities reply fragment */
+export interface CapabilitiesFragment {
+  offset: number;
+  /** Empty once the whole string has been sent */
+  data: Uint8Array;
+}
+
+export function xorChecksum(seed: number, bytes: Iterable<number>): number {
+  let checksum = seed;
+  for (const byte of bytes) {
+    checksum ^= byte;
+  }
+  return checksum;
+}
+
+/**
+ * Error for a garbled reply. The wording marks it as transient for
+ * `isTransientDdcError`, so writes and reads get retried.
+ */
+function garbled(reason: string): Error {
+  return new Error(`DDC communication failed: ${reason}`);
+}
+
+/**
+ * Frame a host request payload, ready to be written to address 0x37.
+ */
+export function encodeRequest(payload: number[]): Uint8Array {
+  if (payload.length > MAX_PAYLOAD) {
+    throw new RangeError(`DDC/CI payload too long: ${payload.length} bytes`);
+  }
+  const frame = [HOST_ADDRESS, 0x80 | payload.length, ...payload];
+  return Uint8Array.from([...frame, xorChecksum(DISPLAY_ADDRESS, frame)]);
+}
+
+export function encodeGetVcp(vcpCode: number): Uint8Array {
+  return encodeRequest([OPCODE_GET_VCP, vcpCode & 0xff]);
+}
+
+export function encodeSetVcp(vcpCode: number, value: number): Uint8Array {
+  if (!Number.isInteger(value) || value < 0 || value > 0xffff) {
+    throw new RangeError(`Invalid value ${value}: must be 0-65535`);
+  }
+  return encodeRequest([
+    OPCODE_SET_VCP,
+    vcpCode & 0xff,
+    value >> 8,
+    value & 0xff,
+  ]);
+}
+
+export function encodeCapabilitiesRequest(offset: number): Uint8Array {
+  return encodeRequest([OPCODE_CAPABILITIES, offset >> 8, offset & 0xff]);
+}
+
+/**
+ * Check a reply's framing and checksum and return its payload.
+ *
+ * A zero-length payload is the DDC/CI "null message" a monitor sends when
+ * it isn't ready; it decodes to an empty array.
+ */
+export function decodeReply(reply: Uint8Array): Uint8Array {
+  if (reply.length < 3 || reply[0] !== DISPLAY_ADDRESS) {
+    throw garbled("reply has no display address (monitor not answering)");
+  }
+  if ((reply[1] & 0x80) === 0) {
+    throw garbled("reply has an invalid length byte");
+  }
+  const length = reply[1] & 0x7f;
+  if (reply.length < length + 3) {
+    throw garbled(`reply truncated: expected ${length} payload bytes`);
+  }
+  const framed = reply.subarray(0, length + 2);
+  if (xorChecksum(REPLY_CHECKSUM_SEED, framed) !== reply[length + 2]) {
+    throw garbled("reply checksum mismatch");
+  }
+  return reply.slice(2, length + 2);
+}
+
+/**
+ * Decode a Get VCP Feature reply for `vcpCode`.
+ */
+export function parseVcpReply(reply: Uint8Array, vcpCode: number): VcpReply {
+  const payload = decodeReply(reply);
+  if (payload.length === 0) {
+    throw new Error("DDC/CI null reply: monitor busy");
+  }
+  if (payload[0] !== OPCODE_GET_VCP_REPLY || payload.length < 8) {
+    throw garbled(`unexpected reply opcode 0x${payload[0].toString(16)}`);
+  }
+  if (payload[2] !== vcpCode) {
+    throw garbled(
+      `reply is for VCP code 0x${payload[2].toString(16)}, not 0x${vcpCode.toString(16)}`,
+    );
+  }
+  if (payload[1] !== 0) {
+    // Result code 1 means unsupported; anything else is a protocol error
+    throw new Error(
+      `Unsupported VCP code 0x${vcpCode.toString(16).padStart(2, "0")} (result code ${payload[1]})`,
+    );
+  }
+  return {
+    vcpCode,
+    type: payload[3],
+    max: (payload[4] << 8) | payload[5],
+    current: (payload[6] << 8) | payload[7],
+  };
+}
+
+/**
+ * Decode a Capabilities Reply fragment requested at `offset`.
+ */
+export function parseCapabilitiesReply(
+  reply: Uint8Array,
+  offset: number,
+): CapabilitiesFragment {
+  const payload = decodeReply(reply);
+  if (payload.length === 0) {
+    throw new Error("DDC/CI null reply: monitor busy");
+  }
+  if (payload[0] !== OPCODE_CAPABILITIES_REPLY || payload.length < 3) {
+    throw garbled(`unexpected reply opcode 0x${payload[0].toString(16)}`);
+  }
+  const replyOffset = (payload[1] << 8) | payload[2];
+  if (replyOffset !== offset) {
+    throw garbled(
+      `capabilities fragment at offset ${replyOffset}, expected ${offset}`,
+    );
+  }
+  return { offset, data: payload.slice(3) };
+}
@@ -0,0 +1,196 @@
+/**
+ * In-memory monitor that speaks DDC/CI over an `I2cTransport`.
+ *
+ * It answers at the same byte level as real hardware (framing, checksums,
+ * null replies, capabilities fragments, EDID at 0x50), so the client and
+ * the native I2C backend can be exercised without a monitor attached.
+ */
+
+import {
+  DDC_CI_ADDRESS,
+  EDID_ADDRESS,
+  OPCODE_CAPABILITIES,
+  OPCODE_CAPABILITIES_REPLY,
+  OPCODE_GET_VCP,
+  OPCODE_GET_VCP_REPLY,
+  OPCODE_SET_VCP,
+  xorChecksum,
+} from "./protocol";
+import { EDID_TAG_NAME, EDID_TAG_SERIAL } from "./edid";
+import { I2cTransport } from "./transport";
+
+/** Request checksums start from the display's write address */
+const REQUEST_CHECKSUM_SEED = 0x6e;
+/** Reply checksums start from the virtual host address */
+const REPLY_CHECKSUM_SEED = 0x50;
+/** Capabilities bytes sent per fragment */
+const FRAGMENT_SIZE = 32;
+
+export interface SimulatedMonitorOptions {
+  model?: string;
+  serial?: string;
+  /** Initial VCP values; codes not listed are reported as unsupported */
+  values?: Record<number, number>;
+  /** Maximum of each code (default 100) */
+  max?: Record<number, number>;
+  capabilities?: string;
+  /** Null replies to send before the first real answer (busy monitor) */
+  busyReplies?: number;
+}
+
+export interface SimulatedMonitor {
+  transport: I2cTransport;
+  /** Current VCP values, updated by Set VCP requests */
+  values: Map<number, number>;
+  /** Requests received, as raw bytes */
+  requests: Uint8Array[];
+}
+
+const DEFAULT_VALUES: Record<number, number> = {
+  0x10: 50,
+  0x12: 50,
+  0x60: 0x0f,
+  0x62: 30,
+  0xd6: 1,
+};
+
+const DEFAULT_CAPABILITIES =
+  "(prot(monitor)type(lcd)model(SIM-I2C)cmds(01 02 03 0C E3 F3)vcp(10 12 60(0F 11 12) 62 D6(01 04 05))mccs_ver(2.2))";
+
+function frameReply(payload: number[]): Uint8Array {
+  const frame = [0x6e, 0x80 | payload.length, ...payload];
+  return Uint8Array.from([...frame, xorChecksum(REPLY_CHECKSUM_SEED, frame)]);
+}
+
+function textDescriptor(tag: number, text: string): number[] {
+  const bytes = [...Buffer.from(`${text.slice(0, 13)}\n`, "latin1")];
+  return [
+    0,
+    0,
+    0,
+    tag,
+    0,
+    ...bytes,
+    ...Array.from({ length: 13 - bytes.length }, () => 0x20),
+  ];
+}
+
+/**
+ * Build a valid EDID base block carrying the model name and serial.
+ */
+export function buildSimulatedEdid(model: string, serial: string): Uint8Array {
+  const edid = Array.from({ length: 128 }, () => 0);
+  edid.splice(0, 8, 0x00, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0x00);
+  // "SIM" as a PNP ID, product code 0x0001
+  edid.splice(8, 4, 0x4d, 0x2d, 0x01, 0x00);
+  edid.splice(18, 2, 1, 4);
+  edid.splice(54, 18, ...textDescriptor(EDID_TAG_NAME, model));
+  edid.splice(72, 18, ...textDescriptor(EDID_TAG_SERIAL, serial));
+  edid[127] = (256 - (edid.reduce((sum, byte) => sum + byte, 0) % 256)) % 256;
+  return Uint8Array.from(edid);
+}
+
+export function createSimulatedMonitor(
+  options: SimulatedMonitorOptions = {},
+): SimulatedMonitor {
+  const values = new Map(
+    Object.entries(options.values ?? DEFAULT_VALUES).map(
+      ([code, value]) => [Number(code), value] as [number, number],
+    ),
+  );
+  const capabilities = Buffer.from(
+    options.capabilities ?? DEFAULT_CAPABILITIES,
+    "latin1",
+  );
+  const edid = buildSimulatedEdid(
+    options.model ?? "SIM-I2C",
+    options.serial ?? "SIMI2C01",
+  );
+  const requests: Uint8Array[] = [];
+  let pending: Uint8Array = frameReply([]);
+  let busyLeft = options.busyReplies ?? 0;
+  let edidOffset = 0;
+
+  const answer = (request: Uint8Array): Uint8Array | undefined => {
+    const length = request[1] & 0x7f;
+    const payload = [...request.subarray(2, 2 + length)];
+    const checksum = request[2 + length];
+    if (
+      request[0] !== 0x51 ||
+      xorChecksum(REQUEST_CHECKSUM_SEED, request.subarray(0, 2 + length)) !==
+        checksum
+    ) {
+      // Real monitors ignore corrupted requests
+      return frameReply([]);
+    }
+    const [opcode, ...args] = payload;
+    if (opcode === OPCODE_GET_VCP) {
+      const value = values.get(args[0]);
+      const max = options.max?.[args[0]] ?? 100;
+      return frameReply([
+        OPCODE_GET_VCP_REPLY,
+        value === undefined ? 1 : 0,
+        args[0],
+        0,
+        max >> 8,
+        max & 0xff,
+        (value ?? 0) >> 8,
+        (value ?? 0) & 0xff,
+      ]);
+    }
+    if (opcode === OPCODE_SET_VCP) {
+      if (values.has(args[0])) {
+        values.set(args[0], (args[1] << 8) | args[2]);
+      }
+      return undefined;
+    }
+    if (opcode === OPCODE_CAPABILITIES) {
+      const offset = (args[0] << 8) | args[1];
+      return frameReply([
+        OPCODE_CAPABILITIES_REPLY,
+        args[0],
+        args[1],
+        ...capabilities.subarray(offset, offset + FRAGMENT_SIZE),
+      ]);
+    }
+    return frameReply([]);
+  };
+
+  const transport: I2cTransport = {
+    name: "simulated",
+    write(address, data) {
+      if (address === EDID_ADDRESS) {
+        edidOffset = data[0] ?? 0;
+        return Promise.resolve();
+      }
+      if (address !== DDC_CI_ADDRESS) {
+        return Promise.reject(
+          new Error(`No device at I2C address 0x${address.toString(16)}`),
+        );
+      }
+      requests.push(Uint8Array.from(data));
+      const reply = answer(data);
+      if (reply) {
+        pending = reply;
+      }
+      return Promise.resolve();
+    },
+    read(address, length) {
+      if (address === EDID_ADDRESS) {
+        return Promise.resolve(edid.slice(edidOffset, edidOffset + length));
+      }
+      if (busyLeft > 0) {
+        busyLeft -= 1;
+        return Promise.resolve(frameReply([]));
+      }
+      const reply = new Uint8Array(length);
+      reply.set(pending.subarray(0, length));
+      return Promise.resolve(reply);
+    },
+    async close() {
+      // Nothing to release
+    },
+  };
+
+  return { transport, values, requests };
+}
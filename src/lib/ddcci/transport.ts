@@ -0,0 +1,88 @@
+/**
+ * I2C transports for the DDC/CI client.
+ *
+ * The protocol code only needs "write these bytes to address X" and "read
+ * N bytes from address X", so the bus is pluggable: `openI2cDevTransport`
+ * talks to a Linux `/dev/i2c-N` device, and `./simulated-monitor` answers
+ * in memory.
+ *
+ * Selecting the I2C slave address on `/dev/i2c-N` takes an ioctl, which
+ * Node can't issue on its own; the optional `i2c-bus` package provides it.
+ * Everything above the raw reads and writes is plain TypeScript.
+ */
+
+import { readdir } from "node:fs/promises";
+import { errorMessageOf } from "../backends/types";
+
+export interface I2cTransport {
+  /** Human-readable bus name, e.g. `/dev/i2c-5` */
+  name: string;
+  write(address: number, data: Uint8Array): Promise<void>;
+  read(address: number, length: number): Promise<Uint8Array>;
+  close(): Promise<void>;
+}
+
+/** Directory holding the i2c-dev device nodes */
+const DEV_DIRECTORY = "/dev";
+
+/**
+ * Bus numbers of the `/dev/i2c-N` devices present, in ascending order.
+ *
+ * Throws when there are none, which means the i2c-dev module isn't loaded.
+ */
+export async function listI2cBuses(
+  directory: string = DEV_DIRECTORY,
+): Promise<number[]> {
+  const buses = (await readdir(directory))
+    .map((entry) => entry.match(/^i2c-(\d+)$/u))
+    .filter((match) => match !== null)
+    .map((match) => Number(match[1]))
+    .sort((first, second) => first - second);
+  if (buses.length === 0) {
+    throw new Error(
+      `No /dev/i2c devices found in ${directory}: load the i2c-dev module`,
+    );
+  }
+  return buses;
+}
+
+/**
+ * Open `/dev/i2c-<bus>` for DDC/CI traffic.
+ */
+export async function openI2cDevTransport(bus: number): Promise<I2cTransport> {
+  const name = `/dev/i2c-${bus}`;
+  let i2c: typeof import("i2c-bus");
+  try {
+    i2c = await import("i2c-bus");
+  } catch (error) {
+    throw new Error(
+      `The i2c-bus module is not installed, so ${name} can't be opened: ${errorMessageOf(error)}`,
+    );
+  }
+  const device = await i2c.openPromisified(bus);
+  return {
+    name,
+    async write(address, data) {
+      const buffer = Buffer.from(data);
+      const { bytesWritten } = await device.i2cWrite(
+        address,
+        buffer.length,
+        buffer,
+      );
+      if (bytesWritten !== buffer.length) {
+        throw new Error(
+          `DDC communication failed: wrote ${bytesWritten} of ${buffer.length} bytes to ${name}`,
+        );
+      }
+    },
+    async read(address, length) {
+      const { bytesRead, buffer } = await device.i2cRead(
+        address,
+        length,
+        Buffer.alloc(length),
+      );
+      return Uint8Array.from(buffer.subarray(0, bytesRead));
+    },
+    close: () => device.close(),
+  };
+}
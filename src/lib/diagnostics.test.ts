@@ -0,0 +1,55 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { configureShim } from "../cli/raycast-shim";
+import {
+  collectDiagnostics,
+  diagnosticsToJson,
+  diagnosticsToMarkdown,
+  redactSerials,
+} from "./diagnostics";
+import { DEFAULT_PREFERENCES, SECRET_PREFERENCES } from "./extension";
+
+const TOKEN = "d1agn0stics-agent-token";
+
+describe("collectDiagnostics", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "monitor-switch-"));
+    configureShim({
+      preferences: {
+        ...DEFAULT_PREFERENCES,
+        ddcBackend: "simulated",
+        agentToken: TOKEN,
+      },
+      storagePath: join(directory, "storage.json"),
+      assetsPath: join(__dirname, "..", "..", "assets"),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("never includes the agent token", async () => {
+    const report = await collectDiagnostics();
+    expect(report.preferences.agentToken).toBe("(set)");
+    for (const shown of [report, redactSerials(report)]) {
+      expect(diagnosticsToMarkdown(shown)).not.toContain(TOKEN);
+      expect(diagnosticsToJson(shown)).not.toContain(TOKEN);
+    }
+  });
+
+  it("hides every password preference of the manifest", async () => {
+    const manifest = JSON.parse(
+      await readFile(join(__dirname, "..", "..", "package.json"), "utf-8"),
+    ) as { preferences: { name: string; type: string }[] };
+    const passwords = manifest.preferences
+      .filter((preference) => preference.type === "password")
+      .map((preference) => preference.name);
+    expect(passwords.length).toBeGreaterThan(0);
+    expect(SECRET_PREFERENCES).toEqual(expect.arrayContaining(passwords));
+  });
+});
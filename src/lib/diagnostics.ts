@@ -0,0 +1,300 @@
+/**
+ * Diagnostics bundle for bug reports.
+ *
+ * Collects everything a "my monitor doesn't switch" report needs in one go:
+ * platform, preferences and their validation, the backend and its tool
+ * version, the raw display list, and the input and capabilities of every
+ * targeted monitor, plus the latest history entries. The report renders as
+ * markdown (to paste into an issue) or JSON, optionally with serial numbers
+ * replaced by placeholders, and always without secrets (the Agent Token).
+ */
+
+import { createBackend, DdcBackend, Monitor, selectBackend } from "./backends";
+import { readInputSource } from "./ddc";
+import { Preferences, validatePreferences, withoutSecrets } from "./extension";
+import { writeExportFile } from "./export";
+import { HistoryEntry, loadHistory } from "./history";
+import { formatInput, parseCapabilities, supportedInputs } from "./mccs";
+import { resolveMonitorTargets } from "./monitors";
+import { detectPlatform, PlatformInfo, SupportedPlatform } from "./platform";
+import { loadEffectivePreferences } from "./shared-config";
+import { ToastResult } from "./toast";
+
+/** History entries included in the report */
+const RECENT_HISTORY_ENTRIES = 10;
+
+/** A value that was read, or why it couldn't be */
+export interface Probe<T> {
+  value?: T;
+  error?: string;
+}
+
+export interface MonitorDiagnostics {
+  monitorId: string;
+  input: Probe<number>;
+  capabilities: Probe<string>;
+}
+
+export interface DiagnosticsReport {
+  generatedAt: string;
+  platform: PlatformInfo;
+  /** Outcome of `validatePreferences` */
+  validation: ToastResult;
+  preferences: Preferences;
+  backend?: {
+    id: string;
+    title: string;
+    toolName?: string;
+    toolPath?: string;
+    toolVersion: Probe<string>;
+  };
+  displayList?: Probe<string> & { monitors: Monitor[] };
+  monitors: MonitorDiagnostics[];
+  recentHistory: HistoryEntry[];
+}
+
+export type DiagnosticsFormat = "md" | "json";
+
+async function probe<T>(
+  backend: DdcBackend,
+  read: () => Promise<T>,
+): Promise<Probe<T>> {
+  try {
+    return { value: await read() };
+  } catch (error) {
+    return { error: backend.describeError(error) };
+  }
+}
+
+/**
+ * Gather the report. Never throws: whatever fails is recorded in the report.
+ */
+export async function collectDiagnostics(): Promise<DiagnosticsReport> {
+  const platform = await detectPlatform();
+  const prefs = await loadEffectivePreferences();
+  const validation = validatePreferences(platform, prefs);
+  const { status, title, message, failure, ...preferences } = validation;
+  const report: DiagnosticsReport = {
+    generatedAt: new Date().toISOString(),
+    platform,
+    validation: { status, title, message, failure },
+    preferences: withoutSecrets(preferences),
+    monitors: [],
+    recentHistory: (await loadHistory()).slice(0, RECENT_HISTORY_ENTRIES),
+  };
+  if (platform.os === "unsupported") {
+    return report;
+  }
+
+  const os = platform.os as SupportedPlatform;
+  const descriptor = selectBackend(os, preferences);
+  const backend = createBackend(os, preferences);
+  report.backend = {
+    id: backend.id,
+    title: backend.title,
+    toolName: descriptor.tool?.name,
+    toolPath: descriptor.tool?.path(preferences),
+    toolVersion: await probe(backend, () => backend.toolVersion()),
+  };
+  // Without the tool every remaining read would fail the same way
+  if (status === "failure") {
+    return report;
+  }
+
+  report.displayList = {
+    ...(await probe(backend, () => backend.rawDisplayList())),
+    monitors: (await probe(backend, () => backend.listDisplays())).value ?? [],
+  };
+  let monitorIds: string[];
+  try {
+    monitorIds = await resolveMonitorTargets(
+      backend,
+      preferences.monitorId || "Primary",
+    );
+  } catch {
+    monitorIds = ["Primary"];
+  }
+  for (const monitorId of monitorIds) {
+    const reading = await readInputSource(backend, monitorId);
+    report.monitors.push({
+      monitorId,
+      input: { value: reading.currentValue, error: reading.error },
+      capabilities: await probe(backend, () =>
+        backend.getCapabilities(monitorId),
+      ),
+    });
+  }
+  return report;
+}
+
+/**
+ * Copy of the report with every known serial number replaced by
+ * `<serial 1>`, `<serial 2>`, ... wherever it appears, raw output included.
+ */
+export function redactSerials(report: DiagnosticsReport): DiagnosticsReport {
+  const serials = [
+    ...new Set(
+      (report.displayList?.monitors ?? [])
+        .map((monitor) => monitor.serial?.trim())
+        .filter((serial): serial is string => Boolean(serial)),
+    ),
+  ].sort((first, second) => second.length - first.length);
+  const redact = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      return serials.reduce(
+        (text, serial, index) =>
+          text.replaceAll(serial, `<serial ${index + 1}>`),
+        value,
+      );
+    }
+    if (Array.isArray(value)) {
+      return value.map((entry) => redact(entry));
+    }
+    if (value !== null && typeof value === "object") {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, redact(entry)]),
+      );
+    }
+    return value;
+  };
+  return redact(report) as DiagnosticsReport;
+}
+
+function probeText<T>(
+  result: Probe<T>,
+  format: (value: T) => string = String,
+): string {
+  return result.value === undefined
+    ? `(failed: ${result.error ?? "no value"})`
+    : format(result.value);
+}
+
+function codeBlock(text: string): string {
+  return ["```", text.trim() || "(empty)", "```"].join("\n");
+}
+
+function monitorMarkdown(monitor: MonitorDiagnostics): string {
+  const { capabilities } = monitor;
+  const parsed =
+    capabilities.value === undefined
+      ? undefined
+      : parseCapabilities(capabilities.value);
+  return [
+    `### Monitor \`${monitor.monitorId}\``,
+    "",
+    `- **Current Input**: ${probeText(monitor.input, formatInput)}`,
+    parsed
+      ? `- **Model**: ${parsed.model ?? "-"} (MCCS ${parsed.mccsVersion ?? "?"})`
+      : "",
+    parsed
+      ? `- **Listed Inputs**: ${
+          supportedInputs(parsed)
+            .map((input) => formatInput(input))
+            .join(", ") || "-"
+        }`
+      : "",
+    "",
+    capabilities.value === undefined
+      ? `Capabilities read failed: ${capabilities.error}`
+      : codeBlock(capabilities.value),
+  ]
+    .filter((line, index, lines) => line !== "" || lines[index - 1] !== "")
+    .join("\n");
+}
+
+/**
+ * Render the report as markdown, ready to paste into an issue.
+ */
+export function diagnosticsToMarkdown(report: DiagnosticsReport): string {
+  const { platform, validation, backend, displayList } = report;
+  const sections = [
+    "# Monitor Switch Diagnostics",
+    "",
+    `Generated ${report.generatedAt}`,
+    "",
+    "## Platform",
+    "",
+    `- **OS**: ${platform.os}`,
+    `- **Chip Generation**: ${platform.appleChipGen}`,
+    `- **Built-in HDMI Supported**: ${platform.m1ddcSupportsBuiltinHdmi ? "Yes" : "No"}`,
+    "",
+    "## Preferences",
+    "",
+    `**Validation**: ${validation.status}${validation.title ? ` — ${validation.title}` : ""}${validation.message ? ` (${validation.message})` : ""}`,
+    "",
+    codeBlock(JSON.stringify(report.preferences, null, 2)),
+  ];
+  if (backend) {
+    sections.push(
+      "",
+      "## Backend",
+      "",
+      `- **Backend**: ${backend.title} (\`${backend.id}\`)`,
+      ...(backend.toolName
+        ? [`- **${backend.toolName} Path**: ${backend.toolPath || "(not set)"}`]
+        : []),
+      `- **Version**: ${probeText(backend.toolVersion)}`,
+    );
+  }
+  if (displayList) {
+    sections.push(
+      "",
+      "## Display List",
+      "",
+      displayList.value === undefined
+        ? `Listing failed: ${displayList.error}`
+        : codeBlock(displayList.value),
+    );
+  }
+  if (report.monitors.length > 0) {
+    sections.push(
+      "",
+      "## Monitors",
+      "",
+      report.monitors.map((monitor) => monitorMarkdown(monitor)).join("\n\n"),
+    );
+  }
+  if (report.recentHistory.length > 0) {
+    sections.push(
+      "",
+      "## Recent History",
+      "",
+      "| Time | Kind | Monitor | Outcome | Message |",
+      "|------|------|---------|---------|---------|",
+      ...report.recentHistory.map(
+        (entry) =>
+          `| ${entry.timestamp} | ${entry.kind} | \`${entry.monitorId}\` | ${entry.outcome} | ${entry.message.replaceAll("|", "\\|")} |`,
+      ),
+    );
+  }
+  return `${sections.join("\n")}\n`;
+}
+
+export function diagnosticsToJson(report: DiagnosticsReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+export function renderDiagnostics(
+  report: DiagnosticsReport,
+  format: DiagnosticsFormat,
+): string {
+  return format === "json"
+    ? diagnosticsToJson(report)
+    : diagnosticsToMarkdown(report);
+}
+
+/**
+ * Write the report to a timestamped file in ~/Downloads and return its path.
+ */
+export function saveDiagnostics(
+  report: DiagnosticsReport,
+  format: DiagnosticsFormat,
+  directory?: string,
+): Promise<string> {
+  return writeExportFile(
+    "monitor-switch-diagnostics",
+    format,
+    renderDiagnostics(report, format),
+    directory,
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Input discovery: what the targeted monitors are on, and which inputs
+ * they support.
+ *
+ * Reads VCP 0x60 from every targeted monitor, then adds what's known about
+ * the first readable one: the inputs of its capabilities string and of its
+ * model database entry (see `./models`). The reads are recorded in the
+ * switch history.
+ */
+
+import { DdcBackend, Monitor } from "./backends";
+import { vcpHex } from "./backends/types";
+import { InputReading, readInputSource } from "./ddc";
+import { DdcFailure } from "./errors";
+import { recordDiscovery } from "./history";
+import {
+  Capabilities,
+  formatInput,
+  parseCapabilities,
+  supportedInputs,
+} from "./mccs";
+import { findMonitorModel, loadModelDatabase, MonitorModel } from "./models";
+import { monitorLabel } from "./monitors";
+
+export interface InputDiscovery {
+  success: boolean;
+  /** Value read from the first targeted monitor */
+  currentValue?: number;
+  /** Values read from every targeted monitor */
+  readings: InputReading[];
+  /** Displays enumerated by the backend (empty if listing failed) */
+  monitors: Monitor[];
+  /** Input values the first readable monitor lists in its capabilities */
+  supportedInputs?: number[];
+  availableInfo?: string;
+  error?: string;
+  failure?: DdcFailure;
+}
+
+function discoveryInfo(
+  backend: DdcBackend,
+  readings: InputReading[],
+  monitors: Monitor[],
+  firstRead: InputReading,
+  capabilities: Capabilities | undefined,
+  model: MonitorModel | undefined,
+): string {
+  const inputs = capabilities ? supportedInputs(capabilities) : [];
+  return [
+    `=== DDC/CI Discovery (${backend.title}) ===`,
+    "",
+    "Current Input Values (VCP 0x60):",
+    ...readings.map(
+      (reading) =>
+        `  ${monitorLabel(monitors, reading.monitorId)}: ${reading.currentValue === undefined ? `(Could not read: ${reading.error})` : `${reading.currentValue} = ${formatInput(reading.currentValue)}`}`,
+    ),
+    "",
+    ...(inputs.length > 0
+      ? [
+          `Supported Input Values (${capabilities?.model ?? monitorLabel(monitors, firstRead.monitorId)}):`,
+          ...inputs.map((value) => `  ${value} = ${formatInput(value)}`),
+        ]
+      : model
+        ? [
+            "(Capabilities could not be read; the monitor's own list is unavailable)",
+          ]
+        : [
+            "Common Input Values:",
+            "  15 (0x0F) = DisplayPort",
+            "  17 (0x11) = HDMI-1",
+            "  18 (0x12) = HDMI-2",
+            "  (Values vary by monitor model)",
+            "",
+            "(Capabilities could not be read; the monitor's own list is unavailable)",
+          ]),
+    ...(model
+      ? [
+          "",
+          `Known Input Values (model database: ${model.id}):`,
+          ...model.inputs.map(
+            (input) =>
+              `  ${input.value} (0x${vcpHex(input.value)}) = ${input.name}`,
+          ),
+        ]
+      : []),
+    ...(capabilities && capabilities.vcp.size > 0
+      ? [
+          "",
+          `Supported VCP Codes (MCCS ${capabilities.mccsVersion ?? "?"}):`,
+          `  ${[...capabilities.vcp.keys()].map((code) => vcpHex(code)).join(" ")}`,
+        ]
+      : []),
+  ].join("\n");
+}
+
+/**
+ * Discover the current input value and available DDC/CI information.
+ *
+ * Useful for determining correct input codes for your specific monitor.
+ */
+export async function discoverInputs(
+  backend: DdcBackend,
+  monitorIds: string[],
+): Promise<InputDiscovery> {
+  // Display list and capabilities are nice-to-have extras
+  let monitors: Monitor[] = [];
+  try {
+    monitors = await backend.listDisplays();
+  } catch {
+    monitors = [];
+  }
+
+  const startedAt = new Date();
+  const readings = await Promise.all(
+    monitorIds.map((monitorId) => readInputSource(backend, monitorId)),
+  );
+  await recordDiscovery(backend.id, readings, startedAt);
+  const firstRead = readings.find(
+    (reading) => reading.currentValue !== undefined,
+  );
+  if (!firstRead) {
+    return {
+      success: false,
+      readings,
+      monitors,
+      error: readings[0]?.error ?? "No monitor targeted",
+      failure: readings[0]?.failure,
+    };
+  }
+
+  let capabilities: Capabilities | undefined;
+  try {
+    capabilities = parseCapabilities(
+      await backend.getCapabilities(firstRead.monitorId),
+    );
+  } catch {
+    capabilities = undefined;
+  }
+  const model = findMonitorModel(
+    await loadModelDatabase().catch(() => []),
+    monitors,
+    firstRead.monitorId,
+  );
+
+  return {
+    success: true,
+    currentValue: firstRead.currentValue,
+    readings,
+    monitors,
+    supportedInputs: capabilities ? supportedInputs(capabilities) : [],
+    availableInfo: discoveryInfo(
+      backend,
+      readings,
+      monitors,
+      firstRead,
+      capabilities,
+      model,
+    ),
+  };
+}
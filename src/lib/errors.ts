@@ -0,0 +1,189 @@
+/**
+ * DDC error taxonomy.
+ *
+ * DDC tools fail with free text ("DDCRC_EBUSY", "Access is denied", exit
+ * codes, ...). `classifyDdcError` sorts those failures into a few kinds,
+ * each with a remediation hint. Backends extend the generic patterns and
+ * hints with tool-specific ones through a `DdcErrorCatalog`.
+ *
+ * Toasts and the discovery page's troubleshooting section both render from
+ * these kinds, so a hint is written once.
+ */
+
+import { errorMessageOf } from "./backends/types";
+
+export type DdcErrorKind =
+  | "tool-missing"
+  | "no-display"
+  | "asleep"
+  | "bus-busy"
+  | "timeout"
+  | "permission-denied"
+  | "unsupported-vcp"
+  | "invalid-value"
+  | "unknown";
+
+export interface DdcErrorKindInfo {
+  title: string;
+  hint: string;
+}
+
+/** Generic title and hint of every kind, in troubleshooting order */
+export const DDC_ERROR_KINDS: Record<DdcErrorKind, DdcErrorKindInfo> = {
+  "tool-missing": {
+    title: "DDC tool not found",
+    hint: "Install the DDC tool for your platform and check its path in the extension preferences.",
+  },
+  "permission-denied": {
+    title: "Permission denied",
+    hint: "The DDC tool isn't allowed to access the display bus. Grant it access and try again.",
+  },
+  "no-display": {
+    title: "No display found",
+    hint: "Check the monitor is connected, on, and has DDC/CI enabled in its OSD menu. Docks and adapters often don't pass DDC/CI through.",
+  },
+  asleep: {
+    title: "Monitor asleep",
+    hint: "Wake the monitor (move the mouse or press a key) and try again. Many monitors stop answering DDC/CI in standby.",
+  },
+  "bus-busy": {
+    title: "DDC/CI bus busy",
+    hint: "The monitor was busy or answered garbled data. Try again; if it keeps happening, raise Switch Retries or try another cable or port.",
+  },
+  timeout: {
+    title: "Monitor didn't answer",
+    hint: "The command timed out. Check the cable and the monitor's DDC/CI setting, or raise Switch Retries for slow monitors.",
+  },
+  "unsupported-vcp": {
+    title: "Setting not supported",
+    hint: "The monitor or tool doesn't support this VCP code. The discovery details list the codes the monitor reports.",
+  },
+  "invalid-value": {
+    title: "Value rejected",
+    hint: "The monitor doesn't accept this value. Use Discover Input Codes to find the values it supports.",
+  },
+  unknown: {
+    title: "DDC/CI error",
+    hint: "Open the discovery details for more information.",
+  },
+};
+
+/** Matches tool output of one kind */
+export interface ErrorPattern {
+  kind: DdcErrorKind;
+  pattern: RegExp;
+}
+
+/** Tool-specific patterns and hints of a backend */
+export interface DdcErrorCatalog {
+  /** Tried before the generic patterns */
+  patterns: ErrorPattern[];
+  /** Replace the generic hint of a kind */
+  hints: Partial<Record<DdcErrorKind, string>>;
+}
+
+/** A classified failure, ready to show */
+export interface DdcFailure {
+  kind: DdcErrorKind;
+  title: string;
+  hint: string;
+  /** Original error message */
+  detail: string;
+}
+
+/** Patterns every tool shares (process errors, errno names, common wording) */
+const GENERIC_PATTERNS: ErrorPattern[] = [
+  {
+    kind: "tool-missing",
+    pattern: /ENOENT|command not found|is not recognized/iu,
+  },
+  {
+    kind: "permission-denied",
+    pattern: /EACCES|EPERM|Permission denied|Access is denied/iu,
+  },
+  { kind: "timeout", pattern: /timed? ?out|ETIMEDOUT/iu },
+  { kind: "bus-busy", pattern: /EBUSY|\bbusy\b|DDC communication failed/iu },
+  { kind: "asleep", pattern: /asleep|standby|power[- ]sav/iu },
+  {
+    kind: "unsupported-vcp",
+    pattern: /unsupported (?:VCP|feature)|does not support VCP/iu,
+  },
+  { kind: "invalid-value", pattern: /invalid value|out of range/iu },
+  {
+    kind: "no-display",
+    pattern:
+      /No displays? found|No monitor detected|Display not found|Invalid display|Invalid monitor selector/iu,
+  },
+];
+
+/**
+ * Build a failure of a known kind, with the backend's hint if it has one.
+ */
+export function ddcFailure(
+  kind: DdcErrorKind,
+  detail: string,
+  catalog?: DdcErrorCatalog,
+): DdcFailure {
+  return {
+    kind,
+    title: DDC_ERROR_KINDS[kind].title,
+    hint: catalog?.hints[kind] ?? DDC_ERROR_KINDS[kind].hint,
+    detail,
+  };
+}
+
+/**
+ * Classify an error thrown by a backend.
+ */
+export function classifyDdcError(
+  error: unknown,
+  catalog: DdcErrorCatalog,
+): DdcFailure {
+  const detail = errorMessageOf(error);
+  const match = [...catalog.patterns, ...GENERIC_PATTERNS].find(({ pattern }) =>
+    pattern.test(detail),
+  );
+  return ddcFailure(match?.kind ?? "unknown", detail, catalog);
+}
+
+/**
+ * One-line message for toasts: the title and the remediation hint, or the
+ * raw tool message when the error couldn't be classified.
+ */
+export function formatDdcFailure(
+  failure: DdcFailure,
+  toolTitle: string,
+): string {
+  return failure.kind === "unknown"
+    ? `${toolTitle} error: ${failure.detail}`
+    : `${failure.title}: ${failure.hint}`;
+}
+
+/**
+ * Error handling members of a backend built on a catalog.
+ */
+export function catalogErrorHandling(
+  toolTitle: string,
+  catalog: DdcErrorCatalog,
+) {
+  return {
+    errorCatalog: catalog,
+    classifyError: (error: unknown) => classifyDdcError(error, catalog),
+    describeError: (error: unknown) =>
+      formatDdcFailure(classifyDdcError(error, catalog), toolTitle),
+  };
+}
+
+/**
+ * Troubleshooting entries of a backend: every known kind with its hint.
+ */
+export function troubleshootingSteps(
+  catalog: DdcErrorCatalog,
+): DdcErrorKindInfo[] {
+  return (Object.keys(DDC_ERROR_KINDS) as DdcErrorKind[])
+    .filter((kind) => kind !== "unknown")
+    .map((kind) => ({
+      title: DDC_ERROR_KINDS[kind].title,
+      hint: catalog.hints[kind] ?? DDC_ERROR_KINDS[kind].hint,
+    }));
+}
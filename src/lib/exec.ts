@@ -0,0 +1,102 @@
+/**
+ * Async process runner shared by every DDC/CI tool.
+ *
+ * Commands are always spawned from an argv array (no shell), so preference
+ * values such as tool paths and monitor IDs are never parsed as shell syntax.
+ * Calls don't block the Raycast process and can run in parallel, e.g. to
+ * query several monitors at once.
+ */
+
+import { execFile } from "node:child_process";
+
+/** Default time limit for a tool invocation */
+export const DEFAULT_TIMEOUT_MS = 10000;
+
+/** Output buffer limit; capabilities dumps can be large but never this large */
+const MAX_BUFFER_BYTES = 4 * 1024 * 1024;
+
+export interface RunOptions {
+  /** Kill the process after this long (default: DEFAULT_TIMEOUT_MS) */
+  timeoutMs?: number;
+  /** Abort the process when this signal fires */
+  signal?: AbortSignal;
+  /** Extra environment variables, on top of the current environment */
+  env?: Record<string, string>;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+  /** Process exit code; null if it was killed by a signal */
+  exitCode: number | null;
+}
+
+/**
+ * Run a program and capture its output, whatever its exit code.
+ *
+ * Rejects only if the process can't be started, times out or is aborted.
+ * Use `runChecked` when a non-zero exit code means failure.
+ */
+export function runTool(
+  file: string,
+  args: string[],
+  options: RunOptions = {},
+): Promise<RunResult> {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  return new Promise((resolve, reject) => {
+    execFile(
+      file,
+      args,
+      {
+        encoding: "utf-8",
+        timeout: timeoutMs,
+        signal: options.signal,
+        env: options.env && { ...process.env, ...options.env },
+        maxBuffer: MAX_BUFFER_BYTES,
+        windowsHide: true,
+      },
+      (error, stdout, stderr) => {
+        if (!error) {
+          resolve({ stdout, stderr, exitCode: 0 });
+          return;
+        }
+        const { code, killed } = error as NodeJS.ErrnoException & {
+          killed?: boolean;
+        };
+        if (error.name === "AbortError") {
+          reject(new Error(`${file} was cancelled`));
+        } else if (killed) {
+          reject(new Error(`${file} timed out after ${timeoutMs}ms`));
+        } else if (typeof code === "number") {
+          resolve({ stdout, stderr, exitCode: code });
+        } else if (code === "ENOENT") {
+          reject(new Error(`${file} not found (ENOENT)`));
+        } else {
+          // Spawn failures (EACCES, ...) and signal kills
+          reject(new Error(`${file} failed: ${error.message}\n${stderr}`));
+        }
+      },
+    );
+  });
+}
+
+/**
+ * Run a program and resolve with its trimmed stdout.
+ *
+ * Rejects on a non-zero exit code, with stderr (or stdout) in the message so
+ * backends can recognise tool-specific failures.
+ */
+export async function runChecked(
+  file: string,
+  args: string[],
+  options: RunOptions = {},
+): Promise<string> {
+  const result = await runTool(file, args, options);
+  if (result.exitCode !== 0) {
+    const details = (result.stderr || result.stdout).trim();
+    throw new Error(
+      `${file} exited with code ${result.exitCode}${details ? `: ${details}` : ""}`,
+    );
+  }
+  return result.stdout.trim();
+}
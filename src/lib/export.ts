@@ -0,0 +1,25 @@
+/**
+ * Writing user-facing exports (history, diagnostics) to disk.
+ */
+
+import { writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+/** Where exports go unless the caller picks a directory */
+export const DEFAULT_EXPORT_DIRECTORY = join(homedir(), "Downloads");
+
+/**
+ * Write `content` to `<prefix>-<timestamp>.<extension>` and return its path.
+ */
+export async function writeExportFile(
+  prefix: string,
+  extension: string,
+  content: string,
+  directory: string = DEFAULT_EXPORT_DIRECTORY,
+): Promise<string> {
+  const stamp = new Date().toISOString().replaceAll(":", "-").slice(0, 19);
+  const path = join(directory, `${prefix}-${stamp}.${extension}`);
+  await writeFile(path, content, "utf-8");
+  return path;
+}
@@ -1,49 +1,132 @@
-import { PlatformInfo } from "./platform";
+import { selectBackend } from "./backends";
+import { ddcFailure } from "./errors";
+import { parseInputValue } from "./mccs";
+import { PlatformInfo, SupportedPlatform } from "./platform";
 import { ToastResult, GenericSuccess } from "./toast";
 import { existsSync } from "node:fs";
 import { getPreferenceValues } from "@raycast/api";
 
 export interface Preferences {
   displayPortValue: string;
-  hdmiPortValue: string;
+  hdmiValue: string;
+  inputCycle?: string;
   m1ddcPath: string;
   controlMyMonitorPath: string;
+  ddcutilPath: string;
+  modelDatabasePath?: string;
+  usbWatchDevices?: string;
+  usbConnectAction?: string;
+  usbDisconnectAction?: string;
+  usbDebounce?: string;
+  usbSysfsRoot?: string;
+  peerMode?: string;
+  peerUrl?: string;
+  agentToken?: string;
+  peerTimeout?: string;
   monitorId: string;
+  ddcBackend: string;
+  switchRetries?: string;
+  verifyTimeout?: string;
+  switchConcurrency?: string;
+  vcpStep?: string;
+  preSwitchHook?: string;
+  preSwitchHookTimeout?: string;
+  postSwitchHook?: string;
+  postSwitchHookTimeout?: string;
+  abortOnPreHookFailure?: boolean;
 }
 export type PreferenceValidation = Preferences & ToastResult;
 
+/** Defaults of the manifest preferences */
+export const DEFAULT_PREFERENCES: Required<Preferences> = {
+  ddcBackend: "auto",
+  displayPortValue: "15",
+  hdmiValue: "17",
+  inputCycle: "",
+  switchRetries: "2",
+  verifyTimeout: "5",
+  switchConcurrency: "latest",
+  vcpStep: "10",
+  preSwitchHook: "",
+  preSwitchHookTimeout: "10",
+  abortOnPreHookFailure: true,
+  postSwitchHook: "",
+  postSwitchHookTimeout: "10",
+  controlMyMonitorPath: String.raw`C:\Tools\ControlMyMonitor\ControlMyMonitor.exe`,
+  m1ddcPath: "/opt/homebrew/bin/m1ddc",
+  ddcutilPath: "/usr/bin/ddcutil",
+  modelDatabasePath: "",
+  usbWatchDevices: "",
+  usbConnectAction: "",
+  usbDisconnectAction: "",
+  usbDebounce: "2",
+  usbSysfsRoot: "/sys/bus/usb/devices",
+  peerMode: "off",
+  peerUrl: "",
+  agentToken: "",
+  peerTimeout: "15",
+  monitorId: "Primary",
+};
+
+/**
+ * The `password` preferences of the manifest: never written to reports or
+ * exports.
+ */
+export const SECRET_PREFERENCES: (keyof Preferences)[] = ["agentToken"];
+
+/** Preferences with every secret one replaced by whether it is set */
+export function withoutSecrets(prefs: Preferences): Preferences {
+  const shown: Record<string, unknown> = { ...prefs };
+  for (const key of SECRET_PREFERENCES) {
+    shown[key] = prefs[key] ? "(set)" : "(not set)";
+  }
+  return shown as unknown as Preferences;
+}
+
+/** Former names of preferences, still accepted in config files */
+export const RENAMED_PREFERENCES: Partial<Record<string, keyof Preferences>> = {
+  hdmiPortValue: "hdmiValue",
+};
+
 export function validatePreferences(
   platform: PlatformInfo,
+  prefs: Preferences = getPreferenceValues<Preferences>(),
 ): PreferenceValidation {
-  const prefs = getPreferenceValues<Preferences>();
-
-  // Fail if DisplayPort value or HDMI value are non numbers
-  [
-    { input: "HDMI port", value: prefs.hdmiPortValue },
+  // Fail if DisplayPort value or HDMI value aren't input codes
+  for (const deviceConfig of [
+    { input: "HDMI port", value: prefs.hdmiValue },
     { input: "DisplayPort", value: prefs.displayPortValue },
-  ].forEach((deviceConfig) => {
-    const inputValue = parseInt(deviceConfig.value, 10);
-    if (isNaN(inputValue)) {
+  ]) {
+    if (parseInputValue(deviceConfig.value) === undefined) {
       return {
         ...prefs,
         status: "failure",
         title: `Invalid ${deviceConfig.input} value`,
-        message: `"${inputValue}" is not a valid number`,
+        message: `"${deviceConfig.value}" is not a valid input code (0 to 255, 0x00 to 0xFF, or a name like DP-1)`,
       };
     }
-  });
+  }
+
+  // Fail if the selected backend can't run here
+  const backend = selectBackend(platform.os as SupportedPlatform, prefs);
+  if (!backend.platforms.includes(platform.os as SupportedPlatform)) {
+    return {
+      ...prefs,
+      status: "failure",
+      title: `The ${backend.id} backend is not available on ${platform.os}`,
+      message: "Pick another backend in extension preferences.",
+      failure: ddcFailure("tool-missing", `No ${backend.id} on ${platform.os}`),
+    };
+  }
+  // Backends without an external tool have nothing else to check
+  if (!backend.tool) {
+    return { ...prefs, ...GenericSuccess };
+  }
 
   // Fail if runnable path is unset or doesn't exist
-  const runnableName =
-    platform.os === "darwin" ? "m1ddc" : "ControlMyMonitor.exe";
-  const runnablePath =
-    platform.os === "darwin" ? prefs.m1ddcPath : prefs.controlMyMonitorPath;
-  const errorMessage =
-    platform.os === "darwin"
-      ? `Path to ${runnableName} is empty/unset. ` +
-        "Install via: brew install m1ddc and set the path in extension preferences."
-      : `Path to ${runnableName} is empty/unset. ` +
-        "Download from https://www.nirsoft.net/utils/controlmymonitor.zip and set the path in extension preferences.";
+  const runnableName = backend.tool.name;
+  const runnablePath = backend.tool.path(prefs);
+  const errorMessage = `Path to ${runnableName} is empty/unset. ${backend.tool.installHint}`;
 
   if (!runnablePath || runnablePath.trim() === "") {
     return {
@@ -51,6 +134,7 @@ export function validatePreferences(
       status: "failure",
       title: `${runnableName} path not configured`,
       message: errorMessage,
+      failure: ddcFailure("tool-missing", errorMessage),
     };
   }
   if (!existsSync(runnablePath)) {
@@ -59,6 +143,7 @@ export function validatePreferences(
       status: "failure",
       title: `${runnableName} not found`,
       message: `Path: ${runnablePath}`,
+      failure: ddcFailure("tool-missing", `${runnablePath} doesn't exist`),
     };
   }
 
@@ -0,0 +1,239 @@
+/**
+ * Switch and discovery history, persisted in Raycast LocalStorage.
+ *
+ * Every switch and input read made through `./ddc` and `./discovery` is
+ * appended here with its timing, raw tool output and classified outcome,
+ * so a switch that "didn't work" can be looked at afterwards.
+ *
+ * The log rotates like a log file: once the current generation holds
+ * `MAX_GENERATION_ENTRIES` entries it replaces the previous generation and
+ * a new one starts, so at most two generations are ever stored.
+ */
+
+import { randomUUID } from "node:crypto";
+import { LocalStorage } from "@raycast/api";
+import type { InputReading } from "./ddc";
+import { DdcErrorKind } from "./errors";
+import { DEFAULT_EXPORT_DIRECTORY, writeExportFile } from "./export";
+import { formatInput } from "./mccs";
+import {
+  OUTCOME_STATUS,
+  SwitchOutcome,
+  SwitchResult,
+} from "./switch-verification";
+import { ToastResult } from "./toast";
+
+const STORAGE_KEY = "switch-history";
+const PREVIOUS_STORAGE_KEY = "switch-history.1";
+
+/** Entries per generation before the log rotates */
+const MAX_GENERATION_ENTRIES = 250;
+
+/** Raw tool output is cut to this many characters */
+const MAX_RAW_OUTPUT_LENGTH = 2000;
+
+export type HistoryKind = "switch" | "discovery";
+
+/** A switch outcome, or whether a discovery read succeeded */
+export type HistoryOutcome = SwitchOutcome | "read" | "read-failed";
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  /** ISO time the attempt started */
+  timestamp: string;
+  backendId: string;
+  monitorId: string;
+  /** Input before the attempt, when known */
+  fromValue?: number;
+  /** Target input of a switch */
+  toValue?: number;
+  durationMs: number;
+  outcome: HistoryOutcome;
+  status: ToastResult["status"];
+  message: string;
+  rawOutput?: string;
+  failureKind?: DdcErrorKind;
+}
+
+export type NewHistoryEntry = Omit<HistoryEntry, "id">;
+
+async function loadGeneration(key: string): Promise<HistoryEntry[]> {
+  const stored = await LocalStorage.getItem<string>(key);
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? (parsed as HistoryEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load the whole history, newest first.
+ */
+export async function loadHistory(): Promise<HistoryEntry[]> {
+  const [current, previous] = await Promise.all([
+    loadGeneration(STORAGE_KEY),
+    loadGeneration(PREVIOUS_STORAGE_KEY),
+  ]);
+  return [...current, ...previous].sort((first, second) =>
+    second.timestamp.localeCompare(first.timestamp),
+  );
+}
+
+// Appends from parallel switches are chained so none overwrites another
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Append entries to the history, rotating it when the current generation
+ * is full. Never throws: a failing log must not fail the switch it records.
+ */
+export function recordHistory(entries: NewHistoryEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return pendingWrite;
+  }
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      let current = await loadGeneration(STORAGE_KEY);
+      if (current.length + entries.length > MAX_GENERATION_ENTRIES) {
+        await LocalStorage.setItem(
+          PREVIOUS_STORAGE_KEY,
+          JSON.stringify(current),
+        );
+        current = [];
+      }
+      const added = entries.map((entry) => ({
+        ...entry,
+        id: randomUUID(),
+        rawOutput: entry.rawOutput?.slice(0, MAX_RAW_OUTPUT_LENGTH),
+      }));
+      await LocalStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify([...added.reverse(), ...current]),
+      );
+    } catch {
+      // History is best effort
+    }
+  });
+  return pendingWrite;
+}
+
+/**
+ * Record a switch of one monitor that started at `startedAt`.
+ */
+export function recordSwitch(
+  backendId: string,
+  result: SwitchResult,
+  { fromValue, toValue }: { fromValue?: number; toValue: number },
+  startedAt: Date,
+): Promise<void> {
+  return recordHistory([
+    {
+      kind: "switch",
+      timestamp: startedAt.toISOString(),
+      backendId,
+      monitorId: result.monitorId,
+      fromValue,
+      toValue,
+      durationMs: Date.now() - startedAt.getTime(),
+      outcome: result.outcome,
+      status: OUTCOME_STATUS[result.outcome],
+      message: result.message,
+      rawOutput: result.rawOutput,
+      failureKind: result.failure?.kind,
+    },
+  ]);
+}
+
+/**
+ * Record the input reads of a discovery that started at `startedAt`.
+ */
+export function recordDiscovery(
+  backendId: string,
+  readings: InputReading[],
+  startedAt: Date,
+): Promise<void> {
+  return recordHistory(
+    readings.map((reading) => ({
+      kind: "discovery",
+      timestamp: startedAt.toISOString(),
+      backendId,
+      monitorId: reading.monitorId,
+      fromValue: reading.currentValue,
+      durationMs: Date.now() - startedAt.getTime(),
+      outcome: reading.currentValue === undefined ? "read-failed" : "read",
+      status: reading.currentValue === undefined ? "failure" : "success",
+      message:
+        reading.currentValue === undefined
+          ? (reading.error ?? "Could not read the input")
+          : `Input is ${formatInput(reading.currentValue)}`,
+      failureKind: reading.failure?.kind,
+    })),
+  );
+}
+
+export async function clearHistory(): Promise<void> {
+  await pendingWrite;
+  await Promise.all([
+    LocalStorage.removeItem(STORAGE_KEY),
+    LocalStorage.removeItem(PREVIOUS_STORAGE_KEY),
+  ]);
+}
+
+/** Columns of the CSV export, in order */
+const CSV_COLUMNS: (keyof HistoryEntry)[] = [
+  "timestamp",
+  "kind",
+  "backendId",
+  "monitorId",
+  "fromValue",
+  "toValue",
+  "durationMs",
+  "outcome",
+  "status",
+  "failureKind",
+  "message",
+  "rawOutput",
+];
+
+function csvField(value: unknown): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/u.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+/**
+ * Export entries as CSV (RFC 4180), one row per entry.
+ */
+export function historyToCsv(entries: HistoryEntry[]): string {
+  return [
+    CSV_COLUMNS.join(","),
+    ...entries.map((entry) =>
+      CSV_COLUMNS.map((column) => csvField(entry[column])).join(","),
+    ),
+  ].join("\r\n");
+}
+
+export function historyToJson(entries: HistoryEntry[]): string {
+  return JSON.stringify(entries, null, 2);
+}
+
+export type HistoryExportFormat = "json" | "csv";
+
+/**
+ * Write entries to a timestamped file in ~/Downloads and return its path.
+ */
+export function exportHistory(
+  entries: HistoryEntry[],
+  format: HistoryExportFormat,
+  directory: string = DEFAULT_EXPORT_DIRECTORY,
+): Promise<string> {
+  return writeExportFile(
+    "monitor-switch-history",
+    format,
+    format === "csv" ? historyToCsv(entries) : historyToJson(entries),
+    directory,
+  );
+}
@@ -0,0 +1,243 @@
+/**
+ * Pre- and post-switch hooks.
+ *
+ * User commands run once around a switch (see `./ddc`) for the steps a
+ * machine hand-off needs besides the monitor: moving audio output, pausing
+ * media, handing off a Bluetooth keyboard... A hook is a script path or a
+ * command line; it learns about the switch through `MONITOR_SWITCH_*`
+ * environment variables (see `hookEnvironment`).
+ *
+ * A failing pre-switch hook cancels the switch unless the user opted out.
+ * The post-switch hook runs whatever the outcome, which it is told in
+ * `MONITOR_SWITCH_STATUS`.
+ */
+
+import { existsSync } from "node:fs";
+import { platform } from "node:os";
+import { errorMessageOf } from "./backends/types";
+import { runTool } from "./exec";
+import { Preferences } from "./extension";
+import { formatInput, inputName } from "./mccs";
+import { ToastResult, worstResult } from "./toast";
+
+export type HookStage = "pre" | "post";
+
+export interface SwitchHook {
+  /** Script path, or a command line run through the shell */
+  command: string;
+  timeoutMs: number;
+}
+
+export interface SwitchHooks {
+  pre?: SwitchHook;
+  post?: SwitchHook;
+  /** Cancel the switch when the pre-switch hook fails */
+  abortOnPreFailure: boolean;
+}
+
+/** What hooks are told about the switch */
+export interface HookContext {
+  backendId: string;
+  monitorIds: string[];
+  /** Input the monitors were on, when known */
+  fromValue?: number;
+  toValue: number;
+  /** Outcome of the switch; post-switch hooks only */
+  status?: ToastResult["status"];
+}
+
+export interface HookResult {
+  stage: HookStage;
+  success: boolean;
+  /** One line for the toast */
+  message: string;
+  /** Combined stdout and stderr */
+  output: string;
+}
+
+/** Time limit of a hook whose timeout preference is empty or invalid */
+export const DEFAULT_HOOK_TIMEOUT_MS = 10000;
+
+const STAGE_TITLES: Record<HookStage, string> = {
+  pre: "Pre-switch hook",
+  post: "Post-switch hook",
+};
+
+function hookFromPreferences(
+  command: string | undefined,
+  timeout: string | undefined,
+): SwitchHook | undefined {
+  const trimmed = command?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const seconds = parseFloat(timeout ?? "");
+  return {
+    command: trimmed,
+    timeoutMs:
+      isNaN(seconds) || seconds <= 0
+        ? DEFAULT_HOOK_TIMEOUT_MS
+        : Math.round(seconds * 1000),
+  };
+}
+
+/**
+ * Build the hooks from the preferences; undefined when none is configured.
+ */
+export function switchHooksFromPreferences(
+  prefs: Preferences,
+): SwitchHooks | undefined {
+  const pre = hookFromPreferences(
+    prefs.preSwitchHook,
+    prefs.preSwitchHookTimeout,
+  );
+  const post = hookFromPreferences(
+    prefs.postSwitchHook,
+    prefs.postSwitchHookTimeout,
+  );
+  if (!pre && !post) {
+    return undefined;
+  }
+  return { pre, post, abortOnPreFailure: prefs.abortOnPreHookFailure ?? true };
+}
+
+/**
+ * Environment variables a hook runs with. Inputs are given as decimal codes
+ * and as standard names (empty when the code has none or is unknown).
+ */
+export function hookEnvironment(
+  stage: HookStage,
+  context: HookContext,
+): Record<string, string> {
+  const { fromValue, toValue } = context;
+  return {
+    MONITOR_SWITCH_STAGE: stage,
+    MONITOR_SWITCH_BACKEND: context.backendId,
+    MONITOR_SWITCH_MONITOR: context.monitorIds[0] ?? "",
+    MONITOR_SWITCH_MONITORS: context.monitorIds.join(","),
+    MONITOR_SWITCH_FROM: fromValue === undefined ? "" : String(fromValue),
+    MONITOR_SWITCH_FROM_NAME:
+      fromValue === undefined ? "" : (inputName(fromValue) ?? ""),
+    MONITOR_SWITCH_TO: String(toValue),
+    MONITOR_SWITCH_TO_NAME: inputName(toValue) ?? "",
+    MONITOR_SWITCH_STATUS: context.status ?? "",
+  };
+}
+
+/**
+ * Program and arguments that run a hook: through `sh -c` on macOS and
+ * Linux, through PowerShell on Windows. A bare script path is quoted so
+ * paths with spaces work.
+ */
+function hookInvocation(command: string): [string, string[]] {
+  const isScript = existsSync(command);
+  if (platform() === "win32") {
+    return [
+      "powershell.exe",
+      [
+        "-NoProfile",
+        "-NonInteractive",
+        "-ExecutionPolicy",
+        "Bypass",
+        "-Command",
+        isScript ? `& '${command.replaceAll("'", "''")}'` : command,
+      ],
+    ];
+  }
+  return [
+    "/bin/sh",
+    ["-c", isScript ? `'${command.replaceAll("'", "'\\''")}'` : command],
+  ];
+}
+
+/**
+ * Run one hook. Never throws: failures, including timeouts, are results.
+ */
+export async function runSwitchHook(
+  stage: HookStage,
+  hook: SwitchHook,
+  context: HookContext,
+): Promise<HookResult> {
+  const title = STAGE_TITLES[stage];
+  const [file, args] = hookInvocation(hook.command);
+  try {
+    const { stdout, stderr, exitCode } = await runTool(file, args, {
+      timeoutMs: hook.timeoutMs,
+      env: hookEnvironment(stage, context),
+    });
+    const output = [stdout.trim(), stderr.trim()].filter(Boolean).join("\n");
+    const lastLine = output.split("\n").pop();
+    return {
+      stage,
+      success: exitCode === 0,
+      message:
+        exitCode === 0
+          ? `${title} ran`
+          : `${title} exited with code ${exitCode}${lastLine ? `: ${lastLine}` : ""}`,
+      output,
+    };
+  } catch (error) {
+    return {
+      stage,
+      success: false,
+      message: `${title} failed: ${errorMessageOf(error)}`,
+      output: "",
+    };
+  }
+}
+
+/**
+ * Run a switch between its hooks and add the hook results to its toast.
+ *
+ * The switch may send several groups of monitors to different inputs; the
+ * hooks still run once, and their results go on the worst group's result,
+ * the one callers show. A failed hook turns a successful switch into a
+ * soft failure, so the toast doesn't hide it.
+ */
+export async function withSwitchHooks(
+  hooks: SwitchHooks,
+  context: HookContext,
+  performSwitch: () => Promise<ToastResult[]>,
+): Promise<ToastResult[]> {
+  const hookResults: HookResult[] = [];
+  if (hooks.pre) {
+    const pre = await runSwitchHook("pre", hooks.pre, context);
+    if (!pre.success && hooks.abortOnPreFailure) {
+      return [
+        {
+          status: "failure",
+          title: `Switch to ${formatInput(context.toValue)} cancelled`,
+          message: pre.message,
+        },
+      ];
+    }
+    hookResults.push(pre);
+  }
+
+  const results = await performSwitch();
+  const shown = worstResult(results);
+  if (hooks.post) {
+    hookResults.push(
+      await runSwitchHook("post", hooks.post, {
+        ...context,
+        status: shown?.status,
+      }),
+    );
+  }
+
+  const hookFailed = hookResults.some((hookResult) => !hookResult.success);
+  return results.map((result) =>
+    result === shown
+      ? {
+          ...result,
+          status:
+            hookFailed && result.status === "success"
+              ? "soft-fail"
+              : result.status,
+          message: [result.message, ...hookResults.map((hook) => hook.message)]
+            .filter(Boolean)
+            .join("\n"),
+        }
+      : result,
+  );
+}
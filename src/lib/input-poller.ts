@@ -0,0 +1,148 @@
+/**
+ * Background polling of the active input (VCP 0x60) for the menu bar.
+ *
+ * Raycast relaunches the menu bar command on a fixed manifest interval; the
+ * poller decides whether a launch actually talks to the monitors. Results
+ * and the next due time are kept in LocalStorage between launches.
+ *
+ * When a read fails or a monitor is asleep, the delay doubles on every
+ * consecutive failed poll (up to `MAX_BACKOFF_MS`), so a missing tool or a
+ * monitor in standby doesn't get queried every interval.
+ */
+
+import { LocalStorage } from "@raycast/api";
+import { DdcBackend, Monitor } from "./backends";
+import { readInputSource } from "./ddc";
+import { VCP_POWER_MODE } from "./vcp";
+
+const STORAGE_KEY = "menu-bar-state";
+
+/** Longest delay between polls while backing off */
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+/** Opening the menu re-polls data older than this (unless backing off) */
+const USER_REFRESH_MS = 10 * 1000;
+
+export type MonitorInputStatus = "ok" | "asleep" | "error";
+
+export interface MonitorInputState {
+  monitor: Monitor;
+  status: MonitorInputStatus;
+  currentValue?: number;
+  error?: string;
+}
+
+export interface PollerState {
+  monitors: MonitorInputState[];
+  /** Epoch ms of the last poll */
+  polledAt: number;
+  /** Epoch ms before which background launches don't poll */
+  nextPollAt: number;
+  /** Consecutive polls with an error or a sleeping monitor */
+  failures: number;
+}
+
+export async function loadPollerState(): Promise<PollerState | undefined> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(stored) as PollerState;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function savePollerState(state: PollerState): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+/**
+ * Delay until the next poll: the interval, doubled per consecutive failure.
+ */
+export function nextPollDelay(intervalMs: number, failures: number): number {
+  return Math.min(
+    intervalMs * 2 ** failures,
+    Math.max(intervalMs, MAX_BACKOFF_MS),
+  );
+}
+
+/**
+ * Whether this launch should poll the monitors.
+ *
+ * Background launches wait for `nextPollAt`. Opening the menu refreshes
+ * stale data, but still respects the backoff after failures.
+ */
+export function isPollDue(
+  state: PollerState | undefined,
+  userInitiated: boolean,
+  now: number = Date.now(),
+): boolean {
+  if (!state) {
+    return true;
+  }
+  if (userInitiated && state.failures === 0) {
+    return now - state.polledAt >= USER_REFRESH_MS;
+  }
+  return now >= state.nextPollAt;
+}
+
+/**
+ * Read every monitor's input, then schedule the next poll.
+ *
+ * The monitor list is re-enumerated only when there is none yet or the
+ * previous poll failed, since enumeration is the slowest DDC operation.
+ */
+export async function pollInputs(
+  backend: DdcBackend,
+  previous: PollerState | undefined,
+  intervalMs: number,
+  now: number = Date.now(),
+): Promise<PollerState> {
+  let monitors = previous?.monitors.map((entry) => entry.monitor) ?? [];
+  if (monitors.length === 0 || (previous?.failures ?? 0) > 0) {
+    try {
+      monitors = await backend.listDisplays();
+    } catch {
+      monitors = [];
+    }
+    if (monitors.length === 0) {
+      monitors = [{ index: 1, name: "Primary", id: "Primary" }];
+    }
+  }
+
+  // One monitor per bus, so monitors are read in parallel
+  const states = await Promise.all(
+    monitors.map((monitor) => readMonitorState(backend, monitor)),
+  );
+  const failures = states.some((entry) => entry.status !== "ok")
+    ? (previous?.failures ?? 0) + 1
+    : 0;
+  return {
+    monitors: states,
+    polledAt: now,
+    nextPollAt: now + nextPollDelay(intervalMs, failures),
+    failures,
+  };
+}
+
+async function readMonitorState(
+  backend: DdcBackend,
+  monitor: Monitor,
+): Promise<MonitorInputState> {
+  const reading = await readInputSource(backend, monitor.id);
+  if (reading.currentValue !== undefined) {
+    return { monitor, status: "ok", currentValue: reading.currentValue };
+  }
+  // A sleeping monitor often still answers power mode queries
+  try {
+    const powerMode = await backend.getVcp(monitor.id, VCP_POWER_MODE);
+    if (powerMode !== 0x01) {
+      return { monitor, status: "asleep" };
+    }
+  } catch {
+    // Not asleep as far as we can tell; report the input read error
+  }
+  return { monitor, status: "error", error: reading.error };
+}
@@ -0,0 +1,105 @@
+/**
+ * Input learning: candidate inputs and "test switch" probing.
+ *
+ * A test switch sends the monitor to a candidate input, confirms it by
+ * reading VCP 0x60 back, holds it long enough for the user to see what came
+ * up, then returns to the original input so the wizard stays visible.
+ */
+
+import { setTimeout } from "node:timers/promises";
+import { DdcBackend } from "./backends";
+import { setInputSource } from "./ddc";
+import { SwitchOutcome } from "./switch-verification";
+import { parseCapabilities, supportedInputs } from "./mccs";
+import { DEFAULT_SWITCH_POLICY, SwitchPolicy } from "./verify";
+
+/** Inputs probed when the monitor doesn't report its capabilities */
+const COMMON_INPUTS = [0x0f, 0x10, 0x11, 0x12, 0x1b];
+
+/** How long a test switch stays on the candidate input */
+export const TEST_HOLD_MS = 4000;
+
+/**
+ * Candidate input values for a monitor: from its capabilities string when
+ * available, otherwise the common DP/HDMI/USB-C values.
+ */
+export async function candidateInputs(
+  backend: DdcBackend,
+  monitorId: string,
+): Promise<{ values: number[]; fromCapabilities: boolean }> {
+  try {
+    const values = supportedInputs(
+      parseCapabilities(await backend.getCapabilities(monitorId)),
+    );
+    if (values.length > 0) {
+      return { values, fromCapabilities: true };
+    }
+  } catch {
+    // Fall through to the common values
+  }
+  return { values: COMMON_INPUTS, fromCapabilities: false };
+}
+
+export interface TestSwitchResult {
+  /** Outcome of switching to the candidate */
+  outcome: SwitchOutcome;
+  /** Whether the monitor reported the candidate input (confirmed by read-back) */
+  confirmed: boolean;
+  /** Whether the monitor made it back to the original input */
+  restored: boolean;
+  message: string;
+}
+
+/**
+ * Switch to a candidate input, confirm it, then switch back.
+ */
+export async function testSwitch(
+  backend: DdcBackend,
+  monitorId: string,
+  candidate: number,
+  original: number,
+  policy: SwitchPolicy = DEFAULT_SWITCH_POLICY,
+  holdMs = TEST_HOLD_MS,
+): Promise<TestSwitchResult> {
+  // Verification is the whole point here, even if the user disabled it
+  const verifying: SwitchPolicy = {
+    ...policy,
+    verifyTimeoutMs: Math.max(
+      policy.verifyTimeoutMs,
+      DEFAULT_SWITCH_POLICY.verifyTimeoutMs,
+    ),
+  };
+
+  const probe = await setInputSource(
+    backend,
+    candidate,
+    monitorId,
+    verifying,
+    original,
+  );
+  if (probe.outcome === "failed") {
+    return {
+      outcome: probe.outcome,
+      confirmed: false,
+      restored: true,
+      message: probe.message,
+    };
+  }
+
+  await setTimeout(holdMs);
+  const restore = await setInputSource(
+    backend,
+    original,
+    monitorId,
+    verifying,
+    candidate,
+  );
+  return {
+    outcome: probe.outcome,
+    confirmed: probe.outcome === "switched",
+    restored: restore.success,
+    message: restore.success
+      ? probe.message
+      : `${probe.message}; switching back failed: ${restore.message}`,
+  };
+}
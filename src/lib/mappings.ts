@@ -0,0 +1,258 @@
+/**
+ * Learned input mappings, persisted in Raycast LocalStorage.
+ *
+ * The learning wizard records, per monitor, which VCP 0x60 values exist and
+ * what the user calls them ("MacBook", "Gaming PC", ...). The switch command
+ * prefers these over the DisplayPort/HDMI preference fields. Monitors in
+ * the model database get a mapping without learning (see `./models`).
+ */
+
+import { LocalStorage } from "@raycast/api";
+import { Monitor } from "./backends";
+import { formatInput, inputName, parseInputValue } from "./mccs";
+import { findMonitor } from "./monitors";
+
+const STORAGE_KEY = "input-mappings";
+
+export interface LearnedInput {
+  value: number;
+  name: string;
+}
+
+export interface InputMapping {
+  backendId: string;
+  /** Backend monitor ID at learning time */
+  monitorId: string;
+  /** Serial number, used to recognise the monitor if its ID changes */
+  serial?: string;
+  monitorName: string;
+  /** Inputs in toggle order */
+  inputs: LearnedInput[];
+  /** Model database entry the inputs came from (see `./models`) */
+  modelId?: string;
+  updatedAt: string;
+}
+
+/**
+ * Load every learned mapping.
+ */
+export async function loadMappings(): Promise<InputMapping[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? (parsed as InputMapping[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function storeMappings(mappings: InputMapping[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(mappings));
+}
+
+/**
+ * Store new mappings next to the existing ones; resolves with all of them.
+ */
+export async function addMappings(
+  added: InputMapping[],
+): Promise<InputMapping[]> {
+  const mappings = [...(await loadMappings()), ...added];
+  await storeMappings(mappings);
+  return mappings;
+}
+
+/**
+ * Store mappings from elsewhere (an imported configuration), each replacing
+ * the mapping of the same monitor if there is one; the replaced mapping's
+ * monitor ID is kept, as IDs differ between computers where serials don't.
+ * Resolves with how many were replaced.
+ */
+export async function mergeMappings(incoming: InputMapping[]): Promise<number> {
+  const mappings = await loadMappings();
+  let replaced = 0;
+  for (const mapping of incoming) {
+    const position = mappings.findIndex(
+      (existing) =>
+        existing.backendId === mapping.backendId &&
+        (existing.monitorId === mapping.monitorId ||
+          (mapping.serial !== undefined && existing.serial === mapping.serial)),
+    );
+    if (position === -1) {
+      mappings.push(mapping);
+    } else {
+      mappings[position] = {
+        ...mapping,
+        monitorId: mappings[position].monitorId,
+      };
+      replaced += 1;
+    }
+  }
+  await storeMappings(mappings);
+  return replaced;
+}
+
+/**
+ * Find the mapping for a monitor ID as used by a switch.
+ *
+ * Matches the stored ID first, then the serial of the enumerated monitor the
+ * ID refers to ("Primary" counts as the first enumerated monitor).
+ */
+export function findMapping(
+  mappings: InputMapping[],
+  backendId: string,
+  monitorId: string,
+  monitors: Monitor[],
+): InputMapping | undefined {
+  const candidates = mappings.filter(
+    (mapping) => mapping.backendId === backendId,
+  );
+  const byId = candidates.find((mapping) => mapping.monitorId === monitorId);
+  if (byId) {
+    return byId;
+  }
+  const monitor =
+    monitorId.toLowerCase() === "primary"
+      ? monitors.find((entry) => entry.index === 1)
+      : findMonitor(monitors, monitorId);
+  if (!monitor) {
+    return undefined;
+  }
+  return candidates.find(
+    (mapping) =>
+      mapping.monitorId === monitor.id ||
+      (mapping.serial !== undefined && mapping.serial === monitor.serial),
+  );
+}
+
+/**
+ * Name (or replace the name of) one input of a monitor, creating the mapping
+ * if needed. New inputs go to the end of the toggle order.
+ */
+export async function saveLearnedInput(
+  backendId: string,
+  monitor: Monitor,
+  input: LearnedInput,
+): Promise<InputMapping> {
+  const mappings = await loadMappings();
+  let mapping = findMapping(mappings, backendId, monitor.id, [monitor]);
+  if (!mapping) {
+    mapping = {
+      backendId,
+      monitorId: monitor.id,
+      serial: monitor.serial,
+      monitorName: monitor.name,
+      inputs: [],
+      updatedAt: "",
+    };
+    mappings.push(mapping);
+  }
+  const existing = mapping.inputs.find((entry) => entry.value === input.value);
+  if (existing) {
+    existing.name = input.name;
+  } else {
+    mapping.inputs.push(input);
+  }
+  mapping.monitorId = monitor.id;
+  mapping.updatedAt = new Date().toISOString();
+  await storeMappings(mappings);
+  return mapping;
+}
+
+/**
+ * Remove one learned input from a monitor's mapping.
+ */
+export async function forgetLearnedInput(
+  backendId: string,
+  monitor: Monitor,
+  value: number,
+): Promise<void> {
+  const mappings = await loadMappings();
+  const mapping = findMapping(mappings, backendId, monitor.id, [monitor]);
+  if (!mapping) {
+    return;
+  }
+  mapping.inputs = mapping.inputs.filter((entry) => entry.value !== value);
+  mapping.updatedAt = new Date().toISOString();
+  await storeMappings(
+    mapping.inputs.length === 0
+      ? mappings.filter((entry) => entry !== mapping)
+      : mappings,
+  );
+}
+
+/**
+ * Input label for toasts: the learned name when there is one.
+ */
+export function inputLabel(value: number, mapping?: InputMapping): string {
+  const learned = mapping?.inputs.find((entry) => entry.value === value);
+  return learned
+    ? `${learned.name} (${formatInput(value)})`
+    : formatInput(value);
+}
+
+/**
+ * Compact input label for tight spaces like the menu bar: the learned name,
+ * else the standard name, else the hex value.
+ */
+export function shortInputLabel(value: number, mapping?: InputMapping): string {
+  const learned = mapping?.inputs.find((entry) => entry.value === value);
+  return learned?.name ?? inputName(value) ?? formatInput(value);
+}
+
+/**
+ * Resolve an input typed by the user for one monitor: a learned name
+ * ("MacBook") or anything `parseInputValue` accepts ("HDMI-1", "0x11", "17").
+ *
+ * Monitors with learned inputs only accept those, so a typo in a deeplink
+ * can't send the monitor to an input with nothing connected. Throws with
+ * the accepted inputs listed.
+ */
+export function resolveInputArgument(
+  text: string,
+  mapping?: InputMapping,
+): number {
+  const needle = text.trim().toLowerCase();
+  const learned = mapping?.inputs.find(
+    (entry) => entry.name.toLowerCase() === needle,
+  );
+  const value = learned?.value ?? parseInputValue(text);
+  if (value === undefined) {
+    throw new Error(`"${text}" is not a valid input code or learned name`);
+  }
+  if (mapping && !mapping.inputs.some((entry) => entry.value === value)) {
+    const known = mapping.inputs
+      .map((entry) => inputLabel(entry.value, mapping))
+      .join(", ");
+    throw new Error(
+      `${formatInput(value)} is not a learned input of ${mapping.monitorName} (known: ${known})`,
+    );
+  }
+  return value;
+}
+
+/**
+ * Resolve a typed input for every targeted monitor (see
+ * `resolveInputArgument`) and group the monitors by the value to send.
+ * Learned names differ per monitor, so `known` holds the mappings and the
+ * enumerated monitors to match them (see `loadMonitorMappings`). Throws on
+ * an input some monitor doesn't accept.
+ */
+export function resolveInputTargets(
+  backendId: string,
+  input: string,
+  monitorIds: string[],
+  known: { mappings: InputMapping[]; monitors: Monitor[] },
+): Map<number, string[]> {
+  const targets = new Map<number, string[]>();
+  for (const monitorId of monitorIds) {
+    const value = resolveInputArgument(
+      input,
+      findMapping(known.mappings, backendId, monitorId, known.monitors),
+    );
+    targets.set(value, [...(targets.get(value) ?? []), monitorId]);
+  }
+  return targets;
+}
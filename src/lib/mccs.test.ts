@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { parseInputValue } from "./mccs";
+
+describe("parseInputValue", () => {
+  it("reads decimal, hex and names", () => {
+    expect(parseInputValue("17")).toBe(0x11);
+    expect(parseInputValue("0x0F")).toBe(0x0f);
+    expect(parseInputValue("11h")).toBe(0x11);
+    expect(parseInputValue("HDMI-1")).toBe(0x11);
+    expect(parseInputValue("dp1")).toBe(0x0f);
+  });
+
+  it("rejects codes outside the VCP 0x60 byte", () => {
+    expect(parseInputValue("255")).toBe(0xff);
+    expect(parseInputValue("256")).toBeUndefined();
+    expect(parseInputValue("999")).toBeUndefined();
+    expect(parseInputValue("0x100")).toBeUndefined();
+  });
+
+  it("rejects missing and unknown inputs", () => {
+    expect(parseInputValue("")).toBeUndefined();
+    expect(parseInputValue(" ")).toBeUndefined();
+    expect(parseInputValue("VGA-7")).toBeUndefined();
+  });
+});
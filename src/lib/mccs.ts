@@ -0,0 +1,184 @@
+/**
+ * MCCS (Monitor Control Command Set) helpers.
+ *
+ * - Parses the capabilities string monitors report over DDC/CI, e.g.
+ *   `(prot(monitor)type(lcd)model(VG27A)vcp(10 12 60(0F 11 12) D6(01 04))mccs_ver(2.2))`
+ * - Maps input source values (VCP 0x60) to their standard names
+ * - Parses input codes given as decimal, hex or names ("17", "0x11", "HDMI-1")
+ */
+
+export interface Capabilities {
+  model?: string;
+  type?: string;
+  mccsVersion?: string;
+  /** Supported VCP codes, with their allowed values when the monitor lists them */
+  vcp: Map<number, number[] | undefined>;
+}
+
+/**
+ * Standard MCCS input source values (VCP 0x60).
+ *
+ * USB-C is not part of MCCS; 0x1B is what most vendors (Dell, LG, ...) use.
+ */
+const INPUT_NAMES: Record<number, string> = {
+  0x01: "VGA-1",
+  0x02: "VGA-2",
+  0x03: "DVI-1",
+  0x04: "DVI-2",
+  0x05: "Composite-1",
+  0x06: "Composite-2",
+  0x07: "S-Video-1",
+  0x08: "S-Video-2",
+  0x09: "Tuner-1",
+  0x0a: "Tuner-2",
+  0x0b: "Tuner-3",
+  0x0c: "Component-1",
+  0x0d: "Component-2",
+  0x0e: "Component-3",
+  0x0f: "DP-1",
+  0x10: "DP-2",
+  0x11: "HDMI-1",
+  0x12: "HDMI-2",
+  0x1b: "USB-C",
+};
+
+/** Extra spellings accepted for named inputs */
+const INPUT_ALIASES: Record<string, number> = {
+  dp: 0x0f,
+  displayport: 0x0f,
+  displayport1: 0x0f,
+  displayport2: 0x10,
+  hdmi: 0x11,
+  vga: 0x01,
+  dvi: 0x03,
+  usbc: 0x1b,
+  typec: 0x1b,
+  thunderbolt: 0x1b,
+};
+
+/**
+ * Parse a capabilities string.
+ *
+ * Tolerates surrounding text (ddcutil's verbose report embeds the raw string
+ * in a longer dump), missing outer parentheses and odd spacing.
+ */
+export function parseCapabilities(raw: string): Capabilities {
+  const vcpBody = sectionBody(raw, "vcp");
+  return {
+    model: sectionBody(raw, "model")?.trim(),
+    type: sectionBody(raw, "type")?.trim(),
+    mccsVersion: sectionBody(raw, "mccs_ver")?.trim(),
+    vcp: vcpBody === undefined ? new Map() : parseVcpList(vcpBody),
+  };
+}
+
+/**
+ * Allowed input source values from a capabilities string (empty if unknown).
+ */
+export function supportedInputs(capabilities: Capabilities): number[] {
+  return capabilities.vcp.get(0x60) ?? [];
+}
+
+/**
+ * Content between the parentheses following `name(`, honouring nesting.
+ */
+function sectionBody(raw: string, name: string): string | undefined {
+  const match = new RegExp(`(?:^|[^a-z_])${name}\\(`, "iu").exec(raw);
+  if (!match) {
+    return undefined;
+  }
+  const start = match.index + match[0].length;
+  let depth = 1;
+  for (let position = start; position < raw.length; position += 1) {
+    if (raw[position] === "(") {
+      depth += 1;
+    } else if (raw[position] === ")") {
+      depth -= 1;
+      if (depth === 0) {
+        return raw.slice(start, position);
+      }
+    }
+  }
+  // Truncated string: take everything that's there
+  return raw.slice(start);
+}
+
+/**
+ * Parse the body of `vcp(...)`: hex codes, each optionally followed by a
+ * parenthesised list of allowed hex values, e.g. `10 12 60(0F 11 12) 62`.
+ */
+function parseVcpList(body: string): Map<number, number[] | undefined> {
+  const features = new Map<number, number[] | undefined>();
+  const tokenPattern = /([0-9a-f]{1,2})\s*(?:\(([^()]*)\))?/giu;
+  for (const [, code, values] of body.matchAll(tokenPattern)) {
+    features.set(
+      parseInt(code, 16),
+      values === undefined
+        ? undefined
+        : values
+            .trim()
+            .split(/\s+/u)
+            .filter(Boolean)
+            .map((value) => parseInt(value, 16))
+            .filter((value) => !isNaN(value)),
+    );
+  }
+  return features;
+}
+
+/**
+ * Standard name of an input source value, if it has one.
+ */
+export function inputName(value: number): string | undefined {
+  return INPUT_NAMES[value];
+}
+
+/**
+ * Human-readable input, e.g. "HDMI-1 (0x11)" or "0x1C".
+ */
+export function formatInput(value: number): string {
+  const hex = `0x${value.toString(16).padStart(2, "0").toUpperCase()}`;
+  const name = inputName(value);
+  return name ? `${name} (${hex})` : hex;
+}
+
+/** Highest input value of VCP 0x60 */
+const MAX_INPUT_VALUE = 0xff;
+
+function inputCode(value: number): number | undefined {
+  return value > MAX_INPUT_VALUE ? undefined : value;
+}
+
+/**
+ * Parse an input code given as decimal ("17"), hex ("0x11", "x11", "11h",
+ * "0F") or name ("HDMI-1", "hdmi1", "DisplayPort", "USB-C").
+ *
+ * Plain digits are decimal, as the preferences always have been.
+ * Returns undefined if the text is missing or isn't a recognisable input,
+ * including codes outside the single byte MCCS input values use.
+ */
+export function parseInputValue(text: string | undefined): number | undefined {
+  const trimmed = (text ?? "").trim().toLowerCase();
+  if (trimmed === "") {
+    return undefined;
+  }
+  if (/^\d+$/u.test(trimmed)) {
+    return inputCode(parseInt(trimmed, 10));
+  }
+  const hexMatch =
+    trimmed.match(/^(?:0x|x)([0-9a-f]+)$/u) ??
+    trimmed.match(/^([0-9a-f]+)h$/u) ??
+    trimmed.match(/^([0-9a-f]*[a-f][0-9a-f]*)$/u);
+  if (hexMatch) {
+    return inputCode(parseInt(hexMatch[1], 16));
+  }
+
+  const normalized = trimmed.replaceAll(/[\s_-]/gu, "");
+  const named = Object.entries(INPUT_NAMES).find(
+    ([, name]) => name.toLowerCase().replaceAll("-", "") === normalized,
+  );
+  if (named) {
+    return Number(named[0]);
+  }
+  return INPUT_ALIASES[normalized];
+}
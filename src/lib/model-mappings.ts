@@ -0,0 +1,131 @@
+/**
+ * Input mappings and switch quirks from the model database (see
+ * `./models`).
+ *
+ * A monitor that matches a database model and has no learned inputs gets a
+ * mapping with the model's inputs, stored like a learned one (see
+ * `./mappings`), so it switches by input name without any discovery. The
+ * mapping remembers the model, whose quirks then adjust every switch of
+ * the monitor.
+ */
+
+import { LocalStorage } from "@raycast/api";
+import { createHash } from "node:crypto";
+import { DdcBackend, Monitor } from "./backends";
+import {
+  addMappings,
+  findMapping,
+  InputMapping,
+  loadMappings,
+} from "./mappings";
+import { loadModelDatabase, matchModel, ModelQuirks } from "./models";
+import { SwitchPolicy } from "./verify";
+
+/** Key of the model database state the monitors were last matched against */
+const SCAN_STORAGE_KEY = "model-database-scan";
+
+/**
+ * Create mappings from the database for the monitors that have none yet.
+ * Resolves with every mapping, including the new ones.
+ */
+export async function applyModelDatabase(
+  backendId: string,
+  monitors: Monitor[],
+  mappings: InputMapping[],
+): Promise<InputMapping[]> {
+  const models = await loadModelDatabase();
+  const created: InputMapping[] = [];
+  for (const monitor of monitors) {
+    const model = matchModel(models, monitor);
+    if (!model || findMapping(mappings, backendId, monitor.id, [monitor])) {
+      continue;
+    }
+    created.push({
+      backendId,
+      monitorId: monitor.id,
+      serial: monitor.serial,
+      monitorName: monitor.name,
+      inputs: model.inputs.map((input) => ({ ...input })),
+      modelId: model.id,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+  return created.length > 0 ? addMappings(created) : mappings;
+}
+
+/**
+ * Load the mappings, and the enumerated monitors they are matched against.
+ *
+ * Monitors are only enumerated when there are mappings to match, or when
+ * they haven't been looked up in the current model database yet; either
+ * way monitors without a mapping get one from the database.
+ */
+export async function loadMonitorMappings(
+  backend: DdcBackend,
+): Promise<{ mappings: InputMapping[]; monitors: Monitor[] }> {
+  const mappings = await loadMappings();
+  const models = await loadModelDatabase();
+  const scan = createHash("sha256")
+    .update(JSON.stringify([backend.id, models]))
+    .digest("hex");
+  const scanned =
+    (await LocalStorage.getItem<string>(SCAN_STORAGE_KEY)) === scan;
+  if (mappings.length === 0 && scanned) {
+    return { mappings, monitors: [] };
+  }
+  const monitors = await backend.listDisplays().catch(() => []);
+  if (monitors.length > 0 && !scanned) {
+    await LocalStorage.setItem(SCAN_STORAGE_KEY, scan);
+  }
+  return {
+    mappings: await applyModelDatabase(backend.id, monitors, mappings),
+    monitors,
+  };
+}
+
+/**
+ * Quirks of the monitor a switch targets, through the mapping the database
+ * created for it. Only enumerates monitors when some mapped model has
+ * quirks and the monitor ID alone doesn't identify the mapping.
+ */
+export async function modelQuirksFor(
+  backend: DdcBackend,
+  monitorId: string,
+): Promise<ModelQuirks | undefined> {
+  const mapped = (await loadMappings()).filter(
+    (mapping) => mapping.backendId === backend.id && mapping.modelId,
+  );
+  if (mapped.length === 0) {
+    return undefined;
+  }
+  const models = await loadModelDatabase();
+  const quirksOf = (mapping?: InputMapping) => {
+    const quirks = models.find(
+      (model) => model.id === mapping?.modelId,
+    )?.quirks;
+    return quirks && Object.keys(quirks).length > 0 ? quirks : undefined;
+  };
+  if (!mapped.some((mapping) => quirksOf(mapping))) {
+    return undefined;
+  }
+  const byId = findMapping(mapped, backend.id, monitorId, []);
+  if (byId) {
+    return quirksOf(byId);
+  }
+  const monitors = await backend.listDisplays().catch(() => []);
+  return quirksOf(findMapping(mapped, backend.id, monitorId, monitors));
+}
+
+/**
+ * Switch policy adjusted to a monitor's quirks.
+ */
+export function applyModelQuirks(
+  policy: SwitchPolicy,
+  quirks: ModelQuirks,
+): SwitchPolicy {
+  return {
+    ...policy,
+    settleMs: quirks.switchDelayMs ?? policy.settleMs,
+    verifyTimeoutMs: quirks.verifyTimeoutMs ?? policy.verifyTimeoutMs,
+  };
+}
@@ -0,0 +1,239 @@
+/**
+ * Monitor model database: input codes and quirks per monitor model.
+ *
+ * Input codes (VCP 0x60) are vendor-specific: many Dell and LG monitors use
+ * 0x1B for USB-C, others skip the standard values entirely. The bundled
+ * `assets/monitor-models.json` lists known models; the "Model Database"
+ * preference adds a JSON file of the same format whose entries win over
+ * the bundled ones:
+ *
+ *   {
+ *     "version": 1,
+ *     "models": [{
+ *       "id": "dell-u2720q",
+ *       "manufacturer": "DEL",
+ *       "models": ["DELL U2720Q"],
+ *       "productCodes": ["0xA0F4"],
+ *       "inputs": [{ "value": "0x0F", "name": "DisplayPort" }],
+ *       "quirks": { "switchDelayMs": 1000, "verifyTimeoutMs": 8000 }
+ *     }]
+ *   }
+ *
+ * Monitors are matched on their identity (see `Monitor.identity`): the
+ * manufacturer and EDID product code when the backend reports them, else
+ * the model name. How matches turn into input mappings and switch quirks
+ * is in `./model-mappings`.
+ */
+
+import { environment, getPreferenceValues } from "@raycast/api";
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { Monitor } from "./backends";
+import { Preferences } from "./extension";
+import { LearnedInput } from "./mappings";
+import { parseInputValue } from "./mccs";
+import { findMonitor } from "./monitors";
+
+export const MODEL_DATABASE_VERSION = 1;
+
+export interface ModelQuirks {
+  /** Time the monitor needs after switching before it answers again */
+  switchDelayMs?: number;
+  /**
+   * Replaces the "Verify Timeout" preference; 0 for monitors that report a
+   * different value than the one written
+   */
+  verifyTimeoutMs?: number;
+}
+
+export interface MonitorModel {
+  /** Stable identifier, stored in the mappings created from the entry */
+  id: string;
+  /** Three-letter PNP manufacturer ID, e.g. "DEL" */
+  manufacturer?: string;
+  /** EDID product codes; only compared along with the manufacturer */
+  productCodes: number[];
+  /** EDID model names */
+  models: string[];
+  /** Inputs in toggle order */
+  inputs: LearnedInput[];
+  quirks: ModelQuirks;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function parseInputs(value: unknown): LearnedInput[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`"inputs" must be a non-empty list`);
+  }
+  return value.map((input: unknown) => {
+    const code = isRecord(input)
+      ? parseInputValue(String(input.value ?? ""))
+      : undefined;
+    if (
+      !isRecord(input) ||
+      code === undefined ||
+      typeof input.name !== "string"
+    ) {
+      throw new Error(
+        `Inputs must look like { "value": "0x0F", "name": "DisplayPort" }`,
+      );
+    }
+    return { value: code, name: input.name };
+  });
+}
+
+function parseQuirks(value: unknown): ModelQuirks {
+  if (value === undefined) {
+    return {};
+  }
+  if (!isRecord(value)) {
+    throw new Error(`"quirks" must be an object`);
+  }
+  const quirks: ModelQuirks = {};
+  for (const [key, setting] of Object.entries(value)) {
+    if (key !== "switchDelayMs" && key !== "verifyTimeoutMs") {
+      throw new Error(`Unknown quirk "${key}"`);
+    }
+    if (typeof setting !== "number" || setting < 0) {
+      throw new Error(`Quirk "${key}" must be a number of milliseconds`);
+    }
+    quirks[key] = setting;
+  }
+  return quirks;
+}
+
+function parseModel(entry: unknown): MonitorModel {
+  if (!isRecord(entry) || typeof entry.id !== "string" || entry.id === "") {
+    throw new Error(`Every model needs an "id"`);
+  }
+  const strings = (key: string): string[] => {
+    const value = entry[key] ?? [];
+    if (Array.isArray(value)) {
+      return value.map(String);
+    }
+    throw new Error(`"${key}" must be a list`);
+  };
+  try {
+    const productCodes = strings("productCodes").map((code) => {
+      const parsed = /^0x/iu.test(code) ? parseInt(code, 16) : Number(code);
+      if (Number.isInteger(parsed)) {
+        return parsed;
+      }
+      throw new Error(`"${code}" is not a product code`);
+    });
+    const model: MonitorModel = {
+      id: entry.id,
+      manufacturer:
+        typeof entry.manufacturer === "string"
+          ? entry.manufacturer.toUpperCase()
+          : undefined,
+      productCodes,
+      models: strings("models"),
+      inputs: parseInputs(entry.inputs),
+      quirks: parseQuirks(entry.quirks),
+    };
+    if (model.models.length === 0 && productCodes.length === 0) {
+      throw new Error(`Give "models" or "productCodes" to match monitors`);
+    }
+    if (productCodes.length > 0 && !model.manufacturer) {
+      throw new Error(`"productCodes" need a "manufacturer"`);
+    }
+    return model;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`${entry.id}: ${reason}`, { cause: error });
+  }
+}
+
+/**
+ * Validate a parsed database document. Throws on the first invalid entry.
+ */
+export function parseModelDatabase(document: unknown): MonitorModel[] {
+  if (!isRecord(document) || !Array.isArray(document.models)) {
+    throw new Error(`Expected { "version": 1, "models": [...] }`);
+  }
+  if (document.version !== MODEL_DATABASE_VERSION) {
+    throw new Error(`Unsupported version ${String(document.version)}`);
+  }
+  return document.models.map(parseModel);
+}
+
+async function readModelDatabase(path: string): Promise<MonitorModel[]> {
+  try {
+    return parseModelDatabase(JSON.parse(await readFile(path, "utf-8")));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Model database ${path}: ${reason}`, { cause: error });
+  }
+}
+
+/**
+ * The user's models followed by the bundled ones. Throws when the user's
+ * file can't be read or is invalid.
+ */
+export async function loadModelDatabase(): Promise<MonitorModel[]> {
+  const userPath = getPreferenceValues<Preferences>().modelDatabasePath?.trim();
+  const bundled = await readModelDatabase(
+    join(environment.assetsPath, "monitor-models.json"),
+  );
+  if (!userPath) {
+    return bundled;
+  }
+  const expanded = userPath.replace(/^~(?=$|[/\\])/u, homedir());
+  return [...(await readModelDatabase(expanded)), ...bundled];
+}
+
+function normalizeModelName(name: string): string {
+  return name.toUpperCase().replaceAll(/\s+/gu, " ").trim();
+}
+
+/**
+ * Database entry of an enumerated monitor: by manufacturer and product
+ * code first, then by model name.
+ */
+export function matchModel(
+  models: MonitorModel[],
+  monitor: Monitor,
+): MonitorModel | undefined {
+  const { manufacturer, productCode, model } = monitor.identity ?? {};
+  const maker = manufacturer?.toUpperCase();
+  if (maker && productCode !== undefined) {
+    const byCode = models.find(
+      (entry) =>
+        entry.manufacturer === maker &&
+        entry.productCodes.includes(productCode),
+    );
+    if (byCode) {
+      return byCode;
+    }
+  }
+  if (!model) {
+    return undefined;
+  }
+  const name = normalizeModelName(model);
+  return models.find(
+    (entry) =>
+      (!maker || !entry.manufacturer || entry.manufacturer === maker) &&
+      entry.models.some((candidate) => normalizeModelName(candidate) === name),
+  );
+}
+
+/**
+ * Database entry of the monitor a switch targets ("Primary" is the first
+ * enumerated monitor).
+ */
+export function findMonitorModel(
+  models: MonitorModel[],
+  monitors: Monitor[],
+  monitorId: string,
+): MonitorModel | undefined {
+  const monitor =
+    monitorId.toLowerCase() === "primary"
+      ? monitors.find((entry) => entry.index === 1)
+      : findMonitor(monitors, monitorId);
+  return monitor && matchModel(models, monitor);
+}
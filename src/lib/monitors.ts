@@ -0,0 +1,86 @@
+/**
+ * Monitor selection helpers.
+ *
+ * Turns the user's monitor selector (preference or argument) into the
+ * backend-specific IDs a switch should target.
+ *
+ * Selector syntax:
+ * - "Primary" (or empty): the tool's default display
+ * - "all": every display the backend can enumerate
+ * - a comma-separated list of display numbers, serials, names or backend IDs,
+ *   e.g. "1, 2" or "DELL U2720Q, bus=7"
+ */
+
+import { DdcBackend, Monitor } from "./backends";
+
+/**
+ * Resolve a monitor selector into backend monitor IDs.
+ *
+ * Tokens that don't match an enumerated monitor are passed through as-is,
+ * since backends accept IDs they don't list (e.g. ddcutil's `bus=5`).
+ * Throws if "all" is requested and no monitor can be enumerated.
+ */
+export async function resolveMonitorTargets(
+  backend: DdcBackend,
+  selector: string,
+): Promise<string[]> {
+  const tokens = selector
+    .split(",")
+    .map((token) => token.trim())
+    .filter(Boolean);
+  if (tokens.length === 0) {
+    return ["Primary"];
+  }
+
+  // Only enumerate when a token actually needs it
+  let monitors: Monitor[] | undefined;
+  const enumerate = async (): Promise<Monitor[]> => {
+    if (monitors === undefined) {
+      try {
+        monitors = await backend.listDisplays();
+      } catch {
+        monitors = [];
+      }
+    }
+    return monitors;
+  };
+
+  const targets: string[] = [];
+  for (const token of tokens) {
+    if (token.toLowerCase() === "primary") {
+      targets.push("Primary");
+    } else if (token.toLowerCase() === "all") {
+      const all = await enumerate();
+      if (all.length === 0) {
+        throw new Error("No displays found to switch");
+      }
+      targets.push(...all.map((monitor) => monitor.id));
+    } else {
+      targets.push(findMonitor(await enumerate(), token)?.id ?? token);
+    }
+  }
+  return [...new Set(targets)];
+}
+
+/**
+ * Find a monitor by backend ID, display number, serial or name (in that order).
+ */
+export function findMonitor(
+  monitors: Monitor[],
+  token: string,
+): Monitor | undefined {
+  const needle = token.trim().toLowerCase();
+  return (
+    monitors.find((monitor) => monitor.id.toLowerCase() === needle) ??
+    monitors.find((monitor) => String(monitor.index) === needle) ??
+    monitors.find((monitor) => monitor.serial?.toLowerCase() === needle) ??
+    monitors.find((monitor) => monitor.name.toLowerCase() === needle)
+  );
+}
+
+/**
+ * Short label for toasts, e.g. "DELL U2720Q" or the raw ID.
+ */
+export function monitorLabel(monitors: Monitor[], monitorId: string): string {
+  return findMonitor(monitors, monitorId)?.name ?? monitorId;
+}
@@ -0,0 +1,125 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { configureShim } from "../cli/raycast-shim";
+import { createAgentServer } from "./agent";
+import { createSimulatedBackend } from "./backends/simulated";
+import { DEFAULT_PREFERENCES } from "./extension";
+import { PeerConfig, peerReadInputs, peerSwitchInput } from "./peer";
+
+const TOKEN = "loopback-secret";
+
+describe("peer and agent over loopback", () => {
+  const backend = createSimulatedBackend();
+  const server = createAgentServer({
+    backend,
+    prefs: { ...DEFAULT_PREFERENCES, ddcBackend: "simulated" },
+    profiles: [],
+    token: TOKEN,
+    host: "desk-pc",
+  });
+  let directory: string;
+  let peer: PeerConfig;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), "monitor-switch-"));
+    configureShim({
+      preferences: {},
+      storagePath: join(directory, "storage.json"),
+      assetsPath: join(__dirname, "..", "..", "assets"),
+    });
+    await new Promise<void>((resolve) => {
+      server.listen(0, "127.0.0.1", resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    peer = {
+      mode: "fallback",
+      url: `http://127.0.0.1:${port}`,
+      token: TOKEN,
+      timeoutMs: 5000,
+    };
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => {
+      server.close(resolve);
+    });
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("reads the agent's monitors", async () => {
+    const report = await peerReadInputs(peer, "all");
+    expect(report).toMatchObject({
+      status: "success",
+      host: "desk-pc",
+      backend: "simulated",
+    });
+    expect(
+      report.readings.map(({ monitorId, value }) => [monitorId, value]),
+    ).toEqual([
+      ["1", 0x0f],
+      ["2", 0x11],
+    ]);
+  });
+
+  it("switches the requested monitor and names the agent's host", async () => {
+    const result = await peerSwitchInput(peer, "HDMI-2", "2");
+    expect(result.status).toBe("success");
+    expect(result.title).toMatch(/\(via desk-pc\)$/u);
+    expect(await backend.getVcp("2", 0x60)).toBe(0x12);
+    expect(await backend.getVcp("1", 0x60)).toBe(0x0f);
+  });
+
+  it("toggles with the agent's own input cycle", async () => {
+    const result = await peerSwitchInput(peer, "toggle", "1");
+    expect(result.status).toBe("success");
+    // DisplayPort (15) is followed by HDMI (17) in the default cycle
+    expect(await backend.getVcp("1", 0x60)).toBe(0x11);
+  });
+
+  it("passes the agent's refusals on", async () => {
+    const result = await peerSwitchInput(peer, "profile: Gaming");
+    expect(result).toMatchObject({
+      status: "failure",
+      title: 'No profile named "Gaming" (via desk-pc)',
+    });
+  });
+
+  it("fails without the agent's token", async () => {
+    const stranger = { ...peer, token: "wrong" };
+    expect(await peerSwitchInput(stranger, "DP-1")).toMatchObject({
+      status: "failure",
+      title: "Peer handoff failed",
+      message: "The peer's agent rejected the Agent Token",
+    });
+    await expect(peerReadInputs(stranger)).rejects.toThrow(
+      "rejected the Agent Token",
+    );
+    expect(await backend.getVcp("1", 0x60)).toBe(0x11);
+  });
+
+  it("fails when nothing listens at the peer URL", async () => {
+    const closed = createAgentServer({
+      backend,
+      prefs: DEFAULT_PREFERENCES,
+      profiles: [],
+      token: TOKEN,
+      host: "gone",
+    });
+    await new Promise<void>((resolve) => {
+      closed.listen(0, "127.0.0.1", resolve);
+    });
+    const { port } = closed.address() as AddressInfo;
+    await new Promise((resolve) => {
+      closed.close(resolve);
+    });
+    const result = await peerSwitchInput(
+      { ...peer, url: `http://127.0.0.1:${port}` },
+      "DP-1",
+    );
+    expect(result.status).toBe("failure");
+    expect(result.message).toMatch(/^Could not reach http:\/\/127\.0\.0\.1/u);
+  });
+});
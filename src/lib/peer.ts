@@ -0,0 +1,161 @@
+/**
+ * Peer handoff: send a switch to the monitor agent of another computer
+ * (see `./agent`) instead of driving the monitor from this one.
+ *
+ * The Peer Handoff setting decides when: never, only when this computer
+ * can't reach the monitor over DDC/CI (no tool, no display, no permission),
+ * or always. Requests carry the shared Agent Token and give up after the
+ * Peer Timeout.
+ */
+
+import {
+  AGENT_INPUT_PATH,
+  AgentInputReport,
+  AgentSwitchRequest,
+  AgentSwitchResponse,
+} from "./agent";
+import { errorMessageOf } from "./backends/types";
+import { DdcErrorKind, DdcFailure } from "./errors";
+import { Preferences } from "./extension";
+import { ToastResult } from "./toast";
+
+export type PeerMode = "off" | "fallback" | "always";
+
+export interface PeerConfig {
+  mode: Exclude<PeerMode, "off">;
+  /** Base URL of the agent, e.g. http://desk-pc.local:8765 */
+  url: string;
+  token: string;
+  timeoutMs: number;
+}
+
+export const DEFAULT_PEER_TIMEOUT_MS = 15_000;
+
+/** Local failures that mean there is no DDC/CI path from this computer */
+const UNAVAILABLE_KINDS: DdcErrorKind[] = [
+  "tool-missing",
+  "no-display",
+  "permission-denied",
+];
+
+/**
+ * The peer settings; undefined when handoff is off or no peer is set.
+ * Throws on a URL that isn't http(s).
+ */
+export function peerFromPreferences(
+  prefs: Preferences,
+): PeerConfig | undefined {
+  const mode = prefs.peerMode;
+  const url = prefs.peerUrl?.trim() ?? "";
+  if ((mode !== "always" && mode !== "fallback") || url === "") {
+    return undefined;
+  }
+  const parsed = new URL(url.includes("://") ? url : `http://${url}`);
+  if (parsed.protocol === "http:" || parsed.protocol === "https:") {
+    const timeoutSeconds = Number(prefs.peerTimeout ?? "");
+    return {
+      mode,
+      url: parsed.origin,
+      token: prefs.agentToken ?? "",
+      timeoutMs:
+        isNaN(timeoutSeconds) || timeoutSeconds <= 0
+          ? DEFAULT_PEER_TIMEOUT_MS
+          : Math.round(timeoutSeconds * 1000),
+    };
+  }
+  throw new Error(`"${url}" is not an http:// or https:// address`);
+}
+
+/**
+ * Whether a local failure means this computer can't reach the monitor, so
+ * a fallback peer should take over.
+ */
+export function localDdcUnavailable(failure?: DdcFailure): boolean {
+  return failure !== undefined && UNAVAILABLE_KINDS.includes(failure.kind);
+}
+
+async function requestPeer<T>(
+  peer: PeerConfig,
+  path: string,
+  body?: AgentSwitchRequest,
+): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(new URL(path, peer.url), {
+      method: body ? "POST" : "GET",
+      headers: {
+        Authorization: `Bearer ${peer.token}`,
+        "Content-Type": "application/json",
+      },
+      body: body && JSON.stringify(body),
+      signal: AbortSignal.timeout(peer.timeoutMs),
+    });
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      const seconds = peer.timeoutMs / 1000;
+      throw new Error(
+        `${peer.url} didn't answer within ${seconds} second${seconds === 1 ? "" : "s"}`,
+        { cause: error },
+      );
+    }
+    const reason = error instanceof Error && error.cause ? error.cause : error;
+    throw new Error(`Could not reach ${peer.url}: ${errorMessageOf(reason)}`, {
+      cause: error,
+    });
+  }
+  const payload = (await response.json().catch(() => null)) as
+    (T & Partial<AgentSwitchResponse>) | null;
+  if (response.status === 401) {
+    throw new Error("The peer's agent rejected the Agent Token");
+  }
+  if (!response.ok || payload === null) {
+    throw new Error(
+      payload?.title
+        ? `${payload.title}: ${payload.message}`
+        : `The peer answered HTTP ${response.status}`,
+    );
+  }
+  return payload;
+}
+
+/**
+ * Ask the peer to switch its monitors to an input (or "profile: <name>").
+ */
+export async function peerSwitchInput(
+  peer: PeerConfig,
+  input: string,
+  monitor?: string,
+): Promise<ToastResult> {
+  try {
+    const answer = await requestPeer<AgentSwitchResponse>(
+      peer,
+      AGENT_INPUT_PATH,
+      { input, monitor: monitor?.trim() || undefined },
+    );
+    return {
+      status: answer.status,
+      title: `${answer.title} (via ${answer.host ?? peer.url})`,
+      message: answer.message,
+    };
+  } catch (error) {
+    return {
+      status: "failure",
+      title: "Peer handoff failed",
+      message: errorMessageOf(error),
+    };
+  }
+}
+
+/**
+ * Read the current inputs of the peer's monitors. Throws when the peer
+ * can't be reached or refuses.
+ */
+export function peerReadInputs(
+  peer: PeerConfig,
+  monitor?: string,
+): Promise<AgentInputReport> {
+  const query = monitor?.trim()
+    ? `?${new URLSearchParams({ monitor: monitor.trim() })}`
+    : "";
+  return requestPeer<AgentInputReport>(peer, `${AGENT_INPUT_PATH}${query}`);
+}
@@ -4,12 +4,13 @@
  * Handles OS detection, Apple Silicon chip identification, and tool availability checks.
  */
 
-import { execSync } from "node:child_process";
 import { platform } from "node:os";
+import { ddcFailure } from "./errors";
+import { runChecked } from "./exec";
 import { ToastResult, GenericSuccess } from "./toast";
 
 /** Supported operating systems for this extension */
-export type SupportedPlatform = "darwin" | "win32";
+export type SupportedPlatform = "darwin" | "win32" | "linux";
 
 /** Apple Silicon chip generation (relevant for m1ddc compatibility) */
 export type AppleSiliconGen = "m1" | "m2_or_later" | "intel" | "unknown";
@@ -18,6 +19,7 @@ export interface PlatformInfo {
   os: SupportedPlatform | "unsupported";
   appleChipGen: AppleSiliconGen;
   isWin32: boolean;
+  isLinux: boolean;
   isAppleSilicon: boolean;
   m1ddcSupportsBuiltinHdmi: boolean;
 }
@@ -30,13 +32,14 @@ export type PlatformValidation = PlatformInfo & ToastResult;
  * m1ddc note: Built-in HDMI port is only supported on M2 and later.
  * M1 Macs can still use m1ddc for external displays via USB-C/Thunderbolt adapters.
  */
-export function detectPlatform(): PlatformInfo {
+export async function detectPlatform(): Promise<PlatformInfo> {
   const os = platform();
 
   if (os === "win32") {
     return {
       os: "win32",
       isWin32: true,
+      isLinux: false,
       appleChipGen: "unknown",
       isAppleSilicon: false,
       m1ddcSupportsBuiltinHdmi: false,
@@ -44,10 +47,11 @@ export function detectPlatform(): PlatformInfo {
   }
 
   if (os === "darwin") {
-    const chipGen = detectAppleSiliconGeneration();
+    const chipGen = await detectAppleSiliconGeneration();
     return {
       os: "darwin",
       isWin32: false,
+      isLinux: false,
       appleChipGen: chipGen,
       isAppleSilicon: chipGen !== "intel",
       // M2+ supports built-in HDMI; M1 does not (per m1ddc docs)
@@ -55,9 +59,21 @@ export function detectPlatform(): PlatformInfo {
     };
   }
 
+  if (os === "linux") {
+    return {
+      os: "linux",
+      isWin32: false,
+      isLinux: true,
+      appleChipGen: "unknown",
+      isAppleSilicon: false,
+      m1ddcSupportsBuiltinHdmi: false,
+    };
+  }
+
   return {
     os: "unsupported",
     isWin32: false,
+    isLinux: false,
     appleChipGen: "unknown",
     isAppleSilicon: false,
     m1ddcSupportsBuiltinHdmi: false,
@@ -69,14 +85,13 @@ export function detectPlatform(): PlatformInfo {
  *
  * Parses the chip brand string to determine M1 vs M2/M3/M4.
  */
-function detectAppleSiliconGeneration(): AppleSiliconGen {
+async function detectAppleSiliconGeneration(): Promise<AppleSiliconGen> {
   try {
-    const quotedPath = `"/usr/sbin/sysctl"`;
-    const brandString = execSync(`${quotedPath} -n machdep.cpu.brand_string`, {
-      shell: "/bin/bash",
-      encoding: "utf-8",
-      timeout: 3000,
-    }).trim();
+    const brandString = await runChecked(
+      "/usr/sbin/sysctl",
+      ["-n", "machdep.cpu.brand_string"],
+      { timeoutMs: 3000 },
+    );
 
     // Intel chips contain "Intel" in the brand string
     if (brandString.toLowerCase().includes("intel")) {
@@ -106,15 +121,19 @@ function detectAppleSiliconGeneration(): AppleSiliconGen {
  *
  * Returns an error message if prerequisites are not met, or null if ready.
  */
-export function validateHostPlatform(): PlatformValidation {
-  const info = detectPlatform();
+export async function validateHostPlatform(): Promise<PlatformValidation> {
+  const info = await detectPlatform();
 
   if (info.os === "unsupported") {
     return {
       ...info,
       status: "failure",
-      title: "This extension only supports macOS and Windows.",
+      title: "This extension only supports macOS, Windows and Linux.",
       message: "",
+      failure: ddcFailure(
+        "tool-missing",
+        `No DDC/CI backend for ${platform()}`,
+      ),
     };
   }
 
@@ -125,6 +144,7 @@ export function validateHostPlatform(): PlatformValidation {
         status: "failure",
         title: "m1ddc requires Apple Silicon (M1 or later)",
         message: "M1 is partially supported, Intel Macs are not supported.",
+        failure: ddcFailure("tool-missing", "m1ddc doesn't run on Intel Macs"),
       };
     }
 
@@ -142,7 +162,7 @@ export function validateHostPlatform(): PlatformValidation {
     return { ...info, ...GenericSuccess };
   }
 
-  if (info.os === "win32") {
+  if (info.os === "win32" || info.os === "linux") {
     return { ...info, ...GenericSuccess };
   }
 
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { parseProfileStep } from "./profile-steps";
+
+describe("parseProfileStep", () => {
+  it("reads settings, values and monitors", () => {
+    expect(parseProfileStep("input = HDMI-1 @ all")).toEqual({
+      monitor: "all",
+      vcpCode: 0x60,
+      value: 0x11,
+    });
+    expect(parseProfileStep("brightness = 70")).toEqual({
+      monitor: "Primary",
+      vcpCode: 0x10,
+      value: 70,
+    });
+    expect(parseProfileStep("0xdc = 0x0F @ 2")).toMatchObject({
+      vcpCode: 0xdc,
+      value: 0x0f,
+    });
+  });
+
+  it("rejects values beyond the 16 bits of a VCP feature", () => {
+    expect(parseProfileStep("brightness = 65535").value).toBe(0xffff);
+    expect(() => parseProfileStep("brightness = 999999")).toThrow(
+      'invalid value "999999" for brightness',
+    );
+    expect(() => parseProfileStep("0x62 = 0x10000")).toThrow("invalid value");
+  });
+});
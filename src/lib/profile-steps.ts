@@ -0,0 +1,156 @@
+/**
+ * Text syntax of desk profile steps, as edited in the profile form.
+ *
+ * One step per line, `<setting> = <value> @ <monitors>`:
+ *
+ *   input = HDMI-1 @ 2
+ *   brightness = 70 @ all
+ *   0x62 = 20
+ *
+ * The monitor part uses the Monitor(s) preference syntax and defaults to
+ * "Primary". Settings are input, brightness, contrast, volume, mute, power
+ * or a raw VCP code (hex). Blank lines and `#` comments are ignored.
+ */
+
+import { vcpHex } from "./backends/types";
+import { formatInput, parseInputValue } from "./mccs";
+import { ProfileStep } from "./profiles";
+import {
+  formatVcpValue,
+  VCP_FEATURES,
+  VCP_INPUT_SOURCE,
+  VcpFeature,
+} from "./vcp";
+
+/** Setting names accepted in step lines, besides raw VCP codes */
+const SETTING_CODES: Record<string, number> = {
+  input: VCP_INPUT_SOURCE,
+  brightness: VCP_FEATURES.brightness.code,
+  contrast: VCP_FEATURES.contrast.code,
+  volume: VCP_FEATURES.volume.code,
+  mute: VCP_FEATURES.mute.code,
+  power: VCP_FEATURES.power.code,
+};
+
+/**
+ * Feature for a VCP code: a known one, or a generic "VCP 0xNN".
+ */
+export function featureFor(vcpCode: number): VcpFeature {
+  return (
+    Object.values(VCP_FEATURES).find((feature) => feature.code === vcpCode) ?? {
+      code: vcpCode,
+      title: `VCP 0x${vcpHex(vcpCode)}`,
+    }
+  );
+}
+
+/**
+ * VCP code of a setting name ("brightness") or raw hex code ("0x62", "62").
+ */
+export function settingCode(setting: string): number | undefined {
+  const name = setting.trim().toLowerCase();
+  const vcpCode = SETTING_CODES[name] ?? parseVcpNumber(name, 16);
+  return vcpCode === undefined || vcpCode > 0xff ? undefined : vcpCode;
+}
+
+/**
+ * Parse the step lines of the profile form (see the module comment).
+ * Throws with the offending line number on invalid input.
+ */
+export function parseProfileSteps(text: string): ProfileStep[] {
+  const steps: ProfileStep[] = [];
+  for (const [position, rawLine] of text.split("\n").entries()) {
+    const line = rawLine.trim();
+    if (line === "" || line.startsWith("#")) {
+      continue;
+    }
+    try {
+      steps.push(parseProfileStep(line));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Line ${position + 1}: ${reason}`, { cause: error });
+    }
+  }
+  return steps;
+}
+
+/**
+ * Parse one step line. Throws on invalid input.
+ */
+export function parseProfileStep(line: string): ProfileStep {
+  const at = line.lastIndexOf("@");
+  const assignment = at === -1 ? line : line.slice(0, at);
+  const monitor = at === -1 ? "Primary" : line.slice(at + 1).trim();
+  const equals = assignment.indexOf("=");
+  if (equals === -1 || monitor === "") {
+    throw new Error(`expected "<setting> = <value> @ <monitors>"`);
+  }
+  const setting = assignment.slice(0, equals).trim().toLowerCase();
+  const valueText = assignment.slice(equals + 1).trim();
+
+  const vcpCode = settingCode(setting);
+  if (vcpCode === undefined) {
+    throw new Error(`unknown setting "${setting}"`);
+  }
+  const value =
+    vcpCode === VCP_INPUT_SOURCE
+      ? parseInputValue(valueText)
+      : (choiceValue(featureFor(vcpCode), valueText) ??
+        parseVcpNumber(valueText, 10));
+  // VCP values are 16 bits wide
+  if (value === undefined || value > 0xffff) {
+    throw new Error(`invalid value "${valueText}" for ${setting}`);
+  }
+  return { monitor, vcpCode, value };
+}
+
+/** Named value of a non-continuous feature, e.g. "standby" for power */
+function choiceValue(feature: VcpFeature, text: string): number | undefined {
+  return feature.choices?.find(
+    (choice) => choice.title.toLowerCase() === text.toLowerCase(),
+  )?.value;
+}
+
+/** A number with an optional 0x prefix; bare digits use `radix` */
+function parseVcpNumber(text: string, radix: number): number | undefined {
+  const match = text.match(/^(0x)?([0-9a-f]+)$/iu);
+  if (!match) {
+    return undefined;
+  }
+  const base = match[1] ? 16 : radix;
+  const value = parseInt(match[2], base);
+  return isNaN(value) ? undefined : value;
+}
+
+/**
+ * Render one step in the form's line syntax.
+ */
+export function formatProfileStep(step: ProfileStep): string {
+  const setting =
+    Object.entries(SETTING_CODES).find(
+      ([, code]) => code === step.vcpCode,
+    )?.[0] ?? `0x${vcpHex(step.vcpCode)}`;
+  const feature = featureFor(step.vcpCode);
+  let value: string;
+  if (step.vcpCode === VCP_INPUT_SOURCE) {
+    value = formatInput(step.value).replace(/ \(.*\)$/u, "");
+  } else if (feature.choices) {
+    value = formatVcpValue(feature, step.value);
+  } else {
+    value = String(step.value);
+  }
+  return `${setting} = ${value} @ ${step.monitor}`;
+}
+
+/**
+ * Short human-readable step, e.g. "Brightness 70 on all".
+ */
+export function describeProfileStep(step: ProfileStep): string {
+  const feature = featureFor(step.vcpCode);
+  const value =
+    step.vcpCode === VCP_INPUT_SOURCE
+      ? formatInput(step.value)
+      : formatVcpValue(feature, step.value);
+  const title = step.vcpCode === VCP_INPUT_SOURCE ? "Input" : feature.title;
+  return `${title} ${value} on ${step.monitor}`;
+}
@@ -0,0 +1,66 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { configureShim } from "../cli/raycast-shim";
+import { createSimulatedBackend } from "./backends/simulated";
+import { DEFAULT_PREFERENCES } from "./extension";
+import { parseProfileSteps } from "./profile-steps";
+import { applyProfile, DeskProfile } from "./profiles";
+import { switchPolicyFromPreferences } from "./verify";
+
+describe("applyProfile", () => {
+  let directory: string;
+  const backend = createSimulatedBackend();
+  const profile = (steps: string): DeskProfile => ({
+    id: "profile-1",
+    name: "Gaming PC",
+    steps: parseProfileSteps(steps),
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  });
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "monitor-switch-"));
+    configureShim({
+      preferences: {},
+      storagePath: join(directory, "storage.json"),
+      assetsPath: join(__dirname, "..", "..", "assets"),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("switches every input step between one run of the hooks", async () => {
+    const log = join(directory, "hooks.log");
+    const policy = switchPolicyFromPreferences({
+      ...DEFAULT_PREFERENCES,
+      preSwitchHook: `echo pre >> "${log}"`,
+    });
+    const { summary, steps } = await applyProfile(
+      backend,
+      profile("input = HDMI-2 @ 1\nbrightness = 40 @ 1\ninput = HDMI-2 @ 2"),
+      policy,
+    );
+    expect(summary).toMatchObject({ status: "success", message: "3 steps" });
+    expect(steps.map(({ step }) => step.vcpCode)).toEqual([0x10, 0x60, 0x60]);
+    expect(await readFile(log, "utf-8")).toBe("pre\n");
+    expect(await backend.getVcp("1", 0x60)).toBe(0x12);
+    expect(await backend.getVcp("2", 0x60)).toBe(0x12);
+  });
+
+  it("gives each input step its own result", async () => {
+    const { summary, steps } = await applyProfile(
+      backend,
+      profile("input = DP-1 @ Nowhere\ninput = DP-1 @ 1"),
+      switchPolicyFromPreferences(DEFAULT_PREFERENCES),
+    );
+    expect(summary.status).toBe("soft-fail");
+    expect(steps.map(({ result }) => result.status)).toEqual([
+      "failure",
+      "success",
+    ]);
+    expect(steps[0].result.title).toMatch(/^Failed to switch to DP-1/u);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Desk profiles: named lists of monitor settings applied in one go.
+ *
+ * A profile is a list of steps, each setting one VCP feature on one or more
+ * monitors ("work laptop": DP-1 on both monitors, brightness 70 on the left
+ * one). Profiles live in Raycast LocalStorage; their steps are edited in
+ * the text syntax of `./profile-steps`.
+ */
+
+import { randomUUID } from "node:crypto";
+import { LocalStorage } from "@raycast/api";
+import { DdcBackend } from "./backends";
+import { switchInput, switchTargets } from "./ddc";
+import { resolveMonitorTargets } from "./monitors";
+import { describeProfileStep, featureFor } from "./profile-steps";
+import { ToastResult } from "./toast";
+import { adjustVcp, VCP_INPUT_SOURCE } from "./vcp";
+import { SwitchPolicy } from "./verify";
+
+const STORAGE_KEY = "desk-profiles";
+
+export interface ProfileStep {
+  /** Monitor selector, as in the Monitor(s) preference */
+  monitor: string;
+  vcpCode: number;
+  value: number;
+}
+
+export interface DeskProfile {
+  id: string;
+  name: string;
+  steps: ProfileStep[];
+  updatedAt: string;
+}
+
+export interface StepResult {
+  step: ProfileStep;
+  result: ToastResult;
+}
+
+export interface ProfileApplication {
+  summary: ToastResult;
+  steps: StepResult[];
+}
+
+/**
+ * Load every saved profile.
+ */
+export async function loadProfiles(): Promise<DeskProfile[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? (parsed as DeskProfile[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function storeProfiles(profiles: DeskProfile[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Create or replace a profile. Profiles without an ID get a new one.
+ */
+export async function saveProfile(
+  profile: Omit<DeskProfile, "id" | "updatedAt"> & { id?: string },
+): Promise<DeskProfile> {
+  const saved: DeskProfile = {
+    ...profile,
+    id: profile.id ?? randomUUID(),
+    updatedAt: new Date().toISOString(),
+  };
+  const profiles = await loadProfiles();
+  const position = profiles.findIndex((entry) => entry.id === saved.id);
+  if (position === -1) {
+    profiles.push(saved);
+  } else {
+    profiles[position] = saved;
+  }
+  await storeProfiles(profiles);
+  return saved;
+}
+
+/**
+ * Save a copy of a profile under a new ID and "<name> copy".
+ */
+export function duplicateProfile(profile: DeskProfile): Promise<DeskProfile> {
+  return saveProfile({
+    name: `${profile.name} copy`,
+    steps: profile.steps.map((step) => ({ ...step })),
+  });
+}
+
+export async function deleteProfile(id: string): Promise<void> {
+  await storeProfiles(
+    (await loadProfiles()).filter((profile) => profile.id !== id),
+  );
+}
+
+/**
+ * Apply every step of a profile, continuing past failed steps.
+ *
+ * Input switches run after the other settings: a monitor that has moved to
+ * another host often stops answering this one. They run as one switch, so
+ * the hooks run once for the whole profile.
+ */
+export async function applyProfile(
+  backend: DdcBackend,
+  profile: DeskProfile,
+  policy: SwitchPolicy,
+): Promise<ProfileApplication> {
+  const steps: StepResult[] = [];
+  for (const step of profile.steps.filter(
+    (entry) => entry.vcpCode !== VCP_INPUT_SOURCE,
+  )) {
+    steps.push({
+      step,
+      result: await applyProfileStep(backend, step, policy),
+    });
+  }
+  steps.push(
+    ...(await applyInputSteps(
+      backend,
+      profile.steps.filter((step) => step.vcpCode === VCP_INPUT_SOURCE),
+      policy,
+    )),
+  );
+
+  const succeeded = steps.filter(
+    ({ result }) => result.status === "success",
+  ).length;
+  const failed = steps.find(({ result }) => result.status !== "success");
+  const summary: ToastResult = failed
+    ? {
+        status: succeeded === 0 ? "failure" : "soft-fail",
+        title: `Applied ${succeeded} of ${steps.length} steps of "${profile.name}"`,
+        message: `${describeProfileStep(failed.step)}: ${failed.result.title}`,
+      }
+    : {
+        status: "success",
+        title: `Applied "${profile.name}"`,
+        message: `${steps.length} step${steps.length === 1 ? "" : "s"}`,
+      };
+  return { summary, steps };
+}
+
+/**
+ * Switch the monitors of input steps in one `switchTargets` call, with one
+ * result per step. Steps whose monitors can't be found fail on their own.
+ */
+async function applyInputSteps(
+  backend: DdcBackend,
+  inputSteps: ProfileStep[],
+  policy: SwitchPolicy,
+): Promise<StepResult[]> {
+  const resolved: { step: ProfileStep; monitorIds: string[] }[] = [];
+  const unresolved = new Map<ProfileStep, ToastResult>();
+  for (const step of inputSteps) {
+    try {
+      resolved.push({
+        step,
+        monitorIds: await resolveMonitorTargets(backend, step.monitor),
+      });
+    } catch (error) {
+      unresolved.set(step, noMonitorResult(backend, error));
+    }
+  }
+  const results = await switchTargets(
+    backend,
+    resolved.map(({ step, monitorIds }) => ({
+      inputValue: step.value,
+      monitorIds,
+    })),
+    policy,
+  );
+  return inputSteps.map((step) => ({
+    step,
+    result:
+      unresolved.get(step) ??
+      results[resolved.findIndex((entry) => entry.step === step)],
+  }));
+}
+
+function noMonitorResult(backend: DdcBackend, error: unknown): ToastResult {
+  return {
+    status: "failure",
+    title: "No monitor to apply to",
+    message: backend.describeError(error),
+    failure: backend.classifyError(error),
+  };
+}
+
+/**
+ * Apply one step: an input switch, or a feature set on every monitor of it.
+ */
+export async function applyProfileStep(
+  backend: DdcBackend,
+  step: ProfileStep,
+  policy: SwitchPolicy,
+): Promise<ToastResult> {
+  let monitorIds: string[];
+  try {
+    monitorIds = await resolveMonitorTargets(backend, step.monitor);
+  } catch (error) {
+    return noMonitorResult(backend, error);
+  }
+  if (step.vcpCode === VCP_INPUT_SOURCE) {
+    return switchInput(backend, step.value, monitorIds, policy);
+  }
+
+  const feature = featureFor(step.vcpCode);
+  const results = await Promise.all(
+    monitorIds.map((monitorId) =>
+      adjustVcp(
+        backend,
+        monitorId,
+        feature,
+        { kind: "set", value: step.value },
+        policy,
+      ),
+    ),
+  );
+  return (
+    results.find((result) => result.status === "failure") ??
+    results.find((result) => result.status === "soft-fail") ??
+    results[0]
+  );
+}
@@ -0,0 +1,93 @@
+/**
+ * Decision log of the scheduled rules, persisted in Raycast LocalStorage.
+ *
+ * Every firing the runner sees is recorded with what it decided, including
+ * the ones it didn't act on (condition not met, missed while asleep) and
+ * dry runs, so "why didn't my monitors switch at 9?" has an answer. The
+ * switches themselves also land in the switch history (see `./history`).
+ */
+
+import { randomUUID } from "node:crypto";
+import { LocalStorage } from "@raycast/api";
+import { ToastResult } from "./toast";
+
+const STORAGE_KEY = "schedule-log";
+
+/** Entries kept; older ones are dropped */
+const MAX_LOG_ENTRIES = 200;
+
+/** "error": the rule failed before its action could run */
+export type RuleDecision =
+  "ran" | "skipped" | "missed" | "error" | "would-run" | "would-skip";
+
+export interface RuleLogEntry {
+  id: string;
+  /** ISO time of the decision */
+  timestamp: string;
+  ruleId: string;
+  ruleName: string;
+  /** ISO time the rule was scheduled for */
+  scheduledFor: string;
+  decision: RuleDecision;
+  status: ToastResult["status"];
+  title: string;
+  message: string;
+}
+
+export type NewRuleLogEntry = Omit<RuleLogEntry, "id">;
+
+export const DECISION_TITLES: Record<RuleDecision, string> = {
+  ran: "Ran",
+  skipped: "Skipped",
+  missed: "Missed",
+  error: "Error",
+  "would-run": "Would run (dry run)",
+  "would-skip": "Would skip (dry run)",
+};
+
+/**
+ * Load the log, newest first.
+ */
+export async function loadRuleLog(): Promise<RuleLogEntry[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? (parsed as RuleLogEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+// Appends from overlapping evaluations are chained so none overwrites another
+let pendingWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Append decisions to the log. Never throws: a failing log must not fail
+ * the rule it records.
+ */
+export function recordRuleDecisions(entries: NewRuleLogEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return pendingWrite;
+  }
+  pendingWrite = pendingWrite.then(async () => {
+    try {
+      const added = entries.map((entry) => ({ ...entry, id: randomUUID() }));
+      const log = [...added.reverse(), ...(await loadRuleLog())];
+      await LocalStorage.setItem(
+        STORAGE_KEY,
+        JSON.stringify(log.slice(0, MAX_LOG_ENTRIES)),
+      );
+    } catch {
+      // The log is best effort
+    }
+  });
+  return pendingWrite;
+}
+
+export async function clearRuleLog(): Promise<void> {
+  await pendingWrite;
+  await LocalStorage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,61 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { configureShim } from "../cli/raycast-shim";
+import { createSimulatedBackend } from "./backends/simulated";
+import { DEFAULT_PREFERENCES } from "./extension";
+import { evaluateRule, RuleContext } from "./rule-runner";
+import { ScheduleRule } from "./rules";
+
+describe("evaluateRule", () => {
+  let directory: string;
+  const context: RuleContext = {
+    backend: createSimulatedBackend(),
+    prefs: DEFAULT_PREFERENCES,
+    profiles: [],
+  };
+  const rule: ScheduleRule = {
+    id: "rule-1",
+    name: "Work",
+    enabled: true,
+    schedule: "0 9 * * *",
+    action: { kind: "input", input: "HDMI-1" },
+    wake: false,
+    updatedAt: "2026-01-01T00:00:00.000Z",
+  };
+  const at = new Date("2026-03-02T09:00:00");
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "monitor-switch-"));
+    configureShim({
+      preferences: {},
+      storagePath: join(directory, "storage.json"),
+      assetsPath: join(__dirname, "..", "..", "assets"),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("runs the action when the condition holds", async () => {
+    const decision = await evaluateRule(
+      { rule: { ...rule, onlyIfInput: "DP-1", monitor: "1" }, at },
+      context,
+    );
+    expect(decision).toMatchObject({ decision: "ran", status: "success" });
+    expect(await context.backend.getVcp("1", 0x60)).toBe(0x11);
+  });
+
+  it("logs an error, not a run, when the condition can't be checked", async () => {
+    const unknown = { rule: { ...rule, onlyIfInput: "Nowhere" }, at };
+    for (const dryRun of [false, true]) {
+      expect(await evaluateRule(unknown, context, dryRun)).toMatchObject({
+        decision: "error",
+        status: "failure",
+        title: "Could not switch to HDMI-1",
+      });
+    }
+  });
+});
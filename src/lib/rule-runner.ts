@@ -0,0 +1,253 @@
+/**
+ * Evaluating scheduled rules (see `./rules`).
+ *
+ * For a rule that fires, the runner wakes its monitors when asked to, checks
+ * the "only if current input is" condition and runs the action. Waking comes
+ * first because a monitor in standby often can't report its input. A dry run
+ * checks the condition without waking or switching anything. Every decision
+ * is written to the rule log (see `./rule-log`).
+ */
+
+import { setTimeout } from "node:timers/promises";
+import { describeSwitchAction, runSwitchAction } from "./actions";
+import { DdcBackend } from "./backends";
+import { readInputSource } from "./ddc";
+import { Preferences } from "./extension";
+import { resolveInputTargets } from "./mappings";
+import { formatInput } from "./mccs";
+import { loadMonitorMappings } from "./model-mappings";
+import { resolveMonitorTargets } from "./monitors";
+import { DeskProfile } from "./profiles";
+import { NewRuleLogEntry, recordRuleDecisions } from "./rule-log";
+import {
+  dueFirings,
+  loadLastEvaluation,
+  MAX_RULE_LATENESS_MS,
+  RuleFiring,
+  ScheduleRule,
+  saveLastEvaluation,
+} from "./rules";
+import { adjustVcp, readVcp, VCP_FEATURES } from "./vcp";
+import { SwitchPolicy, switchPolicyFromPreferences } from "./verify";
+
+/** Monitors need a moment after waking before they take an input switch */
+const WAKE_SETTLE_MS = 3000;
+
+const POWER_ON = 0x01;
+
+export interface RuleContext {
+  backend: DdcBackend;
+  prefs: Preferences;
+  profiles: DeskProfile[];
+}
+
+interface ConditionCheck {
+  met: boolean;
+  message: string;
+  /** Not met because a monitor didn't answer */
+  unreadable?: boolean;
+}
+
+/**
+ * Turn on the monitors that aren't, and wait for them to settle. Returns a
+ * note per monitor it tried to wake; failing to wake one isn't fatal, as
+ * some monitors in standby still take an input switch.
+ */
+async function wakeMonitors(
+  backend: DdcBackend,
+  monitorIds: string[],
+  policy: SwitchPolicy,
+): Promise<string[]> {
+  const notes: string[] = [];
+  for (const monitorId of monitorIds) {
+    const reading = await readVcp(backend, monitorId, VCP_FEATURES.power);
+    if (reading.current === POWER_ON) {
+      continue;
+    }
+    const result = await adjustVcp(
+      backend,
+      monitorId,
+      VCP_FEATURES.power,
+      { kind: "set", value: POWER_ON },
+      policy,
+    );
+    notes.push(
+      result.status === "failure"
+        ? `Could not wake monitor ${monitorId}: ${result.message || result.title}`
+        : `Woke monitor ${monitorId}`,
+    );
+  }
+  if (notes.length > 0) {
+    await setTimeout(WAKE_SETTLE_MS);
+  }
+  return notes;
+}
+
+/**
+ * Whether every monitor shows the rule's "only if" input.
+ */
+async function checkCondition(
+  rule: ScheduleRule,
+  backend: DdcBackend,
+  monitorIds: string[],
+): Promise<ConditionCheck> {
+  if (!rule.onlyIfInput) {
+    return { met: true, message: "" };
+  }
+  const targets = resolveInputTargets(
+    backend.id,
+    rule.onlyIfInput,
+    monitorIds,
+    await loadMonitorMappings(backend),
+  );
+  for (const [expected, ids] of targets) {
+    for (const monitorId of ids) {
+      const reading = await readInputSource(backend, monitorId);
+      if (reading.currentValue === undefined) {
+        return {
+          met: false,
+          unreadable: true,
+          message: `Could not read the input of monitor ${monitorId}: ${reading.error ?? "no value"}`,
+        };
+      }
+      if (reading.currentValue !== expected) {
+        return {
+          met: false,
+          message: `Monitor ${monitorId} is on ${formatInput(reading.currentValue)}, not ${rule.onlyIfInput}`,
+        };
+      }
+    }
+  }
+  return { met: true, message: `Monitors are on ${rule.onlyIfInput}` };
+}
+
+/**
+ * Decide on one firing of a rule and, unless `dryRun`, act on it.
+ */
+export async function evaluateRule(
+  { rule, at }: RuleFiring,
+  { backend, prefs, profiles }: RuleContext,
+  dryRun = false,
+): Promise<NewRuleLogEntry> {
+  const base = {
+    timestamp: new Date().toISOString(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    scheduledFor: at.toISOString(),
+  };
+  const action = describeSwitchAction(rule.action);
+  const rulePrefs = {
+    ...prefs,
+    monitorId: rule.monitor?.trim() || prefs.monitorId,
+  };
+  let acting = false;
+  try {
+    const monitorIds = await resolveMonitorTargets(
+      backend,
+      rulePrefs.monitorId || "Primary",
+    );
+    const notes =
+      rule.wake && !dryRun
+        ? await wakeMonitors(
+            backend,
+            monitorIds,
+            switchPolicyFromPreferences(prefs),
+          )
+        : [];
+    const condition = await checkCondition(rule, backend, monitorIds);
+    const message = [...notes, condition.message].filter(Boolean).join("; ");
+    if (!condition.met) {
+      return {
+        ...base,
+        decision: dryRun ? "would-skip" : "skipped",
+        status: "success",
+        title: `Did not ${action}`,
+        message:
+          dryRun && rule.wake && condition.unreadable
+            ? `${message} (a dry run doesn't wake the monitors first)`
+            : message,
+      };
+    }
+    if (dryRun) {
+      return {
+        ...base,
+        decision: "would-run",
+        status: "success",
+        title: `Would ${rule.wake ? "wake the monitors and " : ""}${action}`,
+        message,
+      };
+    }
+    acting = true;
+    const result = await runSwitchAction(
+      rule.action,
+      backend,
+      rulePrefs,
+      profiles,
+    );
+    return {
+      ...base,
+      decision: "ran",
+      status: result.status,
+      title: result.title,
+      message: [message, result.message].filter(Boolean).join("; "),
+    };
+  } catch (error) {
+    return {
+      ...base,
+      // Failing to find, wake or check the monitors is no decision either way
+      decision: acting ? "ran" : "error",
+      status: "failure",
+      title: `Could not ${action}`,
+      message: backend.describeError(error),
+    };
+  }
+}
+
+function missedDecision({ rule, at }: RuleFiring): NewRuleLogEntry {
+  return {
+    timestamp: new Date().toISOString(),
+    ruleId: rule.id,
+    ruleName: rule.name,
+    scheduledFor: at.toISOString(),
+    decision: "missed",
+    status: "soft-fail",
+    title: `Did not ${describeSwitchAction(rule.action)}`,
+    message: `Not checked until more than ${MAX_RULE_LATENESS_MS / 60_000} minutes after it was due (asleep or offline?)`,
+  };
+}
+
+/**
+ * Evaluate the rules that fired since the last evaluation and log every
+ * decision. Returns the decisions, in the order they were made.
+ */
+export async function runDueRules(
+  rules: ScheduleRule[],
+  context: RuleContext,
+  now: Date = new Date(),
+): Promise<NewRuleLogEntry[]> {
+  const since =
+    (await loadLastEvaluation()) ??
+    new Date(now.getTime() - MAX_RULE_LATENESS_MS);
+  // Saved before acting, so an overlapping launch doesn't act again
+  await saveLastEvaluation(now);
+
+  const { due, missed } = dueFirings(rules, since, now);
+  const decisions = missed.map((firing) => missedDecision(firing));
+  for (const firing of due) {
+    decisions.push(await evaluateRule(firing, context));
+  }
+  await recordRuleDecisions(decisions);
+  return decisions;
+}
+
+/**
+ * Dry-run a rule as if it fired now, and log the decision.
+ */
+export async function dryRunRule(
+  rule: ScheduleRule,
+  context: RuleContext,
+): Promise<NewRuleLogEntry> {
+  const decision = await evaluateRule({ rule, at: new Date() }, context, true);
+  await recordRuleDecisions([decision]);
+  return decision;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { dueFirings, ScheduleRule } from "./rules";
+
+const rule = (id: string, schedule: string, enabled = true): ScheduleRule => ({
+  id,
+  name: id,
+  enabled,
+  schedule,
+  action: { kind: "input", input: "DP-1" },
+  wake: false,
+  updatedAt: "2026-01-01T00:00:00.000Z",
+});
+
+describe("dueFirings", () => {
+  it("runs a firing of the last few minutes", () => {
+    const { due, missed } = dueFirings(
+      [rule("work", "0 9 * * *")],
+      new Date("2026-03-09T08:59"),
+      new Date("2026-03-09T09:02"),
+    );
+    expect(due).toEqual([
+      {
+        rule: expect.objectContaining({ id: "work" }),
+        at: new Date("2026-03-09T09:00"),
+      },
+    ]);
+    expect(missed).toEqual([]);
+  });
+
+  it("catches up once per rule, with its latest firing", () => {
+    const { due, missed } = dueFirings(
+      [rule("quarter", "*/15 * * * *"), rule("work", "0 9 * * *")],
+      new Date("2026-03-09T08:00"),
+      new Date("2026-03-09T10:03"),
+    );
+    expect(due.map((firing) => [firing.rule.id, firing.at])).toEqual([
+      ["quarter", new Date("2026-03-09T10:00")],
+    ]);
+    expect(missed.map((firing) => [firing.rule.id, firing.at])).toEqual([
+      ["work", new Date("2026-03-09T09:00")],
+    ]);
+  });
+
+  it("looks back a day at most, and skips disabled and invalid rules", () => {
+    const { due, missed } = dueFirings(
+      [
+        rule("work", "0 9 * * *"),
+        rule("off", "*/15 * * * *", false),
+        rule("broken", "0 25 * * *"),
+      ],
+      new Date("2026-03-01T00:00"),
+      new Date("2026-03-09T08:00"),
+    );
+    expect(due).toEqual([]);
+    expect(missed.map((firing) => firing.at)).toEqual([
+      new Date("2026-03-08T09:00"),
+    ]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Scheduled rules: switch the monitors at set times ("DP-1 at 9:00 on
+ * weekdays, back to HDMI-1 at 18:00").
+ *
+ * A rule has a cron schedule (see `./cron`), an optional weekday filter, an
+ * action (see `./actions`), the monitors it is about and an optional
+ * condition: only act while those monitors show a given input, so a rule
+ * moving the monitors back after hours leaves them alone when someone has
+ * already switched to another computer. Rules can wake the monitors first.
+ *
+ * Rules live in Raycast LocalStorage, like desk profiles. They run from the
+ * "Scheduled Switching" background command (see `./rule-runner`), which
+ * remembers when it last looked so every firing is seen once.
+ */
+
+import { randomUUID } from "node:crypto";
+import { LocalStorage } from "@raycast/api";
+import { SwitchAction } from "./actions";
+import {
+  CronSchedule,
+  cronTimesBetween,
+  nextCronTime,
+  parseCron,
+  parseWeekdays,
+} from "./cron";
+
+const STORAGE_KEY = "schedule-rules";
+const STATE_STORAGE_KEY = "schedule-state";
+
+/**
+ * Firings older than this when the rules are evaluated are missed rather
+ * than run late: a Mac waking at 11:00 shouldn't act on a 9:00 rule.
+ */
+export const MAX_RULE_LATENESS_MS = 5 * 60 * 1000;
+
+/** How far back missed firings are looked for */
+const MISSED_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+/** How far ahead `nextRuleFiring` looks */
+const NEXT_FIRING_LOOKAHEAD_MS = 366 * 24 * 60 * 60 * 1000;
+
+export interface ScheduleRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Cron expression, e.g. "0 9 * * *" */
+  schedule: string;
+  /** Weekday filter, e.g. "mon-fri"; empty for every day */
+  weekdays?: string;
+  action: SwitchAction;
+  /** Monitor selector; the Monitor(s) preference when empty */
+  monitor?: string;
+  /** Only act while every monitor shows this input */
+  onlyIfInput?: string;
+  /** Wake the monitors (VCP 0xD6) before checking the condition */
+  wake: boolean;
+  updatedAt: string;
+}
+
+export type NewScheduleRule = Omit<ScheduleRule, "id" | "updatedAt"> & {
+  id?: string;
+};
+
+export interface RuleTiming {
+  cron: CronSchedule;
+  weekdays: Set<number>;
+}
+
+/** One time a rule fires */
+export interface RuleFiring {
+  rule: ScheduleRule;
+  at: Date;
+}
+
+export interface DueFirings {
+  /** Latest firing of each rule within `MAX_RULE_LATENESS_MS` */
+  due: RuleFiring[];
+  /** Latest firing of each rule that came and went unseen */
+  missed: RuleFiring[];
+}
+
+/**
+ * Parse a rule's schedule and weekday filter. Throws on either being
+ * invalid.
+ */
+export function ruleTiming(
+  rule: Pick<ScheduleRule, "schedule" | "weekdays">,
+): RuleTiming {
+  return {
+    cron: parseCron(rule.schedule),
+    weekdays: parseWeekdays(rule.weekdays ?? ""),
+  };
+}
+
+/**
+ * Times a rule fires in `(from, to]`, oldest first. Rules with an invalid
+ * schedule never fire.
+ */
+export function ruleFiringsBetween(
+  rule: ScheduleRule,
+  from: Date,
+  to: Date,
+): Date[] {
+  let timing: RuleTiming;
+  try {
+    timing = ruleTiming(rule);
+  } catch {
+    return [];
+  }
+  return cronTimesBetween(timing.cron, from, to).filter((at) =>
+    timing.weekdays.has(at.getDay()),
+  );
+}
+
+/**
+ * The first time after `after` a rule fires, or undefined when it doesn't
+ * within a year (or its schedule is invalid).
+ */
+export function nextRuleFiring(
+  rule: ScheduleRule,
+  after: Date,
+): Date | undefined {
+  let timing: RuleTiming;
+  try {
+    timing = ruleTiming(rule);
+  } catch {
+    return undefined;
+  }
+  const limit = after.getTime() + NEXT_FIRING_LOOKAHEAD_MS;
+  for (
+    let next = nextCronTime(timing.cron, after);
+    next !== undefined && next.getTime() <= limit;
+    next = nextCronTime(timing.cron, next)
+  ) {
+    if (timing.weekdays.has(next.getDay())) {
+      return next;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Firings of the enabled rules in `(from, to]`, oldest first.
+ */
+export function upcomingFirings(
+  rules: ScheduleRule[],
+  from: Date,
+  to: Date,
+): RuleFiring[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .flatMap((rule) =>
+      ruleFiringsBetween(rule, from, to).map((at) => ({ rule, at })),
+    )
+    .sort((first, second) => first.at.getTime() - second.at.getTime());
+}
+
+/**
+ * Split the firings since the last evaluation into those to run now and
+ * those missed. A rule firing several times since then (a laptop asleep
+ * through them) runs or is missed once, for its latest firing.
+ */
+export function dueFirings(
+  rules: ScheduleRule[],
+  since: Date,
+  now: Date,
+): DueFirings {
+  const from = new Date(
+    Math.max(since.getTime(), now.getTime() - MISSED_LOOKBACK_MS),
+  );
+  const due: RuleFiring[] = [];
+  const missed: RuleFiring[] = [];
+  for (const rule of rules.filter((entry) => entry.enabled)) {
+    const latest = ruleFiringsBetween(rule, from, now).at(-1);
+    if (latest === undefined) {
+      continue;
+    }
+    const late = now.getTime() - latest.getTime() > MAX_RULE_LATENESS_MS;
+    (late ? missed : due).push({ rule, at: latest });
+  }
+  return { due, missed };
+}
+
+export async function loadRules(): Promise<ScheduleRule[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(stored) as unknown;
+    return Array.isArray(parsed) ? (parsed as ScheduleRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+async function storeRules(rules: ScheduleRule[]): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+}
+
+/**
+ * Create or replace a rule. Rules without an ID get a new one.
+ */
+export async function saveRule(rule: NewScheduleRule): Promise<ScheduleRule> {
+  const saved: ScheduleRule = {
+    ...rule,
+    id: rule.id ?? randomUUID(),
+    updatedAt: new Date().toISOString(),
+  };
+  const rules = await loadRules();
+  const position = rules.findIndex((entry) => entry.id === saved.id);
+  if (position === -1) {
+    rules.push(saved);
+  } else {
+    rules[position] = saved;
+  }
+  await storeRules(rules);
+  return saved;
+}
+
+export async function deleteRule(id: string): Promise<void> {
+  await storeRules((await loadRules()).filter((rule) => rule.id !== id));
+}
+
+/**
+ * When the rules were last evaluated; undefined before the first time.
+ */
+export async function loadLastEvaluation(): Promise<Date | undefined> {
+  const stored = await LocalStorage.getItem<string>(STATE_STORAGE_KEY);
+  const time = stored ? new Date(stored) : undefined;
+  return time && !isNaN(time.getTime()) ? time : undefined;
+}
+
+export async function saveLastEvaluation(time: Date): Promise<void> {
+  await LocalStorage.setItem(STATE_STORAGE_KEY, time.toISOString());
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PREFERENCES } from "./extension";
+import {
+  parseSharedConfig,
+  readSharedConfig,
+  withImportedSettings,
+} from "./shared-config";
+
+describe("withImportedSettings", () => {
+  it("fills in the preferences at their default or empty", () => {
+    expect(
+      withImportedSettings(
+        { ...DEFAULT_PREFERENCES, inputCycle: "" },
+        { hdmiValue: "HDMI-2", inputCycle: "DP-1, HDMI-2" },
+      ),
+    ).toMatchObject({ hdmiValue: "HDMI-2", inputCycle: "DP-1, HDMI-2" });
+  });
+
+  it("keeps the preferences set by hand", () => {
+    const merged = withImportedSettings(
+      { ...DEFAULT_PREFERENCES, hdmiValue: "0x12", ddcBackend: "m1ddc" },
+      { hdmiValue: "HDMI-2", ddcBackend: "ddcutil", monitorId: "all" },
+    );
+    expect(merged).toMatchObject({
+      hdmiValue: "0x12",
+      ddcBackend: "m1ddc",
+      monitorId: "all",
+    });
+  });
+});
+
+describe("readSharedConfig", () => {
+  it("migrates flat preferences first", () => {
+    expect(
+      readSharedConfig({ hdmiPortValue: "HDMI-2", switchRetries: "3" }),
+    ).toEqual({
+      config: { version: 1, monitors: { hdmiInput: "HDMI-2" } },
+      issues: [],
+      dropped: ["switchRetries"],
+    });
+  });
+
+  it("reports what keeps a document from being read", () => {
+    expect(parseSharedConfig("{").issues).toEqual([
+      expect.objectContaining({ message: expect.stringMatching(/^not JSON/u) }),
+    ]);
+    const { config, issues } = readSharedConfig({
+      version: 1,
+      monitors: { hdmiValue: "HDMI-2" },
+    });
+    expect(config).toBeUndefined();
+    expect(issues).toMatchObject([{ path: "monitors.hdmiValue" }]);
+  });
+});
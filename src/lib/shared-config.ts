@@ -0,0 +1,236 @@
+/**
+ * Import and export of the shareable configuration (see `./config-schema`).
+ *
+ * Export gathers the settings the document covers, the learned input
+ * mappings and the desk profiles. Import stores the mappings and profiles
+ * next to the existing ones, replacing those of the same monitor or name.
+ *
+ * Extensions can't change their own preferences, so imported settings are
+ * kept in LocalStorage and stand in for the preferences still at their
+ * default: a preference set by hand keeps winning. Settings equal to the
+ * defaults are left out of exports for the same reason.
+ *
+ * Documents without "version" are flat preferences and are migrated first
+ * (see `./config-migration`).
+ */
+
+import { getPreferenceValues, LocalStorage } from "@raycast/api";
+import { errorMessageOf } from "./backends/types";
+import { DOCUMENT_PATH } from "./config-fields";
+import {
+  compact,
+  configPreferences,
+  migrateFlatPreferences,
+  settingsSections,
+  SharedPreference,
+} from "./config-migration";
+import {
+  CONFIG_VERSION,
+  ConfigIssue,
+  ConfigValidation,
+  SharedConfig,
+  validateConfig,
+} from "./config-schema";
+import { DEFAULT_PREFERENCES, Preferences } from "./extension";
+import { loadMappings, mergeMappings } from "./mappings";
+import { formatProfileStep, parseProfileStep } from "./profile-steps";
+import { DeskProfile, loadProfiles, saveProfile } from "./profiles";
+
+const IMPORTED_SETTINGS_KEY = "imported-settings";
+
+export interface SharedConfigReading extends ConfigValidation {
+  /** Settings of a flat document that the migration left out */
+  dropped: string[];
+}
+
+export interface ImportSummary {
+  /** Preferences the imported settings now stand in for */
+  settings: SharedPreference[];
+  mappings: { added: number; replaced: number };
+  profiles: { added: number; replaced: number };
+}
+
+/**
+ * Check a parsed document, migrating it first when it is flat preferences.
+ */
+export function readSharedConfig(document: unknown): SharedConfigReading {
+  if (
+    typeof document === "object" &&
+    document !== null &&
+    !Array.isArray(document) &&
+    !Object.hasOwn(document, "version")
+  ) {
+    const migrated = migrateFlatPreferences(
+      document as Record<string, unknown>,
+    );
+    // Sections left empty by the migration aren't part of the document
+    const sections = JSON.parse(JSON.stringify(migrated.document)) as unknown;
+    return { ...validateConfig(sections), dropped: migrated.dropped };
+  }
+  return { ...validateConfig(document), dropped: [] };
+}
+
+/**
+ * Parse and check the JSON text of a document.
+ */
+export function parseSharedConfig(text: string): SharedConfigReading {
+  let document: unknown;
+  try {
+    document = JSON.parse(text) as unknown;
+  } catch (error) {
+    return {
+      issues: [
+        { path: DOCUMENT_PATH, message: `not JSON: ${errorMessageOf(error)}` },
+      ],
+      dropped: [],
+    };
+  }
+  return readSharedConfig(document);
+}
+
+/**
+ * The document of the current setup, as JSON text, with the issues that
+ * would keep it from being imported (such as an invalid preference).
+ * `profiles` defaults to the saved ones.
+ */
+export async function exportSharedConfig(
+  prefs: Preferences,
+  profiles?: DeskProfile[],
+): Promise<{ text: string; issues: ConfigIssue[] }> {
+  const mappings = await loadMappings();
+  profiles ??= await loadProfiles();
+  const document = {
+    version: CONFIG_VERSION,
+    ...settingsSections(prefs),
+    inputMappings:
+      mappings.length === 0
+        ? undefined
+        : mappings.map((mapping) =>
+            compact({
+              backend: mapping.backendId,
+              monitorId: mapping.monitorId,
+              serial: mapping.serial,
+              monitorName: mapping.monitorName,
+              modelId: mapping.modelId,
+              inputs: mapping.inputs.map(({ value, name }) => ({
+                value,
+                name,
+              })),
+            }),
+          ),
+    profiles:
+      profiles.length === 0
+        ? undefined
+        : profiles.map((profile) => ({
+            name: profile.name,
+            steps: profile.steps.map((step) => formatProfileStep(step)),
+          })),
+  };
+  const text = JSON.stringify(document, null, 2);
+  return { text, issues: validateConfig(JSON.parse(text)).issues };
+}
+
+/**
+ * Settings imported so far, by the preference they stand in for.
+ */
+export async function loadImportedSettings(): Promise<Partial<Preferences>> {
+  const stored = await LocalStorage.getItem<string>(IMPORTED_SETTINGS_KEY);
+  if (!stored) {
+    return {};
+  }
+  try {
+    return JSON.parse(stored) as Partial<Preferences>;
+  } catch {
+    return {};
+  }
+}
+
+export async function clearImportedSettings(): Promise<void> {
+  await LocalStorage.removeItem(IMPORTED_SETTINGS_KEY);
+}
+
+/**
+ * Preferences with imported settings standing in for those at their
+ * default.
+ */
+export function withImportedSettings(
+  prefs: Preferences,
+  imported: Partial<Preferences>,
+): Preferences {
+  const merged: Record<string, unknown> = { ...prefs };
+  for (const [key, value] of Object.entries(imported)) {
+    const current = merged[key];
+    if (
+      current === undefined ||
+      current === "" ||
+      current === DEFAULT_PREFERENCES[key as keyof Preferences]
+    ) {
+      merged[key] = value;
+    }
+  }
+  return merged as unknown as Preferences;
+}
+
+/**
+ * The preferences in effect: Raycast's, completed by imported settings.
+ */
+export async function loadEffectivePreferences(): Promise<Preferences> {
+  return withImportedSettings(
+    getPreferenceValues<Preferences>(),
+    await loadImportedSettings(),
+  );
+}
+
+/**
+ * Store a checked document: its settings, mappings and profiles.
+ */
+export async function importSharedConfig(
+  config: SharedConfig,
+): Promise<ImportSummary> {
+  const settings = configPreferences(config);
+  if (Object.keys(settings).length > 0) {
+    await LocalStorage.setItem(
+      IMPORTED_SETTINGS_KEY,
+      JSON.stringify({ ...(await loadImportedSettings()), ...settings }),
+    );
+  }
+
+  const mappings = config.inputMappings ?? [];
+  const replacedMappings = await mergeMappings(
+    mappings.map((mapping) => ({
+      backendId: mapping.backend,
+      monitorId: mapping.monitorId,
+      serial: mapping.serial,
+      monitorName: mapping.monitorName ?? mapping.monitorId,
+      inputs: mapping.inputs,
+      modelId: mapping.modelId,
+      updatedAt: new Date().toISOString(),
+    })),
+  );
+
+  const existing = await loadProfiles();
+  let replacedProfiles = 0;
+  for (const profile of config.profiles ?? []) {
+    const match = existing.find(
+      (entry) => entry.name.toLowerCase() === profile.name.toLowerCase(),
+    );
+    await saveProfile({
+      id: match?.id,
+      name: profile.name,
+      steps: profile.steps.map((line) => parseProfileStep(line)),
+    });
+    replacedProfiles += match ? 1 : 0;
+  }
+
+  return {
+    settings: Object.keys(settings) as SharedPreference[],
+    mappings: {
+      added: mappings.length - replacedMappings,
+      replaced: replacedMappings,
+    },
+    profiles: {
+      added: (config.profiles?.length ?? 0) - replacedProfiles,
+      replaced: replacedProfiles,
+    },
+  };
+}
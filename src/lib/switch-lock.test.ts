@@ -0,0 +1,78 @@
+import { mkdtemp, readdir, rm, utimes, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout } from "node:timers/promises";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_LOCK_POLICY,
+  LockPolicy,
+  LockRefusal,
+  withMonitorLock,
+} from "./switch-lock";
+
+describe("withMonitorLock", () => {
+  let policy: LockPolicy;
+
+  beforeEach(async () => {
+    policy = {
+      ...DEFAULT_LOCK_POLICY,
+      pollIntervalMs: 5,
+      waitTimeoutMs: 2000,
+      directory: await mkdtemp(join(tmpdir(), "monitor-switch-locks-")),
+    };
+  });
+
+  afterEach(async () => {
+    await rm(policy.directory, { recursive: true, force: true });
+  });
+
+  const run = (
+    lockPolicy: LockPolicy,
+    operation: () => Promise<string> = () => Promise.resolve("ran"),
+  ) =>
+    withMonitorLock(
+      "sim:1",
+      lockPolicy,
+      operation,
+      (refusal: LockRefusal) => refusal.reason,
+    );
+
+  it("leaves a lock that is still being written alone", async () => {
+    const lock = join(policy.directory, "sim_1.lock");
+    await writeFile(lock, "");
+    expect(await run({ ...policy, concurrency: "reject" })).toBe("busy");
+    expect(await readdir(policy.directory)).toEqual(["sim_1.lock"]);
+  });
+
+  it("recovers a lock left unwritten past the grace period", async () => {
+    const lock = join(policy.directory, "sim_1.lock");
+    await writeFile(lock, '{"token":');
+    const written = new Date(Date.now() - 60_000);
+    await utimes(lock, written, written);
+    expect(await run({ ...policy, concurrency: "reject" })).toBe("ran");
+    expect(await readdir(policy.directory)).toEqual([]);
+  });
+
+  it("runs only the newest of the requests waiting for the lock", async () => {
+    let release = () => {};
+    const holding = run(
+      policy,
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve("first");
+        }),
+    );
+    await setTimeout(20);
+    const older = run(policy, () => Promise.resolve("older"));
+    await setTimeout(20);
+    const newest = run(policy, () => Promise.resolve("newest"));
+    await setTimeout(20);
+    release();
+    expect(await Promise.all([holding, older, newest])).toEqual([
+      "first",
+      "superseded",
+      "newest",
+    ]);
+    expect(await readdir(policy.directory)).toEqual([]);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Cross-process switch lock, one per monitor.
+ *
+ * Two switches talking to the same monitor at once (a double-pressed
+ * hotkey, the CLI and the menu bar...) can lock up its DDC/CI until it is
+ * power-cycled, so writes to a monitor are serialized through a lock file
+ * in the temp directory, shared by every process of the extension and CLI.
+ *
+ * What a request does while another switch holds the lock depends on the
+ * concurrency mode:
+ * - latest: wait for it; of the requests waiting meanwhile only the newest
+ *   runs, the others are dropped as superseded (a debounce)
+ * - reject: give up at once with "switch already in progress"
+ *
+ * A lock whose process is gone, or that is older than any switch can take,
+ * is stale, and so is one left empty or half-written for a few seconds. It
+ * is moved aside atomically and checked to be the lock that was judged
+ * stale before it is deleted, so two processes recovering it at once can't
+ * delete a fresh lock. The newest request's token is cleared the same way.
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  link,
+  mkdir,
+  open,
+  readFile,
+  rename,
+  stat,
+  unlink,
+} from "node:fs/promises";
+import { hostname, tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout } from "node:timers/promises";
+
+export type SwitchConcurrency = "latest" | "reject";
+
+export interface LockPolicy {
+  concurrency: SwitchConcurrency;
+  /** Give up waiting for the lock after this long */
+  waitTimeoutMs: number;
+  /** Locks older than this are stale even if their process still runs */
+  staleAfterMs: number;
+  /** How often a waiting request checks the lock */
+  pollIntervalMs: number;
+  directory: string;
+}
+
+export const DEFAULT_LOCK_POLICY: LockPolicy = {
+  concurrency: "latest",
+  waitTimeoutMs: 30000,
+  staleAfterMs: 2 * 60 * 1000,
+  pollIntervalMs: 100,
+  directory: join(tmpdir(), "monitor-switch-locks"),
+};
+
+/** How long a lock file may stay empty or unparsable while being written */
+const UNWRITTEN_LOCK_GRACE_MS = 5000;
+
+/** Contents of a lock file */
+export interface LockOwner {
+  token: string;
+  /** 0 while the lock file can't be parsed */
+  pid: number;
+  hostname: string;
+  /** Epoch ms */
+  acquiredAt: number;
+}
+
+/** Why a request didn't get to run */
+export interface LockRefusal {
+  reason: "busy" | "superseded";
+  message: string;
+}
+
+/** Lock file name for a key such as "ddcutil:bus=5" */
+function lockPaths(key: string, directory: string) {
+  const name = key.replaceAll(/[^\w.-]/gu, "_");
+  return {
+    lock: join(directory, `${name}.lock`),
+    // Token of the newest waiting request (concurrency "latest")
+    next: join(directory, `${name}.next`),
+  };
+}
+
+async function readText(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch {
+    return undefined;
+  }
+}
+
+async function readOwner(path: string): Promise<LockOwner | undefined> {
+  const text = await readText(path);
+  if (text === undefined) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(text) as LockOwner;
+  } catch {
+    // Just created and not written yet, or half-written by a process that
+    // crashed: only its age tells them apart
+    const { mtimeMs } = await stat(path).catch(() => ({ mtimeMs: Date.now() }));
+    return { token: text, pid: 0, hostname: hostname(), acquiredAt: mtimeMs };
+  }
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/**
+ * Whether a lock was left behind by a crashed or hung process.
+ */
+export function isStaleLock(owner: LockOwner, policy: LockPolicy): boolean {
+  if (owner.pid === 0) {
+    return Date.now() - owner.acquiredAt > UNWRITTEN_LOCK_GRACE_MS;
+  }
+  if (Date.now() - owner.acquiredAt > policy.staleAfterMs) {
+    return true;
+  }
+  // Only processes of this machine can be checked (the temp dir may be shared)
+  return owner.hostname === hostname() && !isProcessAlive(owner.pid);
+}
+
+/**
+ * Delete a file, unless it no longer holds `token`: a file replaced since
+ * the caller read it is put back.
+ */
+async function removeIfHolds(
+  path: string,
+  token: string,
+  tokenOf: (path: string) => Promise<string | undefined>,
+): Promise<void> {
+  const aside = `${path}.${randomUUID()}.aside`;
+  try {
+    await rename(path, aside);
+  } catch {
+    // Someone else removed it first
+    return;
+  }
+  if ((await tokenOf(aside)) !== token) {
+    // A newer file was moved aside: put it back, unless an even newer exists
+    await link(aside, path).catch(() => null);
+  }
+  await unlink(aside).catch(() => null);
+}
+
+/**
+ * Delete a stale lock, unless it was replaced since it was judged stale.
+ */
+function recoverStaleLock(path: string, stale: LockOwner): Promise<void> {
+  return removeIfHolds(
+    path,
+    stale.token,
+    async (aside) => (await readOwner(aside))?.token,
+  );
+}
+
+async function tryCreateLock(path: string, owner: LockOwner): Promise<boolean> {
+  try {
+    const handle = await open(path, "wx");
+    try {
+      await handle.writeFile(JSON.stringify(owner), "utf-8");
+    } finally {
+      await handle.close();
+    }
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      return false;
+    }
+    throw error;
+  }
+}
+
+async function releaseLock(path: string, token: string): Promise<void> {
+  if ((await readOwner(path))?.token === token) {
+    await unlink(path).catch(() => null);
+  }
+}
+
+/**
+ * Run `operation` holding the lock of `key`, or call `onRefused` when the
+ * concurrency mode says this request doesn't run.
+ */
+export async function withMonitorLock<T>(
+  key: string,
+  policy: LockPolicy,
+  operation: () => Promise<T>,
+  onRefused: (refusal: LockRefusal) => T,
+): Promise<T> {
+  await mkdir(policy.directory, { recursive: true });
+  const paths = lockPaths(key, policy.directory);
+  const owner: LockOwner = {
+    token: randomUUID(),
+    pid: process.pid,
+    hostname: hostname(),
+    acquiredAt: 0,
+  };
+  const coalesce = policy.concurrency === "latest";
+  // The token is briefly missing while a holder clears its own
+  const isSuperseded = async () => {
+    const next = coalesce ? await readText(paths.next) : undefined;
+    return next !== undefined && next !== owner.token;
+  };
+  const superseded = {
+    reason: "superseded",
+    message: "Skipped: a newer switch request replaced this one",
+  } as const;
+
+  if (coalesce) {
+    await writeNextToken(paths.next, owner.token);
+  }
+  const deadline = Date.now() + policy.waitTimeoutMs;
+  for (;;) {
+    owner.acquiredAt = Date.now();
+    if (await tryCreateLock(paths.lock, owner)) {
+      break;
+    }
+    const holder = await readOwner(paths.lock);
+    if (holder && isStaleLock(holder, policy)) {
+      await recoverStaleLock(paths.lock, holder);
+      continue;
+    }
+    if (!coalesce) {
+      return onRefused({
+        reason: "busy",
+        message: "Switch already in progress on this monitor",
+      });
+    }
+    if (await isSuperseded()) {
+      return onRefused(superseded);
+    }
+    if (Date.now() > deadline) {
+      return onRefused({
+        reason: "busy",
+        message: `Gave up after waiting ${Math.round(policy.waitTimeoutMs / 1000)} s for the switch in progress`,
+      });
+    }
+    await setTimeout(policy.pollIntervalMs);
+  }
+
+  try {
+    // A newer request may have queued up while the lock was being taken
+    if (await isSuperseded()) {
+      return onRefused(superseded);
+    }
+    if (coalesce) {
+      // Unless a newer request has queued up since
+      await removeIfHolds(paths.next, owner.token, readText);
+    }
+    return await operation();
+  } finally {
+    await releaseLock(paths.lock, owner.token);
+  }
+}
+
+async function writeNextToken(path: string, token: string): Promise<void> {
+  // Written aside and renamed in, so readers never see a partial token
+  const temporary = `${path}.${token}`;
+  const handle = await open(temporary, "w");
+  try {
+    await handle.writeFile(token, "utf-8");
+  } finally {
+    await handle.close();
+  }
+  await rename(temporary, path);
+}
@@ -0,0 +1,145 @@
+/**
+ * Input switch verification.
+ *
+ * `writeInputSource` writes VCP 0x60 with retries, then reads the input
+ * back until the monitor reports the target (see `./verify`). When it
+ * doesn't, the power mode tells a sleeping monitor from one that stopped
+ * answering or ignored the write, and the result names that outcome.
+ */
+
+import { DdcBackend } from "./backends";
+import { vcpHex } from "./backends/types";
+import { DdcFailure, ddcFailure } from "./errors";
+import { formatInput } from "./mccs";
+import { ToastResult } from "./toast";
+import { VCP_INPUT_SOURCE, VCP_POWER_MODE } from "./vcp";
+import { pollUntil, SwitchPolicy, withRetry } from "./verify";
+
+/**
+ * What happened to one monitor after a switch:
+ * - switched: the monitor reports the target input
+ * - unverified: the write succeeded and verification is disabled
+ * - asleep: the monitor reports a standby/off power mode
+ * - no-response: the write succeeded, then reads stopped answering
+ * - unchanged: the monitor still reports another input
+ * - failed: the write itself failed
+ * - busy: another switch held the monitor's lock (see `./switch-lock`)
+ * - superseded: a newer switch request for the monitor replaced this one
+ */
+export type SwitchOutcome =
+  | "switched"
+  | "unverified"
+  | "asleep"
+  | "no-response"
+  | "unchanged"
+  | "failed"
+  | "busy"
+  | "superseded";
+
+export interface SwitchResult {
+  monitorId: string;
+  success: boolean;
+  outcome: SwitchOutcome;
+  message: string;
+  /** Raw command output for debugging */
+  rawOutput?: string;
+  failure?: DdcFailure;
+}
+
+/** Toast status reported for each switch outcome */
+export const OUTCOME_STATUS: Record<SwitchOutcome, ToastResult["status"]> = {
+  switched: "success",
+  unverified: "success",
+  asleep: "soft-fail",
+  "no-response": "soft-fail",
+  unchanged: "failure",
+  failed: "failure",
+  busy: "failure",
+  superseded: "soft-fail",
+};
+
+/**
+ * Write VCP 0x60 to one monitor and verify it took effect.
+ */
+export async function writeInputSource(
+  backend: DdcBackend,
+  inputValue: number,
+  monitorId: string,
+  policy: SwitchPolicy,
+): Promise<SwitchResult> {
+  let rawOutput: string;
+  let attempts: number;
+  try {
+    ({ value: rawOutput, attempts } = await withRetry(
+      () => backend.setVcp(monitorId, VCP_INPUT_SOURCE, inputValue),
+      policy,
+    ));
+  } catch (error) {
+    return {
+      monitorId,
+      success: false,
+      outcome: "failed",
+      message: backend.describeError(error),
+      failure: backend.classifyError(error),
+    };
+  }
+
+  const result = (
+    outcome: SwitchOutcome,
+    message: string,
+    failure?: DdcFailure,
+  ): SwitchResult => ({
+    monitorId,
+    success: OUTCOME_STATUS[outcome] === "success",
+    outcome,
+    message: attempts > 1 ? `${message} (after ${attempts} attempts)` : message,
+    rawOutput,
+    failure,
+  });
+
+  if (policy.verifyTimeoutMs <= 0) {
+    return result(
+      "unverified",
+      `Switched to ${formatInput(inputValue)} (not verified)`,
+    );
+  }
+
+  const poll = await pollUntil(
+    () => backend.getVcp(monitorId, VCP_INPUT_SOURCE),
+    (value) => value === inputValue,
+    policy,
+  );
+  if (poll.satisfied) {
+    return result("switched", `Switched to ${formatInput(inputValue)}`);
+  }
+
+  // Find out why the input didn't change: a sleeping monitor still answers
+  // power mode queries, a monitor that moved away usually stops answering
+  let powerMode: number | undefined;
+  try {
+    powerMode = await backend.getVcp(monitorId, VCP_POWER_MODE);
+  } catch {
+    powerMode = undefined;
+  }
+  if (powerMode !== undefined && powerMode !== 0x01) {
+    return result(
+      "asleep",
+      "Monitor went to sleep",
+      ddcFailure(
+        "asleep",
+        `Power mode 0x${vcpHex(powerMode)}`,
+        backend.errorCatalog,
+      ),
+    );
+  }
+  if (poll.lastValue === undefined) {
+    return result(
+      "no-response",
+      `Switch to ${formatInput(inputValue)} sent, but the monitor stopped responding`,
+    );
+  }
+  return result(
+    "unchanged",
+    `Command accepted but input unchanged (still ${formatInput(poll.lastValue)})`,
+  );
+}
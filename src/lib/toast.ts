@@ -1,7 +1,11 @@
+import { DdcFailure } from "./errors";
+
 export interface ToastResult {
   status: "success" | "failure" | "soft-fail";
   title: string;
   message: string;
+  /** Classified DDC error behind a non-success status, when there is one */
+  failure?: DdcFailure;
 }
 
 export const GenericSuccess: ToastResult = {
@@ -9,3 +13,15 @@ export const GenericSuccess: ToastResult = {
   title: "",
   message: "",
 };
+
+/**
+ * The result to show for several: the first failure, else the first soft
+ * failure, else the first result.
+ */
+export function worstResult(results: ToastResult[]): ToastResult | undefined {
+  return (
+    results.find((result) => result.status === "failure") ??
+    results.find((result) => result.status === "soft-fail") ??
+    results[0]
+  );
+}
@@ -0,0 +1,60 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { configureShim } from "../cli/raycast-shim";
+import { createSimulatedBackend } from "./backends/simulated";
+import { DEFAULT_PREFERENCES } from "./extension";
+import { describePlan, toggleTargets } from "./toggle";
+
+describe("toggleTargets", () => {
+  let directory: string;
+  const backend = createSimulatedBackend();
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "monitor-switch-"));
+    configureShim({
+      preferences: {},
+      storagePath: join(directory, "storage.json"),
+      assetsPath: join(__dirname, "..", "..", "assets"),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("moves each monitor to the next input of its cycle", async () => {
+    const { setup, plans, results } = await toggleTargets(
+      backend,
+      DEFAULT_PREFERENCES,
+      "linux",
+      ["1", "2"],
+    );
+    expect(plans).toEqual([
+      { targetValue: 0x11, fromValue: 0x0f, monitorIds: ["1"] },
+      { targetValue: 0x0f, fromValue: 0x11, monitorIds: ["2"] },
+    ]);
+    expect(plans.map((plan) => describePlan(plan, setup.mappings))).toEqual([
+      "From DP-1 (0x0F) to HDMI-1 (0x11)",
+      "From HDMI-1 (0x11) to DP-1 (0x0F)",
+    ]);
+    expect(results.map((result) => result.status)).toEqual([
+      "success",
+      "success",
+    ]);
+    expect(await backend.getVcp("1", 0x60)).toBe(0x11);
+    expect(await backend.getVcp("2", 0x60)).toBe(0x0f);
+  });
+
+  it("throws on an invalid input configuration", async () => {
+    await expect(
+      toggleTargets(
+        backend,
+        { ...DEFAULT_PREFERENCES, inputCycle: "DP-1, DP-1" },
+        "linux",
+        ["1"],
+      ),
+    ).rejects.toThrow("at least two different inputs");
+  });
+});
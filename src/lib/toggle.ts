@@ -0,0 +1,238 @@
+/**
+ * Toggle planning: decide which input each monitor should switch to, and
+ * switch them (`toggleTargets`, shared by the commands, the CLI and switch
+ * actions).
+ *
+ * The current input (VCP 0x60) is read first and the next configured input
+ * is picked. With two configured inputs this flips between them; with more
+ * it cycles through them in order. If the read fails, the old platform-based
+ * behavior is used: macOS sends DisplayPort, other hosts send HDMI.
+ */
+
+import { DdcBackend } from "./backends";
+import { readInputSource, switchTargets } from "./ddc";
+import { Preferences } from "./extension";
+import { findMapping, InputMapping, inputLabel } from "./mappings";
+import { parseInputValue } from "./mccs";
+import { loadMonitorMappings } from "./model-mappings";
+import { SupportedPlatform } from "./platform";
+import { ToastResult } from "./toast";
+import { SwitchPolicy, switchPolicyFromPreferences } from "./verify";
+
+export interface TogglePlan {
+  /** Input value the monitors will be switched to */
+  targetValue: number;
+  /** Input value read before switching (undefined if the read failed) */
+  fromValue?: number;
+  monitorIds: string[];
+}
+
+/**
+ * Ordered list of inputs to toggle between.
+ *
+ * The "Input Cycle" preference wins when set; otherwise the DisplayPort and
+ * HDMI values form a two-entry cycle. Entries may be decimal, hex or input
+ * names (see `parseInputValue`). Throws on unrecognisable entries.
+ */
+export function configuredInputCycle(prefs: Preferences): number[] {
+  const entries = prefs.inputCycle?.trim()
+    ? prefs.inputCycle.split(",").map((entry) => entry.trim())
+    : [prefs.displayPortValue, prefs.hdmiValue];
+
+  const cycle = entries.map((entry) => {
+    const value = parseInputValue(entry);
+    if (value === undefined) {
+      throw new Error(`"${entry}" is not a valid input code`);
+    }
+    return value;
+  });
+  if (new Set(cycle).size < 2) {
+    throw new Error("Configure at least two different inputs to toggle");
+  }
+  return cycle;
+}
+
+/**
+ * Inputs to toggle between on one monitor.
+ *
+ * An explicit "Input Cycle" preference always wins. Otherwise a mapping
+ * learned with the discovery wizard is used once it has two or more inputs,
+ * and the DisplayPort/HDMI pair is the last resort.
+ */
+export function inputCycleFor(
+  prefs: Preferences,
+  mapping?: InputMapping,
+): number[] {
+  const learned = mapping?.inputs.map((input) => input.value) ?? [];
+  if (!prefs.inputCycle?.trim() && new Set(learned).size >= 2) {
+    return learned;
+  }
+  return configuredInputCycle(prefs);
+}
+
+/** A toggle planned and switched (see `toggleTargets`) */
+export interface ToggleRun {
+  setup: ToggleSetup;
+  plans: TogglePlan[];
+  /** One result per plan */
+  results: ToastResult[];
+}
+
+/** Learned mapping and input cycle of every monitor to toggle */
+export interface ToggleSetup {
+  mappings: Map<string, InputMapping | undefined>;
+  cycles: Map<string, number[]>;
+}
+
+/**
+ * Look up each monitor's learned inputs (or those of its model, see
+ * `./model-mappings`) and work out its input cycle.
+ * Throws on an invalid input configuration (see `configuredInputCycle`).
+ */
+export async function loadToggleSetup(
+  backend: DdcBackend,
+  prefs: Preferences,
+  monitorIds: string[],
+): Promise<ToggleSetup> {
+  const { mappings: learned, monitors } = await loadMonitorMappings(backend);
+  const mappings = new Map<string, InputMapping | undefined>(
+    monitorIds.map((monitorId) => [
+      monitorId,
+      findMapping(learned, backend.id, monitorId, monitors),
+    ]),
+  );
+  const cycles = new Map<string, number[]>();
+  for (const [monitorId, mapping] of mappings) {
+    cycles.set(monitorId, inputCycleFor(prefs, mapping));
+  }
+  return { mappings, cycles };
+}
+
+/**
+ * One-line summary of a plan, e.g. "From MacBook to Gaming PC".
+ */
+export function describePlan(
+  plan: TogglePlan,
+  mappings: Map<string, InputMapping | undefined>,
+): string {
+  const mapping = mappings.get(plan.monitorIds[0]);
+  const monitors =
+    plan.monitorIds.length > 1 ? ` (${plan.monitorIds.length} monitors)` : "";
+  return plan.fromValue === undefined
+    ? `To ${inputLabel(plan.targetValue, mapping)}, current input unreadable${monitors}`
+    : `From ${inputLabel(plan.fromValue, mapping)} to ${inputLabel(plan.targetValue, mapping)}${monitors}`;
+}
+
+/**
+ * Input that follows `current` in the cycle, wrapping around.
+ *
+ * An input outside the cycle moves to the first configured one.
+ */
+export function nextInput(cycle: number[], current: number): number {
+  const position = cycle.indexOf(current);
+  return position === -1 ? cycle[0] : cycle[(position + 1) % cycle.length];
+}
+
+/**
+ * Input sent when the current one can't be read.
+ */
+export function fallbackInput(
+  platformOs: SupportedPlatform,
+  prefs: Preferences,
+): number {
+  const fallback =
+    platformOs === "darwin" ? prefs.displayPortValue : prefs.hdmiValue;
+  return parseInputValue(fallback) ?? NaN;
+}
+
+/**
+ * Read each monitor's input and group the monitors by the switch they need.
+ */
+export async function planToggle(
+  backend: DdcBackend,
+  monitorIds: string[],
+  cycleFor: (monitorId: string) => number[],
+  fallback: number,
+): Promise<TogglePlan[]> {
+  const readings = await Promise.all(
+    monitorIds.map((monitorId) => readInputSource(backend, monitorId)),
+  );
+  const plans = new Map<string, TogglePlan>();
+  for (const { monitorId, currentValue } of readings) {
+    const targetValue =
+      currentValue === undefined
+        ? fallback
+        : nextInput(cycleFor(monitorId), currentValue);
+
+    const key = `${currentValue}->${targetValue}`;
+    const plan = plans.get(key);
+    if (plan) {
+      plan.monitorIds.push(monitorId);
+    } else {
+      plans.set(key, {
+        targetValue,
+        fromValue: currentValue,
+        monitorIds: [monitorId],
+      });
+    }
+  }
+  return [...plans.values()];
+}
+
+/**
+ * Plan the toggle of the monitors of a setup: their own cycle, or the
+ * platform's fallback input when their current one can't be read.
+ */
+export function planToggleTargets(
+  backend: DdcBackend,
+  setup: ToggleSetup,
+  prefs: Preferences,
+  platformOs: SupportedPlatform,
+): Promise<TogglePlan[]> {
+  return planToggle(
+    backend,
+    [...setup.cycles.keys()],
+    (monitorId) => setup.cycles.get(monitorId) ?? [],
+    fallbackInput(platformOs, prefs),
+  );
+}
+
+/**
+ * Switch every plan to its target input, in one `switchTargets` call so
+ * the hooks run once around all of them.
+ */
+export function switchToggle(
+  backend: DdcBackend,
+  plans: TogglePlan[],
+  policy: SwitchPolicy,
+): Promise<ToastResult[]> {
+  return switchTargets(
+    backend,
+    plans.map((plan) => ({
+      inputValue: plan.targetValue,
+      monitorIds: plan.monitorIds,
+      fromValue: plan.fromValue,
+    })),
+    policy,
+  );
+}
+
+/**
+ * Toggle the monitors: load their setup, plan and switch.
+ * Throws on an invalid input configuration (see `configuredInputCycle`).
+ */
+export async function toggleTargets(
+  backend: DdcBackend,
+  prefs: Preferences,
+  platformOs: SupportedPlatform,
+  monitorIds: string[],
+): Promise<ToggleRun> {
+  const setup = await loadToggleSetup(backend, prefs, monitorIds);
+  const plans = await planToggleTargets(backend, setup, prefs, platformOs);
+  const results = await switchToggle(
+    backend,
+    plans,
+    switchPolicyFromPreferences(prefs),
+  );
+  return { setup, plans, results };
+}
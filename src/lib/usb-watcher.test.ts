@@ -0,0 +1,210 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { setTimeout } from "node:timers/promises";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { configureShim } from "../cli/raycast-shim";
+import { ddcFailure } from "./errors";
+import { DEFAULT_PREFERENCES } from "./extension";
+import { ToastResult } from "./toast";
+import { listUsbDevices } from "./usb";
+import {
+  loadUsbWatcherState,
+  MAX_ACTION_ATTEMPTS,
+  pollUsbWatcher,
+  saveUsbWatcherProgress,
+  saveUsbWatcherState,
+  stateAfterAction,
+  UsbWatcherConfig,
+  usbWatcherFromPreferences,
+  UsbWatcherState,
+  WatcherStep,
+} from "./usb-watcher";
+
+/** The watched hub of the tests */
+const HUB = "1-1";
+
+describe("USB watcher on a fake sysfs tree", () => {
+  let root: string;
+  let config: UsbWatcherConfig;
+
+  const plug = async (entry: string, attributes: Record<string, string>) => {
+    await mkdir(join(root, entry), { recursive: true });
+    for (const [name, value] of Object.entries(attributes)) {
+      await writeFile(join(root, entry, name), `${value}\n`);
+    }
+  };
+  const unplug = (entry: string) =>
+    rm(join(root, entry), { recursive: true, force: true });
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), "monitor-switch-sysfs-"));
+    await plug("usb1", { idVendor: "1d6b", idProduct: "0002" });
+    await plug(HUB, {
+      idVendor: "046d",
+      idProduct: "c52b",
+      product: "USB Receiver",
+    });
+    // Interfaces have no IDs of their own
+    await plug(`${HUB}:1.0`, { bInterfaceClass: "03" });
+    config = usbWatcherFromPreferences({
+      ...DEFAULT_PREFERENCES,
+      usbWatchDevices: "046d:c52b",
+      usbConnectAction: "DP-1",
+      usbDisconnectAction: "profile: Gaming PC",
+      usbDebounce: "0",
+      usbSysfsRoot: root,
+    });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("lists the devices and skips interfaces", async () => {
+    expect(await listUsbDevices("linux", root)).toEqual(
+      expect.arrayContaining([
+        {
+          vendorId: 0x1d6b,
+          productId: 0x0002,
+          name: undefined,
+          serial: undefined,
+        },
+        {
+          vendorId: 0x046d,
+          productId: 0xc52b,
+          name: "USB Receiver",
+          serial: undefined,
+        },
+      ]),
+    );
+    expect(await listUsbDevices("linux", root)).toHaveLength(2);
+  });
+
+  it("takes the first poll as the baseline", async () => {
+    expect(await pollUsbWatcher(config, "linux", { enabled: true })).toEqual({
+      state: { enabled: true, connected: true },
+    });
+  });
+
+  it("reports a disconnect and a reconnect", async () => {
+    const baseline = await pollUsbWatcher(config, "linux", { enabled: true });
+    await unplug(HUB);
+    const disconnected = await pollUsbWatcher(config, "linux", baseline.state);
+    expect(disconnected).toEqual({
+      state: { enabled: true, connected: false },
+      event: "disconnect",
+    });
+    await plug(HUB, { idVendor: "046d", idProduct: "c52b" });
+    expect(
+      (await pollUsbWatcher(config, "linux", disconnected.state)).event,
+    ).toBe("connect");
+  });
+
+  it("waits out the debounce, and drops a change that flips back", async () => {
+    const debounced = { ...config, debounceMs: 50 };
+    const baseline = await pollUsbWatcher(debounced, "linux", {
+      enabled: true,
+    });
+    await unplug(HUB);
+    const pending = await pollUsbWatcher(debounced, "linux", baseline.state);
+    expect(pending.event).toBeUndefined();
+    expect(pending.state.pending).toBe(false);
+    expect(pending.waitMs).toBeGreaterThan(0);
+
+    await setTimeout(pending.waitMs ?? 0);
+    expect(
+      (await pollUsbWatcher(debounced, "linux", pending.state)).event,
+    ).toBe("disconnect");
+
+    await plug(HUB, { idVendor: "046d", idProduct: "c52b" });
+    expect(await pollUsbWatcher(debounced, "linux", pending.state)).toEqual({
+      state: { enabled: true, connected: true },
+    });
+  });
+
+  it("fails when the sysfs root is missing", async () => {
+    await expect(
+      pollUsbWatcher({ ...config, sysfsRoot: join(root, "missing") }, "linux", {
+        enabled: true,
+      }),
+    ).rejects.toThrow("ENOENT");
+  });
+});
+
+describe("stateAfterAction", () => {
+  const before: UsbWatcherState = { enabled: true, connected: true };
+  const step: WatcherStep = {
+    state: { enabled: true, connected: false },
+    event: "disconnect",
+  };
+  const failed = (kind?: "bus-busy" | "no-display"): ToastResult => ({
+    status: "failure",
+    title: "Failed to switch",
+    message: "",
+    failure: kind && ddcFailure(kind, "test"),
+  });
+
+  it("settles the event after a success", () => {
+    expect(
+      stateAfterAction({ ...before, failedAttempts: 1 }, step, {
+        status: "success",
+        title: "Switched",
+        message: "",
+      }),
+    ).toEqual({ state: step.state, retry: false });
+  });
+
+  it("keeps the event for a passing failure", () => {
+    expect(stateAfterAction(before, step, failed("bus-busy"))).toEqual({
+      state: { ...before, failedAttempts: 1 },
+      retry: true,
+    });
+  });
+
+  it("gives up on a passing failure after the last attempt", () => {
+    let state = before;
+    const retries: boolean[] = [];
+    for (let attempt = 1; attempt <= MAX_ACTION_ATTEMPTS; attempt++) {
+      const next = stateAfterAction(state, step, failed("bus-busy"));
+      retries.push(next.retry);
+      state = next.state;
+    }
+    expect(retries).toEqual([true, true, false]);
+    expect(state).toEqual(step.state);
+  });
+
+  it("settles the event after any other failure", () => {
+    for (const result of [failed("no-display"), failed()]) {
+      expect(stateAfterAction(before, step, result)).toEqual({
+        state: step.state,
+        retry: false,
+      });
+    }
+  });
+});
+
+describe("saveUsbWatcherProgress", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "monitor-switch-"));
+    configureShim({
+      preferences: {},
+      storagePath: join(directory, "storage.json"),
+    });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("leaves a watcher turned off meanwhile off", async () => {
+    await saveUsbWatcherState({ enabled: false });
+    await saveUsbWatcherProgress({ enabled: true, connected: true });
+    expect(await loadUsbWatcherState()).toEqual({
+      enabled: false,
+      connected: true,
+    });
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * USB watcher: switch the monitors when a USB device connects or
+ * disconnects.
+ *
+ * Desks sharing a USB switch move the keyboard/mouse hub between computers,
+ * and the monitors should follow it. The watcher polls the connected devices
+ * (see `./usb`); once the presence of the watched devices has changed for
+ * the debounce time, it runs the action configured for the event, so a USB
+ * switch re-enumerating the hub doesn't fire twice.
+ *
+ * Actions are those of `./actions`. An action that fails for a passing
+ * reason (a busy bus, a monitor that didn't answer) is tried again by the
+ * next few polls; any other failure settles the event once reported.
+ * Whether the watcher is enabled and what it last saw are kept in
+ * LocalStorage.
+ */
+
+import { LocalStorage } from "@raycast/api";
+import { parseSwitchAction, SwitchAction } from "./actions";
+import { DdcErrorKind } from "./errors";
+import { Preferences } from "./extension";
+import { SupportedPlatform } from "./platform";
+import { ToastResult } from "./toast";
+import {
+  DEFAULT_SYSFS_USB_ROOT,
+  listUsbDevices,
+  parseUsbDeviceIds,
+  sameUsbDevice,
+  UsbDeviceId,
+} from "./usb";
+
+const STORAGE_KEY = "usb-watcher";
+
+export const DEFAULT_USB_DEBOUNCE_MS = 2000;
+
+/** Runs of an event's action before a passing failure is given up on */
+export const MAX_ACTION_ATTEMPTS = 3;
+
+/** Failures worth running the action again for */
+const TRANSIENT_KINDS: DdcErrorKind[] = ["bus-busy", "timeout"];
+
+export type UsbEvent = "connect" | "disconnect";
+
+export interface UsbWatcherConfig {
+  /** The watched device counts as connected when any of these is */
+  devices: UsbDeviceId[];
+  onConnect?: SwitchAction;
+  onDisconnect?: SwitchAction;
+  debounceMs: number;
+  /** Linux only */
+  sysfsRoot: string;
+}
+
+export interface UsbWatcherState {
+  enabled: boolean;
+  /** Presence the last event (or the first poll) was based on */
+  connected?: boolean;
+  /** Presence that differs from `connected`, waiting out the debounce */
+  pending?: boolean;
+  /** Epoch ms `pending` was first seen */
+  pendingSince?: number;
+  /** Failed runs of the action of the event not settled yet */
+  failedAttempts?: number;
+}
+
+/** Outcome of one poll */
+export interface WatcherStep {
+  state: UsbWatcherState;
+  /** Set when a change outlasted the debounce */
+  event?: UsbEvent;
+  /** Poll again after this long to settle a pending change */
+  waitMs?: number;
+}
+
+/**
+ * Build the watcher configuration from the USB preferences. Throws on an
+ * invalid device list.
+ */
+export function usbWatcherFromPreferences(
+  prefs: Preferences,
+): UsbWatcherConfig {
+  const debounceSeconds = parseFloat(prefs.usbDebounce ?? "");
+  return {
+    devices: parseUsbDeviceIds(prefs.usbWatchDevices ?? ""),
+    onConnect: parseSwitchAction(prefs.usbConnectAction),
+    onDisconnect: parseSwitchAction(prefs.usbDisconnectAction),
+    debounceMs:
+      isNaN(debounceSeconds) || debounceSeconds < 0
+        ? DEFAULT_USB_DEBOUNCE_MS
+        : Math.round(debounceSeconds * 1000),
+    sysfsRoot: prefs.usbSysfsRoot?.trim() || DEFAULT_SYSFS_USB_ROOT,
+  };
+}
+
+export async function loadUsbWatcherState(): Promise<UsbWatcherState> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return { enabled: false };
+  }
+  try {
+    return JSON.parse(stored) as UsbWatcherState;
+  } catch {
+    return { enabled: false };
+  }
+}
+
+export async function saveUsbWatcherState(
+  state: UsbWatcherState,
+): Promise<void> {
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+}
+
+/**
+ * Store what a poll saw, keeping `enabled` as stored now: the watcher may
+ * have been turned off while the poll ran.
+ */
+export async function saveUsbWatcherProgress(
+  state: UsbWatcherState,
+): Promise<void> {
+  const { enabled } = await loadUsbWatcherState();
+  await saveUsbWatcherState({ ...state, enabled });
+}
+
+/**
+ * Feed one observation into the watcher state.
+ *
+ * The first observation only sets the baseline: starting the watcher while
+ * the device is connected shouldn't switch anything. A change becomes an
+ * event once it has been seen for `debounceMs`; flipping back before that
+ * cancels it.
+ */
+export function advanceWatcher(
+  state: UsbWatcherState,
+  connected: boolean,
+  debounceMs: number,
+  now: number = Date.now(),
+): WatcherStep {
+  const settled = { enabled: state.enabled, connected };
+  if (state.connected === undefined || state.connected === connected) {
+    return { state: settled };
+  }
+  const pendingSince =
+    state.pending === connected ? (state.pendingSince ?? now) : now;
+  const waited = now - pendingSince;
+  if (waited >= debounceMs) {
+    return { state: settled, event: connected ? "connect" : "disconnect" };
+  }
+  return {
+    state: { ...state, pending: connected, pendingSince },
+    waitMs: debounceMs - waited,
+  };
+}
+
+/**
+ * List the USB devices and advance the watcher with what it finds.
+ */
+export async function pollUsbWatcher(
+  config: UsbWatcherConfig,
+  os: SupportedPlatform,
+  state: UsbWatcherState,
+): Promise<WatcherStep> {
+  const devices = await listUsbDevices(os, config.sysfsRoot);
+  const connected = devices.some((device) =>
+    config.devices.some((watched) => sameUsbDevice(watched, device)),
+  );
+  return advanceWatcher(state, connected, config.debounceMs);
+}
+
+export function actionFor(
+  config: UsbWatcherConfig,
+  event: UsbEvent,
+): SwitchAction | undefined {
+  return event === "connect" ? config.onConnect : config.onDisconnect;
+}
+
+/**
+ * State to store once an event's action ran. A success settles the event.
+ * A passing failure keeps the state the event was found from, so the next
+ * poll runs the action again, until `MAX_ACTION_ATTEMPTS`; then, like any
+ * other failure, it settles the event too.
+ */
+export function stateAfterAction(
+  before: UsbWatcherState,
+  step: WatcherStep,
+  result: ToastResult,
+): { state: UsbWatcherState; retry: boolean } {
+  if (result.status !== "failure") {
+    return { state: step.state, retry: false };
+  }
+  const failedAttempts = (before.failedAttempts ?? 0) + 1;
+  const transient =
+    result.failure !== undefined &&
+    TRANSIENT_KINDS.includes(result.failure.kind);
+  return transient && failedAttempts < MAX_ACTION_ATTEMPTS
+    ? { state: { ...before, failedAttempts }, retry: true }
+    : { state: step.state, retry: false };
+}
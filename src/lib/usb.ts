@@ -0,0 +1,177 @@
+/**
+ * USB device enumeration, for the USB watcher (see `./usb-watcher`).
+ *
+ * Devices are identified by vendor and product ID, written the way `lsusb`
+ * prints them ("046d:c52b"). Each OS lists them differently:
+ * - Linux: sysfs, one directory per device with `idVendor`/`idProduct`
+ *   files; the root is configurable so it can point at a fake tree
+ * - macOS: the IOUSB plane of `ioreg`
+ * - Windows: PnP instance IDs (`USB\VID_046D&PID_C52B\...`)
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { runChecked } from "./exec";
+import { SupportedPlatform } from "./platform";
+
+export const DEFAULT_SYSFS_USB_ROOT = "/sys/bus/usb/devices";
+
+export interface UsbDeviceId {
+  vendorId: number;
+  productId: number;
+}
+
+export interface UsbDevice extends UsbDeviceId {
+  name?: string;
+  serial?: string;
+}
+
+function hex4(value: number): string {
+  return value.toString(16).padStart(4, "0");
+}
+
+/** "046d:c52b" */
+export function formatUsbDeviceId(device: UsbDeviceId): string {
+  return `${hex4(device.vendorId)}:${hex4(device.productId)}`;
+}
+
+/**
+ * Parse a comma-separated list of "vendor:product" hex IDs. Throws on an
+ * entry that isn't one.
+ */
+export function parseUsbDeviceIds(text: string): UsbDeviceId[] {
+  return text
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const match = entry.match(
+        /^(?:0x)?([\da-f]{1,4}):(?:0x)?([\da-f]{1,4})$/iu,
+      );
+      if (!match) {
+        throw new Error(
+          `"${entry}" is not a USB vendor:product ID (e.g. 046d:c52b)`,
+        );
+      }
+      return {
+        vendorId: parseInt(match[1], 16),
+        productId: parseInt(match[2], 16),
+      };
+    });
+}
+
+export function sameUsbDevice(a: UsbDeviceId, b: UsbDeviceId): boolean {
+  return a.vendorId === b.vendorId && a.productId === b.productId;
+}
+
+async function readAttribute(
+  directory: string,
+  name: string,
+): Promise<string | undefined> {
+  try {
+    return (await readFile(join(directory, name), "utf-8")).trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Devices under a sysfs USB root. Entries without `idVendor`/`idProduct`
+ * (interfaces such as `1-1:1.0`) are skipped.
+ */
+export async function readSysfsUsbDevices(root: string): Promise<UsbDevice[]> {
+  const entries = await readdir(root);
+  const devices = await Promise.all(
+    entries.map(async (entry): Promise<UsbDevice | undefined> => {
+      const directory = join(root, entry);
+      const [vendor, product, name, serial] = await Promise.all(
+        ["idVendor", "idProduct", "product", "serial"].map((attribute) =>
+          readAttribute(directory, attribute),
+        ),
+      );
+      if (!vendor || !product) {
+        return undefined;
+      }
+      return {
+        vendorId: parseInt(vendor, 16),
+        productId: parseInt(product, 16),
+        name,
+        serial,
+      };
+    }),
+  );
+  return devices.filter((device) => device !== undefined);
+}
+
+/**
+ * Parse `ioreg -p IOUSB -l -w0`: one `+-o <name>@<location>` block per
+ * device, with decimal `"idVendor" = 1133` style properties.
+ */
+export function parseIoregUsbDevices(output: string): UsbDevice[] {
+  const devices: UsbDevice[] = [];
+  for (const block of output.split(/^[\s|]*\+-o /mu).slice(1)) {
+    const property = (key: string) =>
+      block.match(new RegExp(`"${key}" = "?([^"\\n]*)"?`, "u"))?.[1];
+    const vendor = property("idVendor");
+    const product = property("idProduct");
+    if (vendor === undefined || product === undefined) {
+      continue;
+    }
+    devices.push({
+      vendorId: Number(vendor),
+      productId: Number(product),
+      name: property("USB Product Name") ?? block.split("@")[0].trim(),
+      serial: property("USB Serial Number"),
+    });
+  }
+  return devices;
+}
+
+/**
+ * Parse "<instance ID>\t<friendly name>" lines of PnP devices. Composite
+ * devices list one instance per interface; they are reported once.
+ */
+export function parsePnpUsbDevices(output: string): UsbDevice[] {
+  const devices: UsbDevice[] = [];
+  for (const line of output.split(/\r?\n/u)) {
+    const [instanceId, name] = line.split("\t");
+    const match = instanceId.match(/^USB\\VID_([\da-f]{4})&PID_([\da-f]{4})/iu);
+    if (!match) {
+      continue;
+    }
+    const device = {
+      vendorId: parseInt(match[1], 16),
+      productId: parseInt(match[2], 16),
+      name: name?.trim() || undefined,
+    };
+    if (!devices.some((known) => sameUsbDevice(known, device))) {
+      devices.push(device);
+    }
+  }
+  return devices;
+}
+
+/**
+ * USB devices currently connected to this computer.
+ */
+export async function listUsbDevices(
+  os: SupportedPlatform,
+  sysfsRoot: string = DEFAULT_SYSFS_USB_ROOT,
+): Promise<UsbDevice[]> {
+  if (os === "linux") {
+    return readSysfsUsbDevices(sysfsRoot);
+  }
+  if (os === "darwin") {
+    return parseIoregUsbDevices(
+      await runChecked("ioreg", ["-p", "IOUSB", "-l", "-w0"]),
+    );
+  }
+  return parsePnpUsbDevices(
+    await runChecked("powershell.exe", [
+      "-NoProfile",
+      "-NonInteractive",
+      "-Command",
+      "Get-PnpDevice -PresentOnly | Where-Object InstanceId -like 'USB\\VID_*' | ForEach-Object { \"$($_.InstanceId)`t$($_.FriendlyName)\" }",
+    ]),
+  );
+}
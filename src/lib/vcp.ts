@@ -0,0 +1,231 @@
+/**
+ * Generic VCP feature control: brightness, contrast, volume, mute and power.
+ *
+ * Input switching has its own flow in `./ddc`. Every other feature goes
+ * through `adjustVcp`: read the current value and maximum, apply a step or
+ * an absolute value clamped to the monitor's range, write it with retries
+ * and read it back.
+ */
+
+import { DdcBackend } from "./backends";
+import { vcpHex } from "./backends/types";
+import { DdcFailure } from "./errors";
+import { Preferences } from "./extension";
+import { ToastResult } from "./toast";
+import { pollUntil, SwitchPolicy, withRetry } from "./verify";
+
+/** VCP code for Input Source Select (DDC/CI standard) */
+export const VCP_INPUT_SOURCE = 0x60;
+export const VCP_BRIGHTNESS = 0x10;
+export const VCP_CONTRAST = 0x12;
+export const VCP_AUDIO_VOLUME = 0x62;
+export const VCP_AUDIO_MUTE = 0x8d;
+/** MCCS Power Mode (0x01 = on, anything else = standby/off) */
+export const VCP_POWER_MODE = 0xd6;
+
+export interface VcpChoice {
+  value: number;
+  title: string;
+}
+
+export interface VcpFeature {
+  code: number;
+  title: string;
+  /** Non-continuous features take one of these; continuous ones 0..max */
+  choices?: VcpChoice[];
+}
+
+export type VcpFeatureId =
+  "brightness" | "contrast" | "volume" | "mute" | "power";
+
+export const VCP_FEATURES: Record<VcpFeatureId, VcpFeature> = {
+  brightness: { code: VCP_BRIGHTNESS, title: "Brightness" },
+  contrast: { code: VCP_CONTRAST, title: "Contrast" },
+  volume: { code: VCP_AUDIO_VOLUME, title: "Volume" },
+  mute: {
+    code: VCP_AUDIO_MUTE,
+    title: "Mute",
+    choices: [
+      { value: 0x01, title: "Muted" },
+      { value: 0x02, title: "Unmuted" },
+    ],
+  },
+  power: {
+    code: VCP_POWER_MODE,
+    title: "Power Mode",
+    choices: [
+      { value: 0x01, title: "On" },
+      { value: 0x04, title: "Standby" },
+      { value: 0x05, title: "Off" },
+    ],
+  },
+};
+
+/** Maximum assumed when a continuous feature's maximum can't be read */
+const DEFAULT_VCP_MAX = 100;
+
+/** Step used by increase/decrease when the preference is empty or invalid */
+const DEFAULT_VCP_STEP = 10;
+
+export interface VcpReading {
+  monitorId: string;
+  current?: number;
+  /** Only set for continuous features */
+  max?: number;
+  error?: string;
+  failure?: DdcFailure;
+}
+
+export type VcpAdjustment =
+  { kind: "step"; delta: number } | { kind: "set"; value: number };
+
+/**
+ * Step size from the "Adjustment Step" preference.
+ */
+export function vcpStepFromPreferences(prefs: Preferences): number {
+  const step = parseInt(prefs.vcpStep ?? "", 10);
+  return isNaN(step) || step <= 0 ? DEFAULT_VCP_STEP : step;
+}
+
+/**
+ * Display name of a feature value, e.g. "Standby" or "60 / 100".
+ */
+export function formatVcpValue(
+  feature: VcpFeature,
+  value: number,
+  max?: number,
+): string {
+  if (feature.choices) {
+    return (
+      feature.choices.find((choice) => choice.value === value)?.title ??
+      `0x${vcpHex(value)}`
+    );
+  }
+  return max === undefined ? String(value) : `${value} / ${max}`;
+}
+
+/**
+ * Keep a value within 0..max.
+ */
+export function clampVcpValue(value: number, max: number): number {
+  return Math.min(Math.max(Math.round(value), 0), max);
+}
+
+/**
+ * Read a feature's current value, and its maximum for continuous features.
+ */
+export async function readVcp(
+  backend: DdcBackend,
+  monitorId: string,
+  feature: VcpFeature,
+): Promise<VcpReading> {
+  try {
+    const current = await backend.getVcp(monitorId, feature.code);
+    if (feature.choices) {
+      return { monitorId, current };
+    }
+    let max: number | undefined;
+    try {
+      max = await backend.getVcpMax(monitorId, feature.code);
+    } catch {
+      max = undefined;
+    }
+    return { monitorId, current, max: max ?? DEFAULT_VCP_MAX };
+  } catch (error) {
+    return {
+      monitorId,
+      error: backend.describeError(error),
+      failure: backend.classifyError(error),
+    };
+  }
+}
+
+/**
+ * Step or set a feature on one monitor.
+ *
+ * Continuous values are clamped to the monitor's reported maximum. Steps
+ * need the current value, so a failed read fails the adjustment.
+ */
+export async function adjustVcp(
+  backend: DdcBackend,
+  monitorId: string,
+  feature: VcpFeature,
+  adjustment: VcpAdjustment,
+  policy: SwitchPolicy,
+): Promise<ToastResult> {
+  const reading = await readVcp(backend, monitorId, feature);
+  if (adjustment.kind === "step" && reading.current === undefined) {
+    return {
+      status: "failure",
+      title: `Could not read ${feature.title.toLowerCase()}`,
+      message: reading.error ?? "",
+      failure: reading.failure,
+    };
+  }
+  if (adjustment.kind === "step" && feature.choices) {
+    return {
+      status: "failure",
+      title: `${feature.title} can't be stepped`,
+      message: "Choose one of its values instead",
+    };
+  }
+
+  const requested =
+    adjustment.kind === "step"
+      ? (reading.current ?? 0) + adjustment.delta
+      : adjustment.value;
+  const max = reading.max ?? DEFAULT_VCP_MAX;
+  const target = feature.choices ? requested : clampVcpValue(requested, max);
+  const label = formatVcpValue(feature, target, reading.max);
+  if (target === reading.current) {
+    return {
+      status: "success",
+      title: `${feature.title} already at ${label}`,
+      message: "",
+    };
+  }
+
+  let attempts: number;
+  try {
+    ({ attempts } = await withRetry(
+      () => backend.setVcp(monitorId, feature.code, target),
+      policy,
+    ));
+  } catch (error) {
+    return {
+      status: "failure",
+      title: `Failed to set ${feature.title.toLowerCase()} via ${backend.title}`,
+      message: backend.describeError(error),
+      failure: backend.classifyError(error),
+    };
+  }
+  const retried = attempts > 1 ? `after ${attempts} attempts` : "";
+
+  if (policy.verifyTimeoutMs > 0) {
+    const poll = await pollUntil(
+      () => backend.getVcp(monitorId, feature.code),
+      (value) => value === target,
+      policy,
+    );
+    if (!poll.satisfied) {
+      return {
+        status: "soft-fail",
+        title: `${feature.title} sent, but not confirmed`,
+        message:
+          poll.lastValue === undefined
+            ? "The monitor stopped responding"
+            : `Monitor still reports ${formatVcpValue(feature, poll.lastValue, reading.max)}`,
+      };
+    }
+  }
+  return {
+    status: "success",
+    title: `${feature.title}: ${label}`,
+    message:
+      requested === target
+        ? retried
+        : [`Clamped to the monitor's range 0–${max}`, retried]
+            .filter(Boolean)
+            .join(", "),
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * Retry and verification helpers for DDC/CI writes.
+ *
+ * DDC/CI is slow and flaky: monitors answer "busy" or time out while they
+ * process a previous command, and a successful write only means the monitor
+ * accepted it. Writes are therefore retried with exponential backoff on
+ * transient errors, then the value is read back until it matches or a
+ * deadline passes.
+ */
+
+import { setTimeout } from "node:timers/promises";
+import { Preferences } from "./extension";
+import { SwitchHooks, switchHooksFromPreferences } from "./hooks";
+import { DEFAULT_LOCK_POLICY, LockPolicy } from "./switch-lock";
+
+export interface SwitchPolicy {
+  /** Total attempts for a write failing with a transient (busy/timeout) error */
+  attempts: number;
+  /** Delay before the first retry; doubled after each failed attempt */
+  initialBackoffMs: number;
+  /** How often the value is read back after writing */
+  pollIntervalMs: number;
+  /** Stop reading back after this long; 0 disables verification */
+  verifyTimeoutMs: number;
+  /** Wait before the first read back, for monitors slow to switch */
+  settleMs?: number;
+  /** User commands run before and after `switchInput` (see `./hooks`) */
+  hooks?: SwitchHooks;
+  /** Per-monitor lock against overlapping switches (see `./switch-lock`) */
+  lock?: LockPolicy;
+}
+
+export const DEFAULT_SWITCH_POLICY: SwitchPolicy = {
+  attempts: 3,
+  initialBackoffMs: 250,
+  pollIntervalMs: 500,
+  verifyTimeoutMs: 5000,
+};
+
+/**
+ * Build the switch policy from the "Switch Retries", "Verify Timeout",
+ * "Overlapping Switches" and hook preferences, falling back to the defaults
+ * for empty or invalid values.
+ */
+export function switchPolicyFromPreferences(prefs: Preferences): SwitchPolicy {
+  const retries = parseInt(prefs.switchRetries ?? "", 10);
+  const verifySeconds = parseFloat(prefs.verifyTimeout ?? "");
+  return {
+    ...DEFAULT_SWITCH_POLICY,
+    attempts:
+      isNaN(retries) || retries < 0
+        ? DEFAULT_SWITCH_POLICY.attempts
+        : retries + 1,
+    verifyTimeoutMs:
+      isNaN(verifySeconds) || verifySeconds < 0
+        ? DEFAULT_SWITCH_POLICY.verifyTimeoutMs
+        : Math.round(verifySeconds * 1000),
+    hooks: switchHooksFromPreferences(prefs),
+    lock: {
+      ...DEFAULT_LOCK_POLICY,
+      concurrency:
+        prefs.switchConcurrency === "reject"
+          ? "reject"
+          : DEFAULT_LOCK_POLICY.concurrency,
+    },
+  };
+}
+
+/**
+ * Whether a DDC error is worth retrying (bus busy, timeout, garbled reply).
+ */
+export function isTransientDdcError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /busy|EBUSY|timed? ?out|ETIMEDOUT|DDC communication failed|DDCRC_(?:RETRIES|NULL_RESPONSE|CHECKSUM|READ_ALL_ZERO)/iu.test(
+    message,
+  );
+}
+
+/**
+ * Run an operation, retrying transient failures with exponential backoff.
+ *
+ * Resolves with the result and the number of attempts it took; rethrows the
+ * last error once attempts run out or on a non-transient error.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: SwitchPolicy,
+): Promise<{ value: T; attempts: number }> {
+  let delay = policy.initialBackoffMs;
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return { value: await operation(), attempts: attempt };
+    } catch (error) {
+      if (attempt >= policy.attempts || !isTransientDdcError(error)) {
+        throw error;
+      }
+      await setTimeout(delay);
+      delay *= 2;
+    }
+  }
+}
+
+export interface PollResult<T> {
+  /** Whether `done` returned true before the deadline */
+  satisfied: boolean;
+  /** Last value read, if any read succeeded */
+  lastValue?: T;
+  /** Last read error, if the last read failed */
+  lastError?: unknown;
+}
+
+/**
+ * Read a value repeatedly until `done` accepts it or the deadline passes.
+ */
+export async function pollUntil<T>(
+  read: () => Promise<T>,
+  done: (value: T) => boolean,
+  policy: SwitchPolicy,
+): Promise<PollResult<T>> {
+  const settleMs = policy.settleMs ?? 0;
+  const deadline = Date.now() + settleMs + policy.verifyTimeoutMs;
+  const result: PollResult<T> = { satisfied: false };
+  await setTimeout(settleMs);
+  do {
+    await setTimeout(policy.pollIntervalMs);
+    try {
+      result.lastValue = await read();
+      result.lastError = undefined;
+      if (done(result.lastValue)) {
+        result.satisfied = true;
+        return result;
+      }
+    } catch (error) {
+      result.lastError = error;
+    }
+  } while (Date.now() < deadline);
+  return result;
+}
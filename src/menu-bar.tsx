@@ -0,0 +1,230 @@
+/**
+ * Raycast command: Menu bar input status.
+ *
+ * Shows the active input of every monitor in the menu bar, polled in the
+ * background (see `./lib/input-poller`), with items to switch any monitor
+ * to any known input and to apply desk profiles.
+ */
+
+import {
+  environment,
+  getPreferenceValues,
+  Icon,
+  LaunchType,
+  MenuBarExtra,
+  showHUD,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useEffect, useState } from "react";
+import { DdcBackend } from "./lib/backends";
+import { switchInput } from "./lib/ddc";
+import {
+  isPollDue,
+  loadPollerState,
+  pollInputs,
+  PollerState,
+  savePollerState,
+} from "./lib/input-poller";
+import { findMapping, InputMapping, shortInputLabel } from "./lib/mappings";
+import { loadMonitorMappings } from "./lib/model-mappings";
+import { applyProfile, DeskProfile, loadProfiles } from "./lib/profiles";
+import { inputCycleFor } from "./lib/toggle";
+import { switchPolicyFromPreferences } from "./lib/verify";
+import {
+  PrerequisiteValidation,
+  resolveBackend,
+  validatePrerequisites,
+} from "./common";
+
+/** Used when the "Poll Interval" preference is empty or invalid */
+const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+
+interface MenuBarData {
+  backend: DdcBackend;
+  validation: PrerequisiteValidation;
+  poller: PollerState;
+  mappings: InputMapping[];
+  profiles: DeskProfile[];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function pollIntervalMs(): number {
+  const { pollInterval } = getPreferenceValues<{ pollInterval?: string }>();
+  const seconds = parseFloat(pollInterval ?? "");
+  return (
+    (isNaN(seconds) || seconds <= 0 ? DEFAULT_POLL_INTERVAL_SECONDS : seconds) *
+    1000
+  );
+}
+
+export default function Command() {
+  const [data, setData] = useState<MenuBarData>();
+  const [error, setError] = useState<string>();
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = async (force: boolean) => {
+    const validation = await validatePrerequisites();
+    if (validation.status === "failure" || validation.os === "unsupported") {
+      setError(validation.title);
+      return;
+    }
+    const completeValidation = validation as PrerequisiteValidation;
+    const backend = resolveBackend(completeValidation);
+    // Includes the mappings the model database provides (see
+    // `./lib/model-mappings`), so those monitors list their inputs too
+    const [stored, { mappings }, profiles] = await Promise.all([
+      loadPollerState(),
+      loadMonitorMappings(backend),
+      loadProfiles(),
+    ]);
+    let poller = stored;
+    const userInitiated = environment.launchType === LaunchType.UserInitiated;
+    if (force || !poller || isPollDue(poller, userInitiated)) {
+      poller = await pollInputs(backend, stored, pollIntervalMs());
+      await savePollerState(poller);
+    }
+    setData({
+      backend,
+      validation: completeValidation,
+      poller,
+      mappings,
+      profiles,
+    });
+  };
+
+  useEffect(() => {
+    refresh(false)
+      .catch(async (refreshError: unknown) => {
+        setError(errorMessage(refreshError));
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Could not read monitor inputs",
+          message: errorMessage(refreshError),
+        });
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const run = async (action: () => Promise<string>) => {
+    setIsLoading(true);
+    try {
+      await showHUD(await action());
+      await refresh(true);
+    } catch (actionError) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Monitor action failed",
+        message: errorMessage(actionError),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (error || !data) {
+    return (
+      <MenuBarExtra icon={Icon.Monitor} isLoading={isLoading} tooltip={error}>
+        {error && <MenuBarExtra.Item title={error} />}
+      </MenuBarExtra>
+    );
+  }
+
+  const { backend, validation, poller, mappings, profiles } = data;
+  const policy = switchPolicyFromPreferences(validation);
+  const mappingOf = (monitorId: string) =>
+    findMapping(
+      mappings,
+      backend.id,
+      monitorId,
+      poller.monitors.map((entry) => entry.monitor),
+    );
+  const statusLabel = (entry: PollerState["monitors"][number]) => {
+    if (entry.status === "asleep") {
+      return "Asleep";
+    }
+    if (entry.currentValue === undefined) {
+      return "?";
+    }
+    return shortInputLabel(entry.currentValue, mappingOf(entry.monitor.id));
+  };
+  const knownInputs = (monitorId: string): number[] => {
+    try {
+      return inputCycleFor(validation, mappingOf(monitorId));
+    } catch {
+      return [];
+    }
+  };
+
+  return (
+    <MenuBarExtra
+      icon={Icon.Monitor}
+      title={poller.monitors.map((entry) => statusLabel(entry)).join(" · ")}
+      tooltip="Active monitor inputs"
+      isLoading={isLoading}
+    >
+      {poller.monitors.map((entry) => (
+        <MenuBarExtra.Section key={entry.monitor.id} title={entry.monitor.name}>
+          <MenuBarExtra.Item
+            icon={entry.status === "ok" ? Icon.Monitor : Icon.Warning}
+            title={statusLabel(entry)}
+            subtitle={entry.status === "error" ? entry.error : undefined}
+          />
+          <MenuBarExtra.Submenu title="Switch to" icon={Icon.Switch}>
+            {knownInputs(entry.monitor.id).map((value) => (
+              <MenuBarExtra.Item
+                key={value}
+                title={shortInputLabel(value, mappingOf(entry.monitor.id))}
+                icon={value === entry.currentValue ? Icon.Checkmark : undefined}
+                onAction={() =>
+                  run(
+                    async () =>
+                      (
+                        await switchInput(
+                          backend,
+                          value,
+                          [entry.monitor.id],
+                          policy,
+                          entry.currentValue,
+                        )
+                      ).title,
+                  )
+                }
+              />
+            ))}
+          </MenuBarExtra.Submenu>
+        </MenuBarExtra.Section>
+      ))}
+      {profiles.length > 0 && (
+        <MenuBarExtra.Section title="Profiles">
+          {profiles.map((profile) => (
+            <MenuBarExtra.Item
+              key={profile.id}
+              icon={Icon.Desktop}
+              title={profile.name}
+              onAction={() =>
+                run(
+                  async () =>
+                    (await applyProfile(backend, profile, policy)).summary
+                      .title,
+                )
+              }
+            />
+          ))}
+        </MenuBarExtra.Section>
+      )}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Refresh"
+          icon={Icon.ArrowClockwise}
+          onAction={() =>
+            run(() => Promise.resolve("Refreshed monitor inputs"))
+          }
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Raycast command: Turn a monitor on, to standby or off (VCP 0xD6).
+ *
+ * A monitor in standby or off may stop answering DDC/CI; most still wake up
+ * when set back to On.
+ */
+
+import { Icon } from "@raycast/api";
+import { VcpControl } from "./components/vcp-control";
+import { VCP_FEATURES } from "./lib/vcp";
+
+const FEATURES = [VCP_FEATURES.power];
+
+export default function Command() {
+  return (
+    <VcpControl
+      features={FEATURES}
+      navigationTitle="Monitor Power Mode"
+      icon={Icon.Power}
+    />
+  );
+}
@@ -0,0 +1,156 @@
+/**
+ * Raycast command: Scheduled rules.
+ *
+ * Lists the rules with their next run, and creates, edits, enables,
+ * disables or deletes them. The upcoming switches of all rules can be
+ * previewed as a dry run, and the decision log shows what the "Scheduled
+ * Switching" background command decided each time a rule fired.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  confirmAlert,
+  Icon,
+  Keyboard,
+  List,
+} from "@raycast/api";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { RuleForm } from "./components/rule-form";
+import { RuleLog } from "./components/rule-log";
+import { describeRule, RulePreview } from "./components/rule-preview";
+import { useMonitors } from "./components/use-monitors";
+import { loadProfiles } from "./lib/profiles";
+import { RuleContext } from "./lib/rule-runner";
+import {
+  deleteRule,
+  loadRules,
+  nextRuleFiring,
+  saveRule,
+  ScheduleRule,
+} from "./lib/rules";
+
+export default function Command() {
+  const { backend, validation } = useMonitors();
+  const [rules, setRules] = useState<ScheduleRule[]>();
+  const [context, setContext] = useState<RuleContext>();
+
+  const refresh = useCallback(() => {
+    loadRules().then(setRules);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (backend && validation) {
+      loadProfiles().then((profiles) =>
+        setContext({ backend, prefs: validation, profiles }),
+      );
+    }
+  }, [backend, validation]);
+
+  const nextRuns = useMemo(
+    () =>
+      new Map(
+        rules?.map((rule) => [rule.id, nextRuleFiring(rule, new Date())]),
+      ),
+    [rules],
+  );
+
+  const sharedActions = (
+    <>
+      <Action.Push
+        title="Create Rule"
+        icon={Icon.Plus}
+        shortcut={Keyboard.Shortcut.Common.New}
+        target={<RuleForm onSave={refresh} />}
+      />
+      <Action.Push
+        title="Preview Upcoming Switches"
+        icon={Icon.Calendar}
+        shortcut={{ modifiers: ["cmd"], key: "p" }}
+        target={<RulePreview rules={rules ?? []} context={context} />}
+      />
+      <Action.Push
+        title="Show Decision Log"
+        icon={Icon.List}
+        shortcut={{ modifiers: ["cmd"], key: "l" }}
+        target={<RuleLog />}
+      />
+    </>
+  );
+
+  return (
+    <List isLoading={rules === undefined} navigationTitle="Scheduled Rules">
+      <List.EmptyView
+        icon={Icon.Calendar}
+        title="No rules yet"
+        description="Create one to switch the monitors at set times"
+        actions={<ActionPanel>{sharedActions}</ActionPanel>}
+      />
+      {rules?.map((rule) => {
+        const next = nextRuns.get(rule.id);
+        return (
+          <List.Item
+            key={rule.id}
+            icon={
+              rule.enabled
+                ? { source: Icon.Calendar, tintColor: Color.Green }
+                : { source: Icon.Calendar, tintColor: Color.SecondaryText }
+            }
+            title={rule.name}
+            subtitle={`${rule.schedule}${rule.weekdays ? ` on ${rule.weekdays}` : ""}`}
+            accessories={[
+              { text: describeRule(rule) },
+              rule.enabled && next
+                ? { date: next, tooltip: `Next: ${next.toLocaleString()}` }
+                : { tag: rule.enabled ? "Never runs" : "Disabled" },
+            ]}
+            actions={
+              <ActionPanel>
+                <Action.Push
+                  title="Edit Rule"
+                  icon={Icon.Pencil}
+                  target={<RuleForm rule={rule} onSave={refresh} />}
+                />
+                <Action
+                  title={rule.enabled ? "Disable Rule" : "Enable Rule"}
+                  icon={rule.enabled ? Icon.Pause : Icon.Play}
+                  shortcut={{ modifiers: ["cmd"], key: "e" }}
+                  onAction={async () => {
+                    await saveRule({ ...rule, enabled: !rule.enabled });
+                    refresh();
+                  }}
+                />
+                {sharedActions}
+                <Action
+                  title="Delete Rule"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.Remove}
+                  onAction={async () => {
+                    const confirmed = await confirmAlert({
+                      title: `Delete "${rule.name}"?`,
+                      primaryAction: {
+                        title: "Delete",
+                        style: Alert.ActionStyle.Destructive,
+                      },
+                    });
+                    if (confirmed) {
+                      await deleteRule(rule.id);
+                      refresh();
+                    }
+                  }}
+                />
+              </ActionPanel>
+            }
+          />
+        );
+      })}
+    </List>
+  );
+}
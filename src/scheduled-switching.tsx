@@ -0,0 +1,75 @@
+/**
+ * Raycast command: Scheduled switching (background, every minute).
+ *
+ * Runs the scheduled rules that came due since the last launch (see
+ * `./lib/rule-runner`) and shows a HUD for each one that acted. Rules are
+ * managed in "Scheduled Rules"; every decision, including skipped and
+ * missed firings, is in its decision log.
+ */
+
+import {
+  environment,
+  LaunchType,
+  showHUD,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { loadProfiles } from "./lib/profiles";
+import { runDueRules } from "./lib/rule-runner";
+import { loadRules, upcomingFirings } from "./lib/rules";
+import {
+  PrerequisiteValidation,
+  resolveBackend,
+  validatePrerequisites,
+} from "./common";
+
+/** How far ahead a manual launch looks for the next rule */
+const NEXT_RULE_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+
+export default async function Command() {
+  const userInitiated = environment.launchType === LaunchType.UserInitiated;
+  const rules = await loadRules();
+  if (!rules.some((rule) => rule.enabled)) {
+    if (userInitiated) {
+      await showHUD('No scheduled rules. Add some in "Scheduled Rules"');
+    }
+    return;
+  }
+
+  const validation = (await validatePrerequisites()) as PrerequisiteValidation;
+  if (validation.status === "failure") {
+    if (userInitiated) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: validation.title,
+        message: validation.message,
+      });
+    }
+    return;
+  }
+
+  const decisions = await runDueRules(rules, {
+    backend: resolveBackend(validation),
+    prefs: validation,
+    profiles: await loadProfiles(),
+  });
+  const acted = decisions.filter(
+    (decision) => decision.decision === "ran" || decision.decision === "error",
+  );
+  for (const decision of acted) {
+    await showHUD(`${decision.ruleName}: ${decision.title}`);
+  }
+  if (acted.length === 0 && userInitiated) {
+    const now = new Date();
+    const next = upcomingFirings(
+      rules,
+      now,
+      new Date(now.getTime() + NEXT_RULE_HORIZON_MS),
+    )[0];
+    await showHUD(
+      next
+        ? `Nothing due. Next: ${next.rule.name} at ${next.at.toLocaleString()}`
+        : "Nothing due this week",
+    );
+  }
+}
@@ -0,0 +1,226 @@
+/**
+ * Raycast command: Switch history.
+ *
+ * Browses the log of switches and discovery reads (see `./lib/history`),
+ * newest first, with the raw tool output of each entry. Entries can be
+ * filtered, copied, and the filtered list exported as JSON or CSV.
+ */
+
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  Color,
+  confirmAlert,
+  Icon,
+  Keyboard,
+  List,
+  showInFinder,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import {
+  clearHistory,
+  exportHistory,
+  HistoryEntry,
+  HistoryExportFormat,
+  loadHistory,
+} from "./lib/history";
+import { formatInput } from "./lib/mccs";
+import { ToastResult } from "./lib/toast";
+
+type HistoryFilter = "all" | "switch" | "discovery" | "problems";
+
+const STATUS_ICONS: Record<ToastResult["status"], List.Item.Props["icon"]> = {
+  success: { source: Icon.CheckCircle, tintColor: Color.Green },
+  "soft-fail": { source: Icon.Warning, tintColor: Color.Orange },
+  failure: { source: Icon.XMarkCircle, tintColor: Color.Red },
+};
+
+function matchesFilter(entry: HistoryEntry, filter: HistoryFilter): boolean {
+  if (filter === "all") {
+    return true;
+  }
+  if (filter === "problems") {
+    return entry.status !== "success";
+  }
+  return entry.kind === filter;
+}
+
+function entryTitle(entry: HistoryEntry): string {
+  if (entry.kind === "discovery") {
+    return entry.fromValue === undefined
+      ? "Input read failed"
+      : `Read ${formatInput(entry.fromValue)}`;
+  }
+  const target = entry.toValue === undefined ? "?" : formatInput(entry.toValue);
+  return entry.fromValue === undefined
+    ? `Switch to ${target}`
+    : `${formatInput(entry.fromValue)} → ${target}`;
+}
+
+function entryMarkdown(entry: HistoryEntry): string {
+  return [
+    `**${entry.message}**`,
+    entry.rawOutput ? `\n\`\`\`\n${entry.rawOutput}\n\`\`\`` : "",
+  ].join("\n");
+}
+
+export default function Command() {
+  const [entries, setEntries] = useState<HistoryEntry[]>();
+  const [filter, setFilter] = useState<HistoryFilter>("all");
+
+  const refresh = useCallback(() => {
+    loadHistory().then(setEntries);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const visible = (entries ?? []).filter((entry) =>
+    matchesFilter(entry, filter),
+  );
+
+  const exportVisible = async (format: HistoryExportFormat) => {
+    try {
+      const path = await exportHistory(visible, format);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Exported ${visible.length} entries`,
+        message: path,
+        primaryAction: {
+          title: "Show in Finder",
+          onAction: () => showInFinder(path),
+        },
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Export failed",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  const clear = async () => {
+    const confirmed = await confirmAlert({
+      title: "Clear the switch history?",
+      message: "Every recorded switch and discovery read will be deleted.",
+      primaryAction: { title: "Clear", style: Alert.ActionStyle.Destructive },
+    });
+    if (confirmed) {
+      await clearHistory();
+      refresh();
+    }
+  };
+
+  return (
+    <List
+      isLoading={entries === undefined}
+      isShowingDetail={visible.length > 0}
+      navigationTitle="Switch History"
+      searchBarPlaceholder="Filter by monitor, input, backend or message"
+      searchBarAccessory={
+        <List.Dropdown
+          tooltip="Show"
+          value={filter}
+          onChange={(value) => setFilter(value as HistoryFilter)}
+        >
+          <List.Dropdown.Item title="All Entries" value="all" />
+          <List.Dropdown.Item title="Switches" value="switch" />
+          <List.Dropdown.Item title="Discovery Reads" value="discovery" />
+          <List.Dropdown.Item title="Problems Only" value="problems" />
+        </List.Dropdown>
+      }
+    >
+      <List.EmptyView
+        icon={Icon.Clock}
+        title="No history yet"
+        description="Switches and discovery reads show up here."
+      />
+      {visible.map((entry) => (
+        <List.Item
+          key={entry.id}
+          icon={STATUS_ICONS[entry.status]}
+          title={entryTitle(entry)}
+          subtitle={entry.monitorId}
+          keywords={[entry.backendId, entry.outcome, entry.message]}
+          accessories={[{ date: new Date(entry.timestamp) }]}
+          detail={
+            <List.Item.Detail
+              markdown={entryMarkdown(entry)}
+              metadata={
+                <List.Item.Detail.Metadata>
+                  <List.Item.Detail.Metadata.Label
+                    title="Time"
+                    text={new Date(entry.timestamp).toLocaleString()}
+                  />
+                  <List.Item.Detail.Metadata.Label
+                    title="Monitor"
+                    text={entry.monitorId}
+                  />
+                  <List.Item.Detail.Metadata.Label
+                    title="Backend"
+                    text={entry.backendId}
+                  />
+                  <List.Item.Detail.Metadata.Label
+                    title="Outcome"
+                    text={entry.outcome}
+                  />
+                  {entry.failureKind && (
+                    <List.Item.Detail.Metadata.Label
+                      title="Error Kind"
+                      text={entry.failureKind}
+                    />
+                  )}
+                  <List.Item.Detail.Metadata.Label
+                    title="Duration"
+                    text={`${entry.durationMs} ms`}
+                  />
+                </List.Item.Detail.Metadata>
+              }
+            />
+          }
+          actions={
+            <ActionPanel>
+              <Action.CopyToClipboard
+                title="Copy Entry"
+                content={JSON.stringify(entry, null, 2)}
+              />
+              {entry.rawOutput && (
+                <Action.CopyToClipboard
+                  title="Copy Raw Output"
+                  content={entry.rawOutput}
+                  shortcut={Keyboard.Shortcut.Common.CopyName}
+                />
+              )}
+              <ActionPanel.Section>
+                <Action
+                  title="Export as JSON"
+                  icon={Icon.Download}
+                  onAction={() => exportVisible("json")}
+                />
+                <Action
+                  title="Export as CSV"
+                  icon={Icon.Download}
+                  onAction={() => exportVisible("csv")}
+                />
+              </ActionPanel.Section>
+              <ActionPanel.Section>
+                <Action
+                  title="Clear History"
+                  icon={Icon.Trash}
+                  style={Action.Style.Destructive}
+                  shortcut={Keyboard.Shortcut.Common.RemoveAll}
+                  onAction={clear}
+                />
+              </ActionPanel.Section>
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
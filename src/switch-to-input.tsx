@@ -0,0 +1,118 @@
+/**
+ * Raycast command: Switch to a specific input.
+ *
+ * Unlike the toggle, the target comes from the command arguments, so the
+ * same command serves every input and can be called from deeplinks, with
+ * the arguments as URL-encoded JSON:
+ *
+ *   raycast://extensions/danilo/monitor-input-switch/switch-to-input?arguments=%7B%22input%22%3A%22HDMI-1%22%7D
+ *
+ * `input` is a learned name, a standard name, hex or decimal; `monitor`
+ * uses the Monitor(s) preference syntax and defaults to that preference.
+ *
+ * With Peer Handoff set, the switch may go to the agent of another
+ * computer instead (see `./handoff`).
+ */
+
+import { closeMainWindow, LaunchProps, showToast, Toast } from "@raycast/api";
+import { switchTargets } from "./lib/ddc";
+import { resolveInputTargets } from "./lib/mappings";
+import { loadMonitorMappings } from "./lib/model-mappings";
+import { resolveMonitorTargets } from "./lib/monitors";
+import { switchPolicyFromPreferences } from "./lib/verify";
+import { resolveBackend } from "./common";
+import { LocalSwitch, switchOrHandOff } from "./handoff";
+
+interface SwitchArguments {
+  input: string;
+  monitor?: string;
+}
+
+export default async function Command(
+  props: LaunchProps<{ arguments: SwitchArguments }>,
+) {
+  const { input, monitor } = props.arguments;
+  const switchLocally: LocalSwitch = async (completeValidation, handsOff) => {
+    const backend = resolveBackend(completeValidation);
+    let monitorIds: string[];
+    try {
+      monitorIds = await resolveMonitorTargets(
+        backend,
+        monitor?.trim() || completeValidation.monitorId || "Primary",
+      );
+    } catch (error) {
+      const failure = backend.classifyError(error);
+      if (handsOff(failure)) {
+        return failure;
+      }
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "No monitor to switch",
+        message: backend.describeError(error),
+      });
+      return null;
+    }
+
+    // Learned names differ per monitor, so resolve the input for each one
+    let targets: Map<number, string[]>;
+    try {
+      targets = resolveInputTargets(
+        backend.id,
+        input,
+        monitorIds,
+        await loadMonitorMappings(backend),
+      );
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid input",
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+
+    await closeMainWindow();
+    const toasting = await showToast({
+      style: Toast.Style.Animated,
+      title: "Switching!",
+      message: `Switching to ${input} via ${backend.title}`,
+    });
+    const policy = switchPolicyFromPreferences(completeValidation);
+    const results = await switchTargets(
+      backend,
+      [...targets].map(([inputValue, ids]) => ({
+        inputValue,
+        monitorIds: ids,
+      })),
+      policy,
+    );
+    const failed =
+      results.find((result) => result.status === "failure") ??
+      results.find((result) => result.status === "soft-fail");
+
+    if (
+      failed?.status === "failure" &&
+      failed.failure &&
+      handsOff(failed.failure)
+    ) {
+      return failed.failure;
+    }
+    if (failed) {
+      toasting.style = Toast.Style.Failure;
+      toasting.title = failed.title;
+      toasting.message = failed.message;
+    } else {
+      toasting.style = Toast.Style.Success;
+      toasting.title =
+        results.length === 1
+          ? `✓ ${results[0].title}`
+          : `✓ Switched ${monitorIds.length} monitors to ${input}`;
+      toasting.message = results
+        .map((result) => result.message)
+        .filter(Boolean)
+        .join(" :: ");
+    }
+    return null;
+  };
+  await switchOrHandOff(props.arguments, switchLocally);
+}
@@ -2,34 +2,60 @@
  * Raycast command: Toggle switch monitor input source.
  *
  * Typically used from macOS to switch the monitor to the Windows PC, or
- * the other way around. * Uses DDC/CI VCP code 0x60 with the configured
- * DisplayPort/HDMI value.
+ * the other way around. Reads DDC/CI VCP code 0x60 and switches to the next
+ * configured input (Input Cycle list, inputs learned with Discover Inputs,
+ * or the DisplayPort/HDMI pair), on every monitor matched by the Monitor
+ * preference.
+ *
+ * With Peer Handoff set, the toggle may go to the agent of another computer
+ * instead (see `./handoff`).
  */
 
 import { closeMainWindow, showToast, Toast } from "@raycast/api";
-import { switchInput } from "./lib/ddc";
-import { setTimeout } from "node:timers/promises";
-import { PrerequisiteValidation, validatePrerequisites } from "./common";
+import { resolveMonitorTargets } from "./lib/monitors";
 import { SupportedPlatform } from "./lib/platform";
+import {
+  describePlan,
+  loadToggleSetup,
+  planToggleTargets,
+  switchToggle,
+  ToggleSetup,
+} from "./lib/toggle";
+import { switchPolicyFromPreferences } from "./lib/verify";
+import { resolveBackend } from "./common";
+import { LocalSwitch, switchOrHandOff } from "./handoff";
 
-export default async function Command() {
-  const completeValidation = validatePrerequisites() as PrerequisiteValidation;
-  if (completeValidation.status === "failure") {
+const toggleHere: LocalSwitch = async (completeValidation, handsOff) => {
+  const backend = resolveBackend(completeValidation);
+  let monitorIds: string[];
+  try {
+    monitorIds = await resolveMonitorTargets(
+      backend,
+      completeValidation.monitorId || "Primary",
+    );
+  } catch (error) {
+    const failure = backend.classifyError(error);
+    if (handsOff(failure)) {
+      return failure;
+    }
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "No monitor to switch",
+      message: backend.describeError(error),
+    });
+    return null;
+  }
+  let setup: ToggleSetup;
+  try {
+    setup = await loadToggleSetup(backend, completeValidation, monitorIds);
+  } catch (error) {
     await showToast({
       style: Toast.Style.Failure,
-      title: completeValidation.title,
-      message: completeValidation.message,
+      title: "Invalid input configuration",
+      message: error instanceof Error ? error.message : String(error),
     });
-    return;
+    return null;
   }
-  const resolvedExePath =
-    completeValidation.os === "darwin"
-      ? completeValidation.m1ddcPath
-      : completeValidation.controlMyMonitorPath;
-  const resolvedInput =
-    completeValidation.os === "darwin"
-      ? parseInt(completeValidation.displayPortValue, 10)
-      : parseInt(completeValidation.hdmiPortValue, 10);
 
   // Close Raycast window immediately for snappy UX
   await closeMainWindow();
@@ -37,25 +63,53 @@ export default async function Command() {
   const toasting = await showToast({
     style: Toast.Style.Animated,
     title: "Switching!",
-    message: `To input ${resolvedInput} via ${resolvedExePath}`,
+    message: `Reading current input via ${backend.title}`,
   });
-  await setTimeout(3000);
-
-  // Attempt the switch
-  const result = switchInput(
+  const plans = await planToggleTargets(
+    backend,
+    setup,
+    completeValidation,
     completeValidation.os as SupportedPlatform,
-    resolvedInput,
-    completeValidation.monitorId || "Primary",
-    resolvedExePath,
   );
+  toasting.message = plans
+    .map((plan) => describePlan(plan, setup.mappings))
+    .join(", ");
 
-  if (result.status === "success") {
-    toasting.style = Toast.Style.Success;
-    toasting.title = `✓ Switched to input (${resolvedInput})`;
-    toasting.message = "";
-  } else {
+  // One switch for every target input, between one run of the hooks
+  const policy = switchPolicyFromPreferences(completeValidation);
+  const results = await switchToggle(backend, plans, policy);
+  const failed =
+    results.find((result) => result.status === "failure") ??
+    results.find((result) => result.status === "soft-fail");
+
+  if (
+    failed?.status === "failure" &&
+    failed.failure &&
+    handsOff(failed.failure)
+  ) {
+    return failed.failure;
+  }
+  if (failed) {
     toasting.style = Toast.Style.Failure;
-    toasting.title = result.title;
-    toasting.message = result.message;
+    toasting.title = failed.title;
+    toasting.message = failed.message;
+  } else {
+    toasting.style = Toast.Style.Success;
+    toasting.title =
+      plans.length === 1
+        ? `✓ ${results[0].title}`
+        : `✓ Switched ${monitorIds.length} monitors`;
+    toasting.message = [
+      plans.map((plan) => describePlan(plan, setup.mappings)).join(", "),
+      ...results.map((result) => result.message),
+    ]
+      .filter(Boolean)
+      .join(" :: ");
   }
+  return null;
+};
+
+export default async function Command() {
+  // The peer toggles its own monitors, with its own input cycle
+  await switchOrHandOff({ input: "toggle" }, toggleHere);
 }
@@ -0,0 +1,49 @@
+/**
+ * Raycast command: Turn the USB device watcher on or off.
+ *
+ * Turning it on forgets what the watcher saw before, so the device's
+ * current state becomes the baseline and nothing switches right away.
+ */
+
+import { getPreferenceValues, showHUD, showToast, Toast } from "@raycast/api";
+import { Preferences } from "./lib/extension";
+import { formatUsbDeviceId } from "./lib/usb";
+import {
+  loadUsbWatcherState,
+  saveUsbWatcherState,
+  usbWatcherFromPreferences,
+  UsbWatcherConfig,
+} from "./lib/usb-watcher";
+
+export default async function Command() {
+  const state = await loadUsbWatcherState();
+  if (state.enabled) {
+    await saveUsbWatcherState({ enabled: false });
+    await showHUD("USB watcher off");
+    return;
+  }
+
+  let config: UsbWatcherConfig;
+  try {
+    config = usbWatcherFromPreferences(getPreferenceValues<Preferences>());
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Invalid USB watcher settings",
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+  if (config.devices.length === 0) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "No USB device to watch",
+      message: 'Set "USB Devices to Watch" in the extension preferences',
+    });
+    return;
+  }
+  await saveUsbWatcherState({ enabled: true });
+  await showHUD(
+    `USB watcher on, watching ${config.devices.map(formatUsbDeviceId).join(", ")}`,
+  );
+}
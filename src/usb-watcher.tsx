@@ -0,0 +1,150 @@
+/**
+ * Raycast command: USB device watcher (background, every 10 seconds).
+ *
+ * While turned on with "Toggle USB Watcher", each launch checks whether the
+ * watched USB device is connected and runs the configured action when that
+ * changed (see `./lib/usb-watcher`). A change seen during a launch is
+ * confirmed within the same launch once the debounce time has passed,
+ * rather than on the next one. An action that failed for a passing reason
+ * is tried again by the next launches (see `stateAfterAction`).
+ */
+
+import {
+  environment,
+  LaunchType,
+  showHUD,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import { setTimeout } from "node:timers/promises";
+import { describeSwitchAction, runSwitchAction } from "./lib/actions";
+import { errorMessageOf } from "./lib/backends/types";
+import { SupportedPlatform } from "./lib/platform";
+import { loadProfiles } from "./lib/profiles";
+import { ToastResult } from "./lib/toast";
+import { formatUsbDeviceId } from "./lib/usb";
+import {
+  actionFor,
+  loadUsbWatcherState,
+  pollUsbWatcher,
+  saveUsbWatcherProgress,
+  stateAfterAction,
+  usbWatcherFromPreferences,
+  UsbWatcherConfig,
+  WatcherStep,
+} from "./lib/usb-watcher";
+import {
+  PrerequisiteValidation,
+  resolveBackend,
+  validatePrerequisites,
+} from "./common";
+
+/**
+ * Polls one launch makes to settle a change. A device that keeps flapping
+ * is left pending for the next launch, rather than keeping this one alive.
+ */
+const MAX_SETTLE_POLLS = 5;
+
+export default async function Command() {
+  const userInitiated = environment.launchType === LaunchType.UserInitiated;
+  const state = await loadUsbWatcherState();
+  if (!state.enabled) {
+    if (userInitiated) {
+      await showHUD('USB watcher is off. Run "Toggle USB Watcher" to start it');
+    }
+    return;
+  }
+
+  const validation = (await validatePrerequisites()) as PrerequisiteValidation;
+  let config: UsbWatcherConfig | undefined;
+  try {
+    config = usbWatcherFromPreferences(validation);
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Invalid USB watcher settings",
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+  if (validation.status === "failure" || config.devices.length === 0) {
+    if (userInitiated) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title:
+          validation.status === "failure"
+            ? validation.title
+            : "No USB device to watch",
+        message:
+          validation.status === "failure"
+            ? validation.message
+            : 'Set "USB Devices to Watch" in the extension preferences',
+      });
+    }
+    return;
+  }
+
+  const os = validation.os as SupportedPlatform;
+  let step: WatcherStep;
+  try {
+    step = await pollUsbWatcher(config, os, state);
+    for (
+      let polls = 1;
+      step.waitMs !== undefined && polls < MAX_SETTLE_POLLS;
+      polls++
+    ) {
+      await setTimeout(step.waitMs);
+      step = await pollUsbWatcher(config, os, step.state);
+    }
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Could not list USB devices",
+      message: errorMessageOf(error),
+    });
+    return;
+  }
+
+  const devices = config.devices.map(formatUsbDeviceId).join(", ");
+  const action = step.event && actionFor(config, step.event);
+  if (!step.event || !action) {
+    await saveUsbWatcherProgress(step.state);
+    if (userInitiated) {
+      await showHUD(
+        `${devices} ${step.state.connected ? "connected" : "not connected"}`,
+      );
+    }
+    return;
+  }
+
+  let result: ToastResult;
+  try {
+    result = await runSwitchAction(
+      action,
+      resolveBackend(validation),
+      validation,
+      await loadProfiles(),
+    );
+  } catch (error) {
+    result = {
+      status: "failure",
+      title: errorMessageOf(error),
+      message: "",
+    };
+  }
+  const { state: settled, retry } = stateAfterAction(state, step, result);
+  await saveUsbWatcherProgress(settled);
+  if (result.status === "failure") {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: `Could not ${describeSwitchAction(action)}`,
+      message: retry
+        ? `${result.title}. Trying again on the next check`
+        : result.title,
+    });
+    return;
+  }
+  await showHUD(
+    `${devices} ${step.event === "connect" ? "connected" : "disconnected"}: ${result.title}`,
+  );
+}
@@ -0,0 +1,20 @@
+/**
+ * Raycast command: Step or set the monitor's speaker volume (VCP 0x62) and mute
+ * it (VCP 0x8D).
+ */
+
+import { Icon } from "@raycast/api";
+import { VcpControl } from "./components/vcp-control";
+import { VCP_FEATURES } from "./lib/vcp";
+
+const FEATURES = [VCP_FEATURES.volume, VCP_FEATURES.mute];
+
+export default function Command() {
+  return (
+    <VcpControl
+      features={FEATURES}
+      navigationTitle="Monitor Volume"
+      icon={Icon.SpeakerOn}
+    />
+  );
+}
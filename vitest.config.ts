@@ -0,0 +1,16 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    // Tests run outside Raycast, like the CLI (see src/cli/raycast-shim.ts)
+    alias: {
+      "@raycast/api": fileURLToPath(
+        new URL("./src/cli/raycast-shim.ts", import.meta.url),
+      ),
+    },
+  },
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});